@@ -0,0 +1,397 @@
+import { timingSafeEqual } from 'crypto';
+import express from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { Server as SocketIOServer, Socket as ServerSocket } from 'socket.io';
+import { io, Socket } from 'socket.io-client';
+import { shardAuth } from './auth';
+import { ConnectionTester, TesterSnapshot } from './client';
+import { mergeProgress, ProgressView, RunProgress } from './dashboard';
+import { HistogramSnapshot, LatencyHistogram } from './histogram';
+import { BenchmarkConfig, ConnectionResult } from './types';
+import { expectedRunSeconds, shard, shardProfile, shardRate } from './profile';
+import { CoordinatorOptions, WorkerCoordinator } from './workers';
+
+export const DEFAULT_AGENT_PORT = 7070;
+// Without a shared secret an agent only listens here
+export const DEFAULT_AGENT_HOST = '127.0.0.1';
+
+// Slack on top of the expected run time before the controller gives up on an agent
+const MIN_COMPLETION_SLACK_SECONDS = 120;
+
+interface AgentJob {
+  agentIndex: number;
+  config: BenchmarkConfig;
+}
+
+interface AgentProgress {
+  agentIndex: number;
+  progress: RunProgress;
+  latency: HistogramSnapshot; // Round trips since the previous progress message
+}
+
+interface AgentResult {
+  agentIndex: number;
+  snapshot: TesterSnapshot;
+}
+
+type AgentAck = { ok: true } | { ok: false; error: string };
+
+// Local settings an agent applies on top of whatever the controller sends
+type AgentOverrides = Pick<BenchmarkConfig, 'workers' | 'localAddresses'>;
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\./.test(host);
+}
+
+function secretMatches(given: unknown, secret: string): boolean {
+  if (typeof given !== 'string') return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+class BenchmarkAgent {
+  private port: number;
+  private host: string;
+  private secret?: string;
+  private overrides: AgentOverrides;
+  private server: HttpServer;
+  private io: SocketIOServer;
+  private job: AgentJob | null = null;
+  private running: boolean = false;
+
+  /**
+   * An agent opens whatever connections the controller asks for, so it only
+   * accepts remote controllers when a shared secret is set. Without one it
+   * binds to loopback and refuses any other host.
+   */
+  constructor(port: number = DEFAULT_AGENT_PORT, overrides: AgentOverrides = {}, secret?: string, host?: string) {
+    if (!secret && host && !isLoopback(host)) {
+      throw new Error(`Refusing to listen on ${host} without a shared secret (set AGENT_SECRET or --secret)`);
+    }
+    this.port = port;
+    this.host = host || (secret ? '0.0.0.0' : DEFAULT_AGENT_HOST);
+    this.overrides = overrides;
+    this.secret = secret;
+    this.server = createServer(express());
+    this.io = new SocketIOServer(this.server, { serveClient: false });
+    this.setupSocketIO();
+  }
+
+  private setupSocketIO(): void {
+    if (this.secret) {
+      this.io.use((socket, next) => {
+        if (secretMatches(socket.handshake.auth?.secret, this.secret!)) {
+          next();
+        } else {
+          next(new Error('Invalid agent secret'));
+        }
+      });
+    }
+
+    this.io.on('connection', (socket) => {
+      console.log(`🛰️  Controller connected from ${socket.handshake.address}`);
+
+      socket.on('prepare', (job: AgentJob, ack: (response: AgentAck) => void) => {
+        if (this.running) {
+          ack({ ok: false, error: 'Agent is busy with another run' });
+          return;
+        }
+
+        this.job = {
+          agentIndex: job.agentIndex,
+          config: {
+            ...job.config,
+            ...(this.overrides.workers ? { workers: this.overrides.workers } : {}),
+            ...(this.overrides.localAddresses ? { localAddresses: this.overrides.localAddresses } : {})
+          }
+        };
+
+        console.log(`📥 Prepared slice ${job.agentIndex}: ${this.job.config.targetConnections} connections @ ${this.job.config.connectionRate}/s`);
+        ack({ ok: true });
+      });
+
+      socket.on('start', (data: { delayMs: number }) => {
+        if (!this.job || this.running) return;
+        const job = this.job;
+        setTimeout(() => this.runJob(socket, job), Math.max(0, data.delayMs));
+      });
+
+      socket.on('disconnect', (reason) => {
+        console.log(`🛰️  Controller disconnected: ${reason}`);
+      });
+    });
+  }
+
+  private async runJob(socket: ServerSocket, job: AgentJob): Promise<void> {
+    this.running = true;
+    const clientIdPrefix = `a${job.agentIndex}-`;
+    let progressInterval: NodeJS.Timeout | null = null;
+    let latencyWindow = new LatencyHistogram();
+
+    console.log(`🚀 Starting slice ${job.agentIndex}`);
+
+    // Stream progress and the latest round trips back to the controller while the slice runs
+    const streamProgress = (source: () => RunProgress) => {
+      progressInterval = setInterval(() => {
+        const progress = source();
+        const latency = latencyWindow.toSnapshot();
+        latencyWindow = new LatencyHistogram();
+        socket.emit('progress', { agentIndex: job.agentIndex, progress, latency } as AgentProgress);
+      }, 2000);
+    };
+
+    try {
+      let tester: ConnectionTester;
+
+      if ((job.config.workers || 1) > 1) {
+        const coordinator = new WorkerCoordinator(job.config, clientIdPrefix, { onLatencies: window => latencyWindow.merge(window) });
+        streamProgress(() => coordinator.getProgress());
+        tester = await coordinator.run();
+      } else {
+        const single = new ConnectionTester(job.config, {
+          clientIdPrefix,
+          onLatency: (_category, latency) => latencyWindow.recordValue(latency)
+        });
+        streamProgress(() => single.getProgress());
+        await single.testConnections();
+        tester = single;
+      }
+
+      socket.emit('result', {
+        agentIndex: job.agentIndex,
+        snapshot: tester.getSnapshot()
+      } as AgentResult);
+      console.log(`✅ Slice ${job.agentIndex} completed, results sent to controller`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      socket.emit('failed', { agentIndex: job.agentIndex, error: message });
+      console.error(`❌ Slice ${job.agentIndex} failed: ${message}`);
+    } finally {
+      if (progressInterval) {
+        clearInterval(progressInterval);
+      }
+      this.running = false;
+      this.job = null;
+    }
+  }
+
+  public async start(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.listen(this.port, this.host, () => {
+        console.log(`
+🛰️  Benchmark Agent Started
+├─ Listening: ${this.host}:${this.port}
+├─ Workers: ${this.overrides.workers || 'as requested by controller'}
+├─ Source Addresses: ${this.overrides.localAddresses?.join(', ') || 'default'}
+└─ Auth: ${this.secret ? 'shared secret' : 'none (loopback only)'}
+
+Waiting for controller instructions...
+        `);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): void {
+    this.io.close();
+    this.server.close();
+    console.log('Agent stopped');
+  }
+}
+
+class DistributedController {
+  private config: BenchmarkConfig;
+  private agents: string[];
+  private secret?: string;
+  private sockets: Socket[] = [];
+  private onLatencies?: (window: HistogramSnapshot) => void;
+  private progress: Map<number, RunProgress> = new Map();
+  private progressView: ProgressView | null = null;
+
+  // Agents report progress and round trips every 2 seconds
+  constructor(config: BenchmarkConfig, secret?: string, options: CoordinatorOptions = {}) {
+    this.config = config;
+    this.agents = config.agents || [];
+    this.secret = secret;
+    this.onLatencies = options.onLatencies;
+    if (options.progress && !config.verbose) {
+      this.progressView = new ProgressView(() => this.getProgress());
+    }
+  }
+
+  // Latest counters from every agent that has reported so far
+  public getProgress(): RunProgress {
+    return mergeProgress([...this.progress.values()], this.config.targetConnections);
+  }
+
+  /**
+   * Split the run across agents: connections, rate and auth identities are
+   * sharded evenly, and the agent list is dropped so an agent never tries to
+   * fan out again.
+   */
+  public buildAgentConfigs(): BenchmarkConfig[] {
+    const connections = shard(this.config.targetConnections, this.agents.length);
+    const rates = shardRate(this.config.connectionRate, this.agents.length);
+    const profiles = this.config.loadProfile ? shardProfile(this.config.loadProfile, this.agents.length) : null;
+    const auths = shardAuth(this.config.auth, connections);
+    // Rooms are local to each generator so fan-out can be checked against known publishers
+    const rooms = shard(this.config.fanoutRooms || 0, this.agents.length);
+
+    return connections.map((targetConnections, i) => ({
+      ...this.config,
+      targetConnections,
+      loadProfile: profiles ? profiles[i] : undefined,
+      fanoutRooms: this.config.fanoutRooms ? Math.max(1, rooms[i]) : this.config.fanoutRooms,
+      connectionRate: rates[i],
+      // One restart request is enough for the whole run
+      serverRestart: i === 0 ? this.config.serverRestart : undefined,
+      auth: auths[i],
+      agents: undefined
+    }));
+  }
+
+  public async run(): Promise<ConnectionTester> {
+    if (this.agents.length === 0) {
+      throw new Error('No agents configured');
+    }
+
+    const aggregate = new ConnectionTester(this.config);
+    const agentConfigs = this.buildAgentConfigs();
+
+    console.log(`\n🛰️  Coordinating ${this.agents.length} agents`);
+    agentConfigs.forEach((config, i) => {
+      console.log(`├─ ${this.agents[i]}: ${config.targetConnections} connections @ ${config.connectionRate}/s`);
+    });
+
+    const insecure = this.agents.filter(address => !address.startsWith('https://') && !isLoopback(agentHost(address)));
+    if (insecure.length > 0 && (this.config.token || this.config.headers || this.config.auth || this.config.serverRestart?.token)) {
+      console.warn(`⚠️  Credentials in the job are sent in cleartext to ${insecure.join(', ')}; use https:// agent addresses or a trusted network`);
+    }
+
+    try {
+      // Connect and hand out slices before anyone starts, so all agents begin together
+      const connections = await Promise.allSettled(this.agents.map(address => this.connectAgent(address)));
+      connections.forEach(c => {
+        if (c.status === 'fulfilled') this.sockets.push(c.value);
+      });
+      const unreachable = connections.find((c): c is PromiseRejectedResult => c.status === 'rejected');
+      if (unreachable) {
+        throw unreachable.reason;
+      }
+
+      await Promise.all(this.sockets.map((socket, i) => this.prepareAgent(socket, i, agentConfigs[i])));
+
+      const timeoutMs = completionTimeoutMs(this.config);
+      const completions = this.sockets.map((socket, i) => this.awaitCompletion(socket, i, agentConfigs[i].targetConnections, timeoutMs));
+      this.sockets.forEach(socket => socket.emit('start', { delayMs: 2000 }));
+      console.log('🚦 All agents ready, starting in 2s');
+
+      this.progressView?.start();
+      let outcomes: Array<AgentResult | { error: string }>;
+      try {
+        outcomes = await Promise.all(completions);
+      } finally {
+        this.progressView?.stop();
+      }
+
+      outcomes.forEach((outcome, i) => {
+        if ('error' in outcome) {
+          console.error(`❌ Agent ${this.agents[i]} failed: ${outcome.error}`);
+          aggregate.recordFailedGenerator(`agent ${this.agents[i]}`, agentConfigs[i].targetConnections, outcome.error);
+        } else {
+          aggregate.absorbResults({
+            ...outcome.snapshot,
+            results: outcome.snapshot.results.map(reviveResult)
+          });
+        }
+      });
+
+      if (outcomes.every(outcome => 'error' in outcome)) {
+        throw new Error('All agents failed');
+      }
+    } finally {
+      this.sockets.forEach(socket => socket.disconnect());
+      this.sockets = [];
+    }
+
+    return aggregate;
+  }
+
+  private connectAgent(address: string): Promise<Socket> {
+    const url = address.includes('://') ? address : `http://${address}`;
+    const socket = io(url, {
+      transports: ['websocket'],
+      reconnection: false,
+      forceNew: true,
+      timeout: 10000,
+      auth: this.secret ? { secret: this.secret } : undefined
+    });
+
+    return new Promise((resolve, reject) => {
+      socket.once('connect', () => resolve(socket));
+      socket.once('connect_error', (error) => {
+        socket.disconnect();
+        reject(new Error(`Cannot reach agent ${address}: ${error.message}`));
+      });
+    });
+  }
+
+  private async prepareAgent(socket: Socket, agentIndex: number, config: BenchmarkConfig): Promise<void> {
+    const ack: AgentAck = await socket.timeout(10000).emitWithAck('prepare', { agentIndex, config } as AgentJob);
+    if (!ack.ok) {
+      throw new Error(`Agent ${this.agents[agentIndex]} rejected the run: ${ack.error}`);
+    }
+  }
+
+  private awaitCompletion(socket: Socket, agentIndex: number, target: number, timeoutMs: number): Promise<AgentResult | { error: string }> {
+    const address = this.agents[agentIndex];
+
+    socket.on('progress', (message: AgentProgress) => {
+      const progress = message.progress;
+      this.progress.set(agentIndex, progress);
+      if (!this.progressView) {
+        console.log(`📡 ${address}: ${progress.attempted}/${target} (✅ ${progress.succeeded}, ❌ ${progress.failed}, 🔄 Active: ${progress.active})`);
+      }
+      if (message.latency) {
+        this.onLatencies?.(message.latency);
+      }
+    });
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve({ error: `No result after ${Math.round(timeoutMs / 1000)}s` }), timeoutMs);
+      const settle = (outcome: AgentResult | { error: string }) => {
+        clearTimeout(timer);
+        resolve(outcome);
+      };
+      socket.once('result', (result: AgentResult) => settle(result));
+      socket.once('failed', (data: { error: string }) => settle({ error: data.error }));
+      socket.once('disconnect', (reason) => settle({ error: `Agent disconnected: ${reason}` }));
+    });
+  }
+}
+
+function agentHost(address: string): string {
+  try {
+    return new URL(address.includes('://') ? address : `http://${address}`).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return address;
+  }
+}
+
+// The run's planned length plus generous slack for retries, reconnects and reporting
+function completionTimeoutMs(config: BenchmarkConfig): number {
+  const expected = expectedRunSeconds(config) + (config.serverRestart?.downtime || 0) / 1000;
+  return (expected + Math.max(MIN_COMPLETION_SLACK_SECONDS, expected / 2)) * 1000;
+}
+
+// Dates do not survive the JSON round trip to the controller
+function reviveResult(result: ConnectionResult): ConnectionResult {
+  return {
+    ...result,
+    startedAt: result.startedAt ? new Date(result.startedAt) : undefined,
+    disconnectedAt: result.disconnectedAt ? new Date(result.disconnectedAt) : undefined
+  };
+}
+
+export { BenchmarkAgent, DistributedController };
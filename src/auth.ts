@@ -0,0 +1,343 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuthOptions, AuthProviderKind, BenchmarkConfig, FailureKind } from './types';
+
+export const AUTH_PROVIDERS: AuthProviderKind[] = ['static', 'file', 'login', 'jwt'];
+
+const DEFAULT_LOGIN_RATE = 50;
+const DEFAULT_TOKEN_TTL_S = 300;
+const DEFAULT_JWT_EXPIRES_IN_S = 3600;
+const DEFAULT_JWT_CLAIMS: Record<string, string> = { sub: 'user-{user}', companyid: '{companyId}' };
+const LOGIN_TIMEOUT_MS = 10000;
+
+/**
+ * Supplies the handshake headers (also sent as the Socket.IO auth payload)
+ * for the client with the given index. Rejects when no credentials can be had.
+ */
+export interface AuthProvider {
+  readonly description: string;
+  credentials(index: number): Promise<Record<string, string>>;
+}
+
+export function parseAuthProvider(value: string): AuthProviderKind {
+  const provider = value.trim().toLowerCase() as AuthProviderKind;
+  if (!AUTH_PROVIDERS.includes(provider)) {
+    throw new Error(`Invalid auth provider "${value}" (expected one of: ${AUTH_PROVIDERS.join(', ')})`);
+  }
+  return provider;
+}
+
+/**
+ * Only explicit signals count as refused credentials: a namespace middleware
+ * rejection carrying data.reason or an "Unauthorized" message, or HTTP 401/403
+ * on the engine handshake. Anything else, including errors from servers that
+ * say nothing about why, is a transport failure and gets retried.
+ */
+export function classifyConnectError(error: any): FailureKind {
+  if (error?.type === 'TransportError') {
+    // Polling reports the HTTP status; websocket the ws library's "Unexpected server response: 401"
+    const status = typeof error.description === 'number'
+      ? error.description
+      : Number(/Unexpected server response: (\d+)/.exec(String(error.description?.message ?? ''))?.[1]);
+    return status === 401 || status === 403 ? 'auth' : 'transport';
+  }
+  if (error?.data?.reason !== undefined || /^Unauthorized\b/i.test(String(error?.message ?? ''))) {
+    return 'auth';
+  }
+  return 'transport';
+}
+
+// Which identity the client with this index uses
+function identityOf(options: AuthOptions, index: number, available?: number): number {
+  const identity = (options.firstIdentity || 0) + index;
+  const identities = options.identities || available;
+  return identities ? identity % identities : identity;
+}
+
+function expand(template: Record<string, string>, identity: number, config: BenchmarkConfig): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(template).map(([key, value]) => [key, value.replace(/\{user\}/g, String(identity)).replace(/\{companyId\}/g, config.companyId)])
+  );
+}
+
+// Extra configured headers ride along with every generated credential
+function withAuthorization(config: BenchmarkConfig, authorization: string, extra: Record<string, string> = {}): Record<string, string> {
+  return { companyid: config.companyId, ...config.headers, ...extra, authorization };
+}
+
+class StaticAuthProvider implements AuthProvider {
+  public readonly description = 'static token';
+
+  constructor(private readonly config: BenchmarkConfig) {}
+
+  public async credentials(): Promise<Record<string, string>> {
+    return this.config.headers
+      ? { ...this.config.headers }
+      : { authorization: this.config.token, companyid: this.config.companyId };
+  }
+}
+
+/**
+ * CSV with a header row, or a JSON array of token strings or objects. A
+ * `token` column is sent as the authorization header as is, any other column
+ * as a header of that name.
+ */
+export function readCredentialFile(file: string): Array<Record<string, string>> {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read credentials file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let rows: Array<Record<string, string>>;
+  if (path.extname(file).toLowerCase() === '.json') {
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Cannot parse credentials file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(document)) {
+      throw new Error(`Invalid credentials file ${file}: expected an array of tokens or objects`);
+    }
+    rows = document.map(entry => entry && typeof entry === 'object'
+      ? Object.fromEntries(Object.entries(entry).map(([key, value]) => [key, String(value)]))
+      : { token: String(entry) });
+  } else {
+    // Plain comma-separated values; quoting is not supported
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const columns = (lines.shift() || '').split(',').map(column => column.trim());
+    rows = lines.map(line => {
+      const values = line.split(',');
+      return Object.fromEntries(columns.map((column, i) => [column, (values[i] || '').trim()]));
+    });
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`Invalid credentials file ${file}: no entries`);
+  }
+  return rows;
+}
+
+class FileAuthProvider implements AuthProvider {
+  public readonly description: string;
+  private rows: Array<Record<string, string>>;
+
+  constructor(private readonly options: AuthOptions, private readonly config: BenchmarkConfig) {
+    this.rows = readCredentialFile(options.file!);
+    this.description = `${this.rows.length} credentials from ${options.file}`;
+  }
+
+  public async credentials(index: number): Promise<Record<string, string>> {
+    const identity = identityOf(this.options, index, this.rows.length);
+    const row = this.rows[identity];
+    if (!row) {
+      throw new Error(`No credentials for identity ${identity} in ${this.options.file} (${this.rows.length} entries)`);
+    }
+
+    const { token, ...headers } = row;
+    if (token === undefined) {
+      return { companyid: this.config.companyId, ...this.config.headers, ...headers };
+    }
+    return withAuthorization(this.config, token, headers);
+  }
+}
+
+/**
+ * Logs each identity in through an HTTP endpoint, at most loginRate requests
+ * per second, and reuses the token until it expires. Concurrent clients of
+ * one identity share a single login.
+ */
+class LoginAuthProvider implements AuthProvider {
+  public readonly description: string;
+  private cache: Map<number, { token: Promise<string>; expiresAt: number }> = new Map();
+  private nextSlot: number = 0;
+
+  constructor(private readonly options: AuthOptions, private readonly config: BenchmarkConfig) {
+    this.description = `login via ${options.loginUrl}`;
+  }
+
+  public async credentials(index: number): Promise<Record<string, string>> {
+    const identity = identityOf(this.options, index);
+    const cached = this.cache.get(identity);
+    if (cached && cached.expiresAt > Date.now()) {
+      return withAuthorization(this.config, `Bearer ${await cached.token}`);
+    }
+
+    // Until the login answers, clients of this identity wait on the same request
+    const entry = { token: Promise.resolve(''), expiresAt: Infinity };
+    entry.token = this.login(identity).then(({ token, ttl }) => {
+      entry.expiresAt = Date.now() + ttl * 1000;
+      return token;
+    });
+    this.cache.set(identity, entry);
+    try {
+      return withAuthorization(this.config, `Bearer ${await entry.token}`);
+    } catch (error) {
+      // Let the next client of this identity try again
+      if (this.cache.get(identity) === entry) this.cache.delete(identity);
+      throw error;
+    }
+  }
+
+  private async login(identity: number): Promise<{ token: string; ttl: number }> {
+    await this.waitForSlot();
+
+    const response = await fetch(this.options.loginUrl!, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(expand(this.options.loginBody || {}, identity, this.config)),
+      signal: AbortSignal.timeout(LOGIN_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Login for identity ${identity} failed: HTTP ${response.status}`);
+    }
+
+    const body: any = await response.json();
+    const field = this.options.tokenField || 'token';
+    const token = field.split('.').reduce((value, key) => value?.[key], body);
+    if (typeof token !== 'string' || token === '') {
+      throw new Error(`Login for identity ${identity} returned no "${field}"`);
+    }
+
+    const ttl = typeof body.expiresIn === 'number' ? body.expiresIn : this.options.tokenTtl ?? DEFAULT_TOKEN_TTL_S;
+    return { token, ttl };
+  }
+
+  // Spread logins evenly instead of sending a ramp's worth at once
+  private async waitForSlot(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / (this.options.loginRate || DEFAULT_LOGIN_RATE);
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+const base64url = (value: Buffer | string): string => Buffer.from(value).toString('base64url');
+
+/**
+ * Compact JWS. HS256 with a string key; RS256 or ES256 with a PEM private key,
+ * picked from the key type.
+ */
+export function signJwt(claims: Record<string, unknown>, key: string | crypto.KeyObject): string {
+  const algorithm = typeof key === 'string' ? 'HS256' : key.asymmetricKeyType === 'ec' ? 'ES256' : 'RS256';
+  const signingInput = `${base64url(JSON.stringify({ alg: algorithm, typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+
+  const signature = typeof key === 'string'
+    ? crypto.createHmac('sha256', key).update(signingInput).digest()
+    : crypto.sign('sha256', Buffer.from(signingInput), algorithm === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key);
+  return `${signingInput}.${base64url(signature)}`;
+}
+
+/**
+ * Check an HS256 token against `secret` and return its claims. Throws with the
+ * reason (malformed, wrong algorithm, bad signature, expired, not yet valid).
+ */
+export function verifyJwt(token: string, secret: string, now: number = Date.now()): Record<string, unknown> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('malformed token');
+  }
+
+  let header: any;
+  let claims: any;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('malformed token');
+  }
+  if (!claims || typeof claims !== 'object') {
+    throw new Error('malformed token');
+  }
+  if (header?.alg !== 'HS256') {
+    throw new Error('unsupported algorithm');
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(`${parts[0]}.${parts[1]}`).digest();
+  const actual = Buffer.from(parts[2], 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new Error('bad signature');
+  }
+
+  const seconds = Math.floor(now / 1000);
+  if (typeof claims.exp === 'number' && seconds >= claims.exp) {
+    throw new Error('token expired');
+  }
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf) {
+    throw new Error('token not yet valid');
+  }
+  return claims;
+}
+
+class JwtAuthProvider implements AuthProvider {
+  public readonly description: string;
+  private key: string | crypto.KeyObject;
+
+  constructor(private readonly options: AuthOptions, private readonly config: BenchmarkConfig) {
+    if (options.jwtKeyFile) {
+      try {
+        this.key = crypto.createPrivateKey(fs.readFileSync(options.jwtKeyFile, 'utf8'));
+      } catch (error) {
+        throw new Error(`Cannot load JWT key ${options.jwtKeyFile}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      this.key = options.jwtSecret!;
+    }
+    this.description = `JWTs signed locally (${options.jwtKeyFile || 'HS256 secret'})`;
+  }
+
+  public async credentials(index: number): Promise<Record<string, string>> {
+    const identity = identityOf(this.options, index);
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+      ...expand(this.options.jwtClaims || DEFAULT_JWT_CLAIMS, identity, this.config),
+      iat: now,
+      exp: now + (this.options.jwtExpiresIn ?? DEFAULT_JWT_EXPIRES_IN_S)
+    };
+    return withAuthorization(this.config, `Bearer ${signJwt(claims, this.key)}`);
+  }
+}
+
+/**
+ * Build the provider for config.auth; the static provider when unset. Throws
+ * when a provider's required settings are missing or its file cannot be read.
+ */
+export function createAuthProvider(config: BenchmarkConfig): AuthProvider {
+  const options = config.auth;
+  switch (options?.provider ?? 'static') {
+    case 'static':
+      return new StaticAuthProvider(config);
+    case 'file':
+      if (!options!.file) throw new Error('The file auth provider needs a credentials file');
+      return new FileAuthProvider(options!, config);
+    case 'login':
+      if (!options!.loginUrl) throw new Error('The login auth provider needs a login URL');
+      return new LoginAuthProvider(options!, config);
+    case 'jwt':
+      if (!options!.jwtSecret && !options!.jwtKeyFile) throw new Error('The jwt auth provider needs a secret or a key file');
+      return new JwtAuthProvider(options!, config);
+  }
+}
+
+/**
+ * Split auth settings the same way connections are split across workers or
+ * agents: each part gets its own slice of identities and of the login rate.
+ */
+export function shardAuth(auth: AuthOptions | undefined, connections: number[]): Array<AuthOptions | undefined> {
+  let offset = auth?.firstIdentity || 0;
+  return connections.map(count => {
+    if (!auth) return undefined;
+    const part = {
+      ...auth,
+      firstIdentity: offset,
+      loginRate: (auth.loginRate || DEFAULT_LOGIN_RATE) * (count / Math.max(1, connections.reduce((sum, n) => sum + n, 0)))
+    };
+    offset += count;
+    return part;
+  });
+}
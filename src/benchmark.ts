@@ -1,87 +1,414 @@
 import chalk from 'chalk';
-import { program } from 'commander';
+import { fork } from 'child_process';
+import { Command, program } from 'commander';
 import ora from 'ora';
+import * as path from 'path';
+import { DEFAULT_AGENT_HOST, DEFAULT_AGENT_PORT, BenchmarkAgent, DistributedController } from './agent';
+import { parseAuthProvider } from './auth';
+import { CapacitySearch, checkThresholds, DEFAULT_CAPACITY_THRESHOLDS, measureLevel } from './capacity';
 import { ConnectionTester } from './client';
+import { compareResults, loadExport, parseTolerances, printComparison, REGRESSION_EXIT_CODE } from './compare';
+import { clientSeries, Dashboard, renderPanel, serverSeries } from './dashboard';
+import { HistogramSnapshot, LatencyHistogram } from './histogram';
+import { parseLogLevel, parseLogSampling } from './logger';
+import { analyzeLogs, printLogAnalysis } from './logs';
+import { matrixEntry, parseTransportModes, summarizeTransports } from './matrix';
 import { PerformanceTracker } from './monitor';
-import { BenchmarkConfig, BenchmarkResults, ConnectionResult } from './types';
+import { MAX_RESTART_DOWNTIME_MS } from './reconnect';
+import { resolveProfile } from './profile';
+import { ChaosProxy, parseFault, parseHostPort, parseNonNegative, parsePort } from './proxy';
+import { buildConnectionBreakdown, writeHtmlReport } from './report';
+import { DEFAULT_RUNS_DIR, parseRunId, prepareRun, runPaths } from './run';
+import { loadScenario, Scenario } from './scenario';
+import { buildTargetUrl, describeTarget, parseScheme, parseTargetUrl, parseTransportMode, parseTransports, resolveTarget, transportsForMode } from './target';
+import { evaluateThresholds, THRESHOLD_LABELS, THRESHOLD_UNITS } from './thresholds';
+import {
+  BenchmarkConfig,
+  BenchmarkExport,
+  BenchmarkResults,
+  CapacityLevel,
+  CapacityResult,
+  CapacitySearchOptions,
+  CapacityStrategy,
+  CapacityThresholds,
+  AuthOptions,
+  ConnectionResult,
+  LoadPhase,
+  LoggingOptions,
+  ReconnectionOptions,
+  ServerRestartOptions,
+  SloThresholds,
+  TransportMatrixEntry,
+  TransportMatrixResult,
+  TransportMode
+} from './types';
+import { WorkerCoordinator } from './workers';
+
+interface ScoreComponent {
+  efficiency: number; // 0-1
+  score: number;
+  weight: number;
+}
+
+interface PerformanceScore {
+  finalScore: number; // 0-100
+  grade: string;
+  success: ScoreComponent;
+  memory: ScoreComponent;
+  cpu: ScoreComponent;
+  speed: ScoreComponent;
+}
+
+// What runMatrix hands each mode's child process, and what the child sends back
+interface MatrixModeJob {
+  config: BenchmarkConfig;
+  runsDir: string;
+  serverMetrics: { url?: string } | null;
+  dashboard: boolean;
+}
+
+interface MatrixModeOutcome {
+  results: BenchmarkResults;
+  score: number;
+  grade: string;
+}
+
+function gradeColor(grade: string): chalk.Chalk {
+  if (grade.startsWith('A')) return chalk.green;
+  if (grade.startsWith('B')) return chalk.blue;
+  if (grade.startsWith('C')) return chalk.yellow;
+  return chalk.red;
+}
 
 class SocketBenchmark {
   private performanceTracker: PerformanceTracker;
   private results: BenchmarkResults | null = null;
+  private dashboardEnabled: boolean = false;
+  private serverMetrics: { url?: string } | null = null;
+  private runsDir: string = DEFAULT_RUNS_DIR;
 
   constructor() {
     this.performanceTracker = new PerformanceTracker();
   }
 
+  /**
+   * Replace the run's progress output with a live client/server dashboard
+   * until the connections are closed and the report is printed.
+   */
+  public enableDashboard(): void {
+    this.dashboardEnabled = true;
+  }
+
+  /**
+   * Poll the server's Prometheus endpoint during runs (default: /metrics on
+   * the target's origin). Off unless asked for, since not every target
+   * exposes it, or should be scraped by a load generator.
+   */
+  public trackServerMetrics(url?: string): void {
+    this.serverMetrics = { url };
+  }
+
+  private serverMetricsUrl(config: BenchmarkConfig): string | null {
+    return this.serverMetrics ? this.serverMetrics.url || metricsUrl(config) : null;
+  }
+
+  // Parent directory of the per-run directories (default: ./runs)
+  public setRunsDir(dir: string): void {
+    this.runsDir = dir;
+  }
+
+  // Assign the run ID and directory every log, export and report of this run goes to
+  private startRun(config: BenchmarkConfig): BenchmarkConfig {
+    const prepared = prepareRun(config, this.runsDir);
+    console.log(chalk.gray(`📁 Run ${prepared.runId}: ${prepared.runDir}`));
+    return prepared;
+  }
+
+  private createDashboard(config: BenchmarkConfig): Dashboard {
+    const server = describeTarget(resolveTarget(config));
+    const serverUrl = this.serverMetricsUrl(config);
+    return new Dashboard(() => {
+      const timeline = this.performanceTracker.getTimeline();
+      const serverSamples = timeline
+        .filter(sample => sample.server)
+        .map(sample => ({ timestamp: sample.timestamp, ...sample.server! }));
+      const elapsed = timeline.length > 0 ? (timeline[timeline.length - 1].timestamp - timeline[0].timestamp) / 1000 : 0;
+
+      return [
+        chalk.blue.bold(`🎯 ${config.targetConnections.toLocaleString()} connections → ${server}  (${elapsed.toFixed(0)}s)`),
+        '',
+        ...renderPanel('LOAD GENERATOR', clientSeries(timeline)),
+        '',
+        ...renderPanel('SERVER', serverSeries(serverSamples), !serverUrl
+          ? 'server metrics off (enable with --server-metrics)'
+          : timeline.length > 0 && serverSamples.length === 0 ? `no metrics from ${serverUrl}` : undefined)
+      ];
+    });
+  }
+
   public async runBenchmark(config: BenchmarkConfig): Promise<BenchmarkResults> {
+    config = this.startRun(config);
     console.log(chalk.blue.bold(`
 🎯 SOCKET.IO BENCHMARK TEST
 ═══════════════════════════
 Target: ${config.targetConnections.toLocaleString()} concurrent connections
-Server: ${config.serverHost}:${config.serverPort}
+Server: ${describeTarget(resolveTarget(config))}
 Rate: ${config.connectionRate} connections/second
 Duration: ${config.testDuration} seconds
+Workers: ${config.workers || 1}${config.agents ? ` per agent, agents: ${config.agents.join(', ')}` : ''}
+Auth: ${config.auth?.provider || 'static'}
     `));
 
     const startTime = new Date();
+    const serverMetricsUrl = this.serverMetricsUrl(config);
+    if (serverMetricsUrl) {
+      this.performanceTracker.trackServer(serverMetricsUrl);
+    }
     this.performanceTracker.startTracking();
+    const dashboard = this.dashboardEnabled ? this.createDashboard(config) : null;
+    dashboard?.start();
 
     // Initialize results
-    this.results = {
-      config,
-      startTime,
-      endTime: new Date(),
-      totalDuration: 0,
-      successfulConnections: 0,
-      failedConnections: 0,
-      activeConnections: 0,
-      disconnectedConnections: 0,
-      spontaneousDisconnections: 0,
-      maxConcurrentConnections: 0,
-      averageConnectionTime: 0,
-      connectionSuccessRate: 0,
-      connectionRetentionRate: 0,
-      peakMemoryUsage: 0,
-      peakCpuUsage: 0,
-      errors: []
-    };
+    this.results = this.createResults(config, startTime);
 
     try {
       // Step 1: Test server availability
       await this.testServerAvailability(config);
 
-      // Step 2: Run incremental load test 
-      // if (config.targetConnections > 1000) {
-        //await this.runIncrementalTest(config);
-      //}
-
-      // Step 3: Run main benchmark
+      // Step 2: Run main benchmark (a load profile replaces the old incremental test)
       const benchmarkResult = await this.runMainBenchmark(config);
       const connectionResults = benchmarkResult.results;
       const tester = benchmarkResult.tester;
+      dashboard?.stop();
 
-      // Step 4: Analyze results
+      // Step 3: Analyze results
       this.analyzeResults(connectionResults, startTime, tester);
+      if (config.thresholds) {
+        this.results.thresholds = evaluateThresholds(this.results, config.thresholds);
+      }
 
-      // Step 5: Generate report
+      // Step 4: Generate report
       this.generateReport();
 
     } catch (error) {
       console.error(chalk.red('❌ Benchmark failed:'), error);
       if (this.results) {
-        this.results.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.results.errors.push(message);
+        this.results.aborted = message;
       }
     } finally {
+      dashboard?.stop();
       this.performanceTracker.stopTracking();
       if (this.results) {
         this.results.endTime = new Date();
         this.results.totalDuration = (this.results.endTime.getTime() - startTime.getTime()) / 1000;
+
+        // A run that aborted still has to fail its thresholds
+        if (config.thresholds && !this.results.thresholds) {
+          this.results.thresholds = evaluateThresholds(this.results, config.thresholds);
+          this.printThresholdReport();
+        }
+
+        const paths = runPaths(config.runDir!);
+        this.exportResults(paths.results);
+        this.writeReport(paths.report);
       }
     }
 
     return this.results!;
   }
 
+  /**
+   * Test increasing connection levels chosen by CapacitySearch until one breaches
+   * the thresholds, then report the highest level that passed. Each level is a
+   * full run: ramp up at the configured rate, hold for testDuration, disconnect.
+   */
+  public async findLimit(config: BenchmarkConfig, options: CapacitySearchOptions): Promise<CapacityResult> {
+    const t = options.thresholds;
+    console.log(chalk.blue.bold(`
+🔎 SOCKET.IO CAPACITY SEARCH
+═══════════════════════════
+Server: ${describeTarget(resolveTarget(config))}
+Strategy: ${options.strategy} from ${options.start.toLocaleString()} to ${options.max.toLocaleString()} (step ${options.step.toLocaleString()})
+Per level: ${config.connectionRate} connections/second, hold ${config.testDuration} seconds
+Thresholds: success ≥ ${t.minSuccessRate}%, p99 connect ≤ ${t.maxConnectP99}ms, ping failures ≤ ${t.maxPingFailureRate}%, spontaneous disconnects ≤ ${t.maxDisconnectRate}%
+    `));
+
+    config = this.startRun(config);
+    const search = new CapacitySearch(options);
+    let bestResults: BenchmarkResults | null = null;
+    this.performanceTracker.startTracking();
+
+    try {
+      await this.testServerAvailability(config);
+
+      let connections = search.next();
+      while (connections !== null) {
+        const levelConfig = { ...config, targetConnections: connections };
+        const startTime = new Date();
+        this.results = this.createResults(levelConfig, startTime);
+
+        console.log(chalk.blue.bold(`\n📶 Testing level ${connections.toLocaleString()} connections`));
+        const { tester, results } = await this.runMainBenchmark(levelConfig);
+        this.analyzeResults(results, startTime, tester);
+        this.results.endTime = new Date();
+        this.results.totalDuration = (this.results.endTime.getTime() - startTime.getTime()) / 1000;
+
+        const metrics = measureLevel(connections, results, tester);
+        const violations = checkThresholds(metrics, options.thresholds);
+        const { finalScore, grade } = this.scorePerformance(this.results);
+        const level: CapacityLevel = { ...metrics, score: finalScore, grade, passed: violations.length === 0, violations };
+        search.record(level);
+
+        if (level.passed && search.getHighestPassing() === level) {
+          bestResults = this.results;
+        }
+
+        if (level.passed) {
+          console.log(chalk.green(`✅ ${connections.toLocaleString()} connections passed (score ${finalScore.toFixed(1)}%, grade ${grade})`));
+        } else {
+          console.log(chalk.red(`❌ ${connections.toLocaleString()} connections failed: ${violations.join(', ')}`));
+        }
+
+        connections = search.next();
+        if (connections !== null && options.cooldown > 0) {
+          console.log(chalk.gray(`⏳ Cooling down for ${options.cooldown}s...`));
+          await new Promise(resolve => setTimeout(resolve, options.cooldown * 1000));
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ Capacity search aborted:'), error);
+    } finally {
+      this.performanceTracker.stopTracking();
+    }
+
+    const result: CapacityResult = { runId: config.runId, ...search.getResult() };
+    this.printCapacityReport(result);
+
+    const capacityFile = runPaths(config.runDir!).capacity;
+    require('fs').writeFileSync(capacityFile, JSON.stringify({ ...result, exportedAt: new Date().toISOString() }, null, 2));
+    console.log(chalk.green(`📄 Capacity results written to: ${capacityFile}`));
+
+    // Score the highest passing level the same way as a regular run
+    if (bestResults) {
+      this.results = bestResults;
+      this.assessPerformance();
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the same config once per transport mode, each as a full run with its
+   * own directory inside the matrix run, then compare the modes side by side.
+   * Every mode runs in a fresh child process so its memory and CPU figures
+   * are not inflated by what the earlier modes left behind.
+   */
+  public async runMatrix(config: BenchmarkConfig, modes: TransportMode[], cooldown: number): Promise<TransportMatrixResult> {
+    config = this.startRun(config);
+    console.log(chalk.blue.bold(`
+🚦 SOCKET.IO TRANSPORT MATRIX
+═══════════════════════════
+Server: ${buildTargetUrl(resolveTarget(config))}
+Modes: ${modes.join(', ')}
+Per mode: ${config.targetConnections.toLocaleString()} connections at ${config.connectionRate} connections/second, hold ${config.testDuration} seconds
+    `));
+
+    const entries: TransportMatrixEntry[] = [];
+    for (const [index, mode] of modes.entries()) {
+      if (index > 0 && cooldown > 0) {
+        console.log(chalk.gray(`⏳ Cooling down for ${cooldown}s...`));
+        await new Promise(resolve => setTimeout(resolve, cooldown * 1000));
+      }
+
+      console.log(chalk.blue.bold(`\n🚦 Transport mode: ${mode}`));
+      const { results, score, grade } = await this.runInChildProcess({
+        ...config,
+        transports: transportsForMode(mode),
+        runId: `${config.runId}-${mode}`,
+        runDir: path.join(config.runDir!, mode)
+      });
+      entries.push(matrixEntry(mode, results, score, grade));
+    }
+
+    const result: TransportMatrixResult = { runId: config.runId, entries };
+    this.printMatrixReport(result);
+
+    const matrixFile = runPaths(config.runDir!).matrix;
+    require('fs').writeFileSync(matrixFile, JSON.stringify({ ...result, exportedAt: new Date().toISOString() }, null, 2));
+    console.log(chalk.green(`📄 Matrix results written to: ${matrixFile}`));
+
+    return result;
+  }
+
+  private runInChildProcess(config: BenchmarkConfig): Promise<MatrixModeOutcome> {
+    const job: MatrixModeJob = { config, runsDir: this.runsDir, serverMetrics: this.serverMetrics, dashboard: this.dashboardEnabled };
+    // Allow running under ts-node during development
+    const execArgv = path.extname(__filename) === '.ts' ? ['-r', 'ts-node/register'] : undefined;
+
+    return new Promise((resolve, reject) => {
+      let outcome: MatrixModeOutcome | null = null;
+      const child = fork(__filename, ['matrix-mode'], { execArgv, serialization: 'advanced' });
+      child.on('message', message => {
+        outcome = message as MatrixModeOutcome;
+      });
+      child.on('error', reject);
+      child.on('exit', code => {
+        if (outcome) {
+          resolve(outcome);
+        } else {
+          reject(new Error(`Run ${config.runId} exited with code ${code} before reporting results`));
+        }
+      });
+      child.send(job);
+    });
+  }
+
+  // The child-process side of runMatrix: one full run, scored here
+  public async runMatrixMode(job: MatrixModeJob): Promise<MatrixModeOutcome> {
+    this.setRunsDir(job.runsDir);
+    this.serverMetrics = job.serverMetrics;
+    this.dashboardEnabled = job.dashboard;
+    const results = await this.runBenchmark(job.config);
+    const { finalScore, grade } = this.scorePerformance(results);
+    return { results, score: finalScore, grade };
+  }
+
+  private createResults(config: BenchmarkConfig, startTime: Date): BenchmarkResults {
+    return {
+      runId: config.runId,
+      config,
+      startTime,
+      endTime: new Date(),
+      totalDuration: 0,
+      successfulConnections: 0,
+      failedConnections: 0,
+      activeConnections: 0,
+      disconnectedConnections: 0,
+      spontaneousDisconnections: 0,
+      maxConcurrentConnections: 0,
+      averageConnectionTime: 0,
+      connectionSuccessRate: 0,
+      connectionRetentionRate: 0,
+      peakMemoryUsage: 0,
+      peakCpuUsage: 0,
+      hostCpuUsage: 0,
+      latency: {},
+      throughput: null,
+      fanout: null,
+      reconnection: null,
+      transport: null,
+      phases: null,
+      connectionTimeP99: 0,
+      thresholds: null,
+      errors: [],
+      authFailures: 0,
+      errorBreakdown: {},
+      breakdown: null
+    };
+  }
+
   private async testServerAvailability(config: BenchmarkConfig): Promise<void> {
     const spinner = ora('Testing server availability...').start();
     
@@ -90,8 +417,14 @@ Duration: ${config.testDuration} seconds
         ...config,
         targetConnections: 1,
         connectionRate: 1,
-        testDuration: 5
-      });
+        testDuration: 5,
+        // The probe only checks reachability, not workloads
+        throughputFraction: 0,
+        fanoutRooms: 0,
+        loadProfile: undefined,
+        reconnection: undefined,
+        serverRestart: undefined
+      }, { clientIdPrefix: 'probe-' });
 
       const results = await tester.testConnections();
       
@@ -107,57 +440,37 @@ Duration: ${config.testDuration} seconds
     }
   }
 
-  private async runIncrementalTest(config: BenchmarkConfig): Promise<void> {
-    console.log(chalk.yellow('\n📈 Running incremental load test...'));
+  private async runMainBenchmark(config: BenchmarkConfig): Promise<{ tester: ConnectionTester; results: ConnectionResult[] }> {
+    console.log(chalk.blue('\n🚀 Running main benchmark test...'));
     
-    const testSteps = [
-      Math.floor(config.targetConnections * 0.1),  // 10%
-      Math.floor(config.targetConnections * 0.25), // 25%
-      Math.floor(config.targetConnections * 0.5),  // 50%
-      Math.floor(config.targetConnections * 0.75)  // 75%
-    ];
-
-    for (const stepConnections of testSteps) {
-      const spinner = ora(`Testing ${stepConnections.toLocaleString()} connections...`).start();
-      
-      try {
-        const stepConfig: BenchmarkConfig = {
-          ...config,
-          targetConnections: stepConnections,
-          testDuration: 10 // Shorter duration for incremental tests
-        };
-
-        const tester = new ConnectionTester(stepConfig);
-        const results = await tester.testConnections();
-        
-        const successRate = (results.filter(r => r.success).length / results.length) * 100;
-        
-        if (successRate >= 95) {
-          spinner.succeed(chalk.green(`✅ ${stepConnections.toLocaleString()} connections (${successRate.toFixed(1)}% success)`));
-        } else if (successRate >= 80) {
-          spinner.warn(chalk.yellow(`⚠️  ${stepConnections.toLocaleString()} connections (${successRate.toFixed(1)}% success)`));
-        } else {
-          spinner.fail(chalk.red(`❌ ${stepConnections.toLocaleString()} connections (${successRate.toFixed(1)}% success)`));
-          console.log(chalk.yellow('Consider reducing target connections or optimizing server'));
-        }
-
-        this.performanceTracker.recordConnection(results.filter(r => r.success).length);
+    let tester: ConnectionTester;
+    let results: ConnectionResult[];
 
-        // Brief pause between tests
-        await new Promise(resolve => setTimeout(resolve, 2000));
+    // Workers and agents report merged counters and their round trips as they go
+    const coordination = {
+      onLatencies: (window: HistogramSnapshot) => this.performanceTracker.recordLatencies(window),
+      progress: !this.dashboardEnabled
+    };
 
-      } catch (error) {
-        spinner.fail(chalk.red(`❌ Step test failed: ${error}`));
-        this.performanceTracker.recordError(error instanceof Error ? error.message : 'Unknown error');
-      }
+    if (config.agents && config.agents.length > 0) {
+      const controller = new DistributedController(config, process.env.AGENT_SECRET, coordination);
+      this.performanceTracker.trackActiveConnections(() => controller.getProgress().active);
+      tester = await controller.run();
+      results = tester.getResults();
+    } else if ((config.workers || 1) > 1) {
+      const coordinator = new WorkerCoordinator(config, '', coordination);
+      this.performanceTracker.trackActiveConnections(() => coordinator.getProgress().active);
+      tester = await coordinator.run();
+      results = tester.getResults();
+    } else {
+      tester = new ConnectionTester(config, {
+        onLatency: (_category, latency) => this.performanceTracker.recordLatency(latency),
+        progress: !this.dashboardEnabled
+      });
+      const running = tester;
+      this.performanceTracker.trackActiveConnections(() => running.getActiveConnectionCount());
+      results = await tester.testConnections();
     }
-  }
-
-  private async runMainBenchmark(config: BenchmarkConfig): Promise<{ tester: ConnectionTester; results: ConnectionResult[] }> {
-    console.log(chalk.blue('\n🚀 Running main benchmark test...'));
-    
-    const tester = new ConnectionTester(config);
-    const results = await tester.testConnections();
     
     // Record metrics during the test
     const successfulConnections = results.filter(r => r.success).length;
@@ -173,6 +486,10 @@ Duration: ${config.testDuration} seconds
     const failed = connectionResults.filter(r => !r.success);
     const active = connectionResults.filter(r => r.success && r.isActive);
     const disconnected = connectionResults.filter(r => r.success && !r.isActive);
+    // Retention leaves out connections a load profile closed on purpose while ramping down;
+    // the rest were retained if they lasted until the tester closed them at the end of the run
+    const kept = successful.filter(r => r.disconnectionReason !== 'ramp_down');
+    const retained = kept.filter(r => r.isActive || r.disconnectionReason === 'manual_disconnect');
     const spontaneousDisconnects = connectionResults.filter(r => r.spontaneousDisconnect);
 
     // Use initial successful connections for setup metrics
@@ -184,17 +501,30 @@ Duration: ${config.testDuration} seconds
     this.results.disconnectedConnections = disconnected.length;
     this.results.spontaneousDisconnections = spontaneousDisconnects.length;
     
-    this.results.maxConcurrentConnections = successful.length; // Peak during test
+    this.results.maxConcurrentConnections = tester ? tester.getPeakActiveConnections() : successful.length; // Peak during test
     this.results.connectionSuccessRate = (successful.length / connectionResults.length) * 100;
-    this.results.connectionRetentionRate = successful.length > 0 ? (active.length / successful.length) * 100 : 0;
+    this.results.connectionRetentionRate = kept.length > 0 ? (retained.length / kept.length) * 100 : 0;
     
     if (successful.length > 0) {
       this.results.averageConnectionTime = 
         successful.reduce((sum, r) => sum + r.connectionTime, 0) / successful.length;
+
+      const connectTimes = new LatencyHistogram();
+      successful.forEach(r => connectTimes.recordValue(r.connectionTime));
+      this.results.connectionTimeP99 = connectTimes.getValueAtPercentile(99);
     }
 
     // Get connection statistics if tester is available
     if (tester) {
+      this.results.latency = tester.getLatencyRecorder().getReport();
+      this.results.throughput = tester.getThroughputResults();
+      this.results.fanout = tester.getFanoutResults();
+      this.results.reconnection = tester.getReconnectionResults();
+      this.results.phases = tester.getPhaseResults();
+      if (tester.getFailedGenerators().length > 0) {
+        this.results.failedGenerators = tester.getFailedGenerators();
+      }
+
       const connectionStats = tester.getConnectionStats();
       console.log(chalk.blue('\n📊 Real-time Connection Statistics:'));
       console.log(`├─ Active Connections: ${connectionStats.active}`);
@@ -206,12 +536,24 @@ Duration: ${config.testDuration} seconds
     // Get system metrics
     const systemMetrics = this.performanceTracker.getSystemMetrics();
     this.results.peakMemoryUsage = systemMetrics.process.memory.rss;
-    this.results.peakCpuUsage = systemMetrics.cpu.usage;
+    // Scoring rates the load generator's own CPU; the host's is reported alongside
+    this.results.peakCpuUsage = Math.min(100, systemMetrics.process.cpuPercent);
+    this.results.hostCpuUsage = systemMetrics.cpu.usage;
 
     // Collect error messages
     this.results.errors = failed
       .map(r => r.errorMessage)
       .filter((error, index, array) => error && array.indexOf(error) === index) as string[];
+
+    const errorBreakdown: Record<string, number> = {};
+    failed.forEach(r => {
+      const message = r.errorMessage || 'Unknown error';
+      errorBreakdown[message] = (errorBreakdown[message] || 0) + 1;
+    });
+    this.results.errorBreakdown = errorBreakdown;
+    this.results.authFailures = failed.filter(r => r.failureKind === 'auth').length;
+    this.results.breakdown = buildConnectionBreakdown(connectionResults);
+    this.results.transport = summarizeTransports(connectionResults);
   }
 
   private generateReport(): void {
@@ -228,17 +570,63 @@ Duration: ${config.testDuration} seconds
     console.log(`├─ Initial Successful: ${chalk.green(this.results.successfulConnections.toLocaleString())} (${this.results.connectionSuccessRate.toFixed(1)}%)`);
     console.log(`├─ Currently Active: ${chalk.green.bold(this.results.activeConnections.toLocaleString())} (${this.results.connectionRetentionRate.toFixed(1)}% retention)`);
     console.log(`├─ Disconnected: ${chalk.yellow(this.results.disconnectedConnections.toLocaleString())} (${this.results.spontaneousDisconnections} spontaneous)`);
-    console.log(`├─ Failed: ${chalk.red(this.results.failedConnections.toLocaleString())} (${(100 - this.results.connectionSuccessRate).toFixed(1)}%)`);
-    console.log(`└─ Average Connection Time: ${this.results.averageConnectionTime.toFixed(0)}ms\n`);
+    const failureKinds = this.results.failedConnections > 0
+      ? ` │ ${this.results.authFailures} auth, ${this.results.failedConnections - this.results.authFailures} transport`
+      : '';
+    console.log(`├─ Failed: ${chalk.red(this.results.failedConnections.toLocaleString())} (${(100 - this.results.connectionSuccessRate).toFixed(1)}%)${failureKinds}`);
+    if (this.results.failedGenerators) {
+      console.log(chalk.red(`├─ Partial run: ${this.results.failedGenerators.join(', ')} failed; their connections count as failed`));
+    }
+    if (this.results.transport) {
+      const t = this.results.transport;
+      const onTransports = Object.entries(t.connections).map(([name, count]) => `${name} ${count.toLocaleString()}`).join(', ');
+      const upgrades = t.upgradeTime ? ` │ Upgraded: ${t.upgraded.toLocaleString()} (p50 ${t.upgradeTime.p50.toFixed(0)}ms, p99 ${t.upgradeTime.p99.toFixed(0)}ms)` : '';
+      console.log(`├─ Final Transport: ${onTransports || 'unknown'}${upgrades}`);
+    }
+    console.log(`└─ Average Connection Time: ${this.results.averageConnectionTime.toFixed(0)}ms (p99 ${this.results.connectionTimeP99.toFixed(0)}ms)\n`);
 
     // Performance Metrics
     console.log(chalk.white.bold('PERFORMANCE METRICS:'));
     console.log(`├─ Peak Memory Usage: ${(this.results.peakMemoryUsage / 1024 / 1024).toFixed(1)} MB`);
-    console.log(`├─ Peak CPU Usage: ${this.results.peakCpuUsage.toFixed(1)}%`);
+    console.log(`├─ Peak CPU Usage: ${this.results.peakCpuUsage.toFixed(1)}% (host ${this.results.hostCpuUsage.toFixed(1)}%)`);
+    const system = this.performanceTracker.getSystemMetrics();
+    if (system.source === 'procfs') {
+      console.log(`├─ Host: ${(system.memory.available / 1024 / 1024).toFixed(0)} MB available, ${system.network.connections.toLocaleString()} TCP established, ${system.network.timeWait.toLocaleString()} time_wait, ${system.network.orphans} orphaned`);
+      console.log(`├─ Network: ${(system.network.bytesReceived / 1024 / 1024).toFixed(1)} MB in, ${(system.network.bytesSent / 1024 / 1024).toFixed(1)} MB out (excluding loopback)`);
+    }
     console.log(`├─ Test Duration: ${this.results.totalDuration.toFixed(1)}s`);
     console.log(`├─ Initial Connection Rate: ${(this.results.successfulConnections / this.results.totalDuration).toFixed(1)} connections/s`);
     console.log(`└─ Final Active Rate: ${(this.results.activeConnections / this.results.totalDuration).toFixed(1)} active connections/s\n`);
 
+    // Load Profile Phases
+    this.printPhaseReport();
+
+    // Throughput
+    if (this.results.throughput) {
+      const t = this.results.throughput;
+      console.log(chalk.white.bold('THROUGHPUT:'));
+      console.log(`├─ Workload: ${t.clients.toLocaleString()} clients × ${t.messageSize} bytes every ${t.messageInterval}ms for ${t.duration.toFixed(1)}s`);
+      console.log(`├─ Sent: ${t.sent.toLocaleString()} │ Acknowledged: ${chalk.green(t.acknowledged.toLocaleString())} │ Lost: ${chalk.red(t.lost.toLocaleString())} │ Out of order: ${chalk.yellow(t.outOfOrder.toLocaleString())}`);
+      console.log(`├─ Messages/sec (acknowledged): ${t.messagesPerSecond.toFixed(1)}`);
+      console.log(`└─ Bandwidth: ${(t.bytesSentPerSecond / 1024).toFixed(1)} KB/s out │ ${(t.bytesReceivedPerSecond / 1024).toFixed(1)} KB/s in\n`);
+    }
+
+    // Fan-out
+    if (this.results.fanout) {
+      const f = this.results.fanout;
+      const completenessColor = f.completeness >= 99.9 ? chalk.green : f.completeness >= 95 ? chalk.yellow : chalk.red;
+      console.log(chalk.white.bold('FAN-OUT:'));
+      console.log(`├─ Rooms: ${f.rooms} │ Members: ${f.members.toLocaleString()} │ Client-published: ${f.published.toLocaleString()}`);
+      console.log(`├─ Deliveries: ${f.received.toLocaleString()} of ${f.expected.toLocaleString()} expected (${completenessColor(f.completeness.toFixed(2) + '%')})`);
+      console.log(`└─ Recipients with gaps: ${f.incompleteRecipients.toLocaleString()} │ Worst recipient: ${f.minRecipientCompleteness.toFixed(1)}%\n`);
+    }
+
+    // Reconnection
+    this.printReconnectionReport();
+
+    // Latency Percentiles
+    this.printLatencyReport();
+
     // System Recommendations
     this.generateRecommendations();
 
@@ -251,10 +639,169 @@ Duration: ${config.testDuration} seconds
       console.log('');
     }
 
+    // SLO Thresholds
+    this.printThresholdReport();
+
     // Performance Assessment
     this.assessPerformance();
   }
 
+  private printThresholdReport(): void {
+    if (!this.results || !this.results.thresholds) return;
+
+    const report = this.results.thresholds;
+    console.log(chalk.white.bold('SLO THRESHOLDS:'));
+    console.log(`   ${'Metric'.padEnd(24)} ${'Limit'.padStart(12)} ${'Actual'.padStart(12)}  Result`);
+    report.results.forEach((result, index, results) => {
+      const branch = index === results.length - 1 ? '└─' : '├─';
+      const unit = THRESHOLD_UNITS[result.threshold];
+      const bound = result.threshold.startsWith('min') ? '≥' : '≤';
+      const label = THRESHOLD_LABELS[result.threshold] + (result.detail ? ` (${result.detail})` : '');
+      const actual = Number.isFinite(result.actual) ? `${result.actual.toFixed(1)}${unit}` : 'n/a';
+      const color = result.passed ? chalk.green : chalk.red;
+      console.log(color(`${branch} ${label.padEnd(24)} ${`${bound} ${result.limit}${unit}`.padStart(12)} ${actual.padStart(12)}  ${result.passed ? 'PASS' : 'FAIL'}`));
+    });
+
+    if (report.passed) {
+      console.log(chalk.green.bold('   All thresholds passed\n'));
+    } else {
+      const failed = report.results.filter(result => !result.passed).map(result => result.category);
+      console.log(chalk.red.bold(`   Thresholds failed: ${failed.join(', ')} (exit code ${report.exitCode})\n`));
+    }
+  }
+
+  private printCapacityReport(result: CapacityResult): void {
+    console.log(chalk.green.bold(`
+📊 CAPACITY SEARCH RESULTS
+═══════════════════════════════════════════════════════════════
+`));
+
+    console.log(chalk.white.bold('LEVELS TESTED:'));
+    console.log(`   ${'Connections'.padEnd(12)} ${'Success'.padStart(8)} ${'p99 Conn'.padStart(9)} ${'Ping fail'.padStart(10)} ${'Dropped'.padStart(8)} ${'Score'.padStart(7)}  Result`);
+    result.levels.forEach((level, index, levels) => {
+      const branch = index === levels.length - 1 ? '└─' : '├─';
+      const color = level.passed ? chalk.green : chalk.red;
+      console.log(color(`${branch} ${level.connections.toLocaleString().padEnd(12)} ${`${level.successRate.toFixed(1)}%`.padStart(8)} ${`${level.connectP99.toFixed(0)}ms`.padStart(9)} ${`${level.pingFailureRate.toFixed(2)}%`.padStart(10)} ${level.spontaneousDisconnections.toString().padStart(8)} ${`${level.score.toFixed(1)}%`.padStart(7)}  ${level.passed ? 'PASS' : 'FAIL'}`));
+    });
+    console.log('');
+
+    const { highestPassing, firstFailing } = result;
+    console.log(chalk.white.bold('CAPACITY:'));
+    if (highestPassing) {
+      console.log(`├─ Highest passing level: ${chalk.green.bold(highestPassing.connections.toLocaleString())} connections (grade ${gradeColor(highestPassing.grade)(highestPassing.grade)})`);
+    } else {
+      console.log(`├─ Highest passing level: ${chalk.red('none, even the starting level breached a threshold')}`);
+    }
+    if (firstFailing) {
+      console.log(`├─ First failing level: ${chalk.red(firstFailing.connections.toLocaleString())} connections`);
+      console.log(`└─ First failing metric: ${chalk.red(firstFailing.violations[0])}`);
+    } else {
+      console.log(`└─ No level failed up to ${result.options.max.toLocaleString()} connections; raise --max to keep searching`);
+    }
+    console.log('');
+  }
+
+  private printMatrixReport(result: TransportMatrixResult): void {
+    console.log(chalk.green.bold(`
+📊 TRANSPORT MATRIX RESULTS
+═══════════════════════════════════════════════════════════════
+`));
+
+    const ms = (value: number) => `${value.toFixed(0)}ms`;
+    const onWebsocket = (entry: TransportMatrixEntry) => {
+      const connections = entry.transport?.connections;
+      const total = connections ? Object.values(connections).reduce((sum, count) => sum + count, 0) : 0;
+      return total > 0 ? `${(((connections!.websocket || 0) / total) * 100).toFixed(1)}%` : '-';
+    };
+    const rows: Array<[string, (entry: TransportMatrixEntry) => string]> = [
+      ['Success rate', entry => `${entry.successRate.toFixed(1)}%`],
+      ['Retention', entry => `${entry.retentionRate.toFixed(1)}%`],
+      ['Connect avg', entry => ms(entry.connectAvg)],
+      ['Connect p99', entry => ms(entry.connectP99)],
+      ['Ping p99', entry => (entry.pingP99 !== null ? `${entry.pingP99.toFixed(1)}ms` : '-')],
+      ['Messages/sec', entry => (entry.messagesPerSecond !== null ? entry.messagesPerSecond.toFixed(1) : '-')],
+      ['Dropped', entry => entry.spontaneousDisconnections.toLocaleString()],
+      ['On websocket', onWebsocket],
+      ['Upgraded', entry => (entry.transport ? entry.transport.upgraded.toLocaleString() : '-')],
+      ['Upgrade p50/p99', entry => (entry.transport?.upgradeTime ? `${ms(entry.transport.upgradeTime.p50)}/${ms(entry.transport.upgradeTime.p99)}` : '-')],
+      ['Memory/connection', entry => `${entry.memoryPerConnectionKb.toFixed(1)} KB`],
+      ['Peak CPU', entry => `${entry.peakCpu.toFixed(1)}%`],
+      ['Score', entry => `${entry.score.toFixed(1)}% (${entry.grade})`]
+    ];
+
+    console.log(`   ${'Metric'.padEnd(18)}${result.entries.map(entry => entry.mode.padStart(16)).join('')}`);
+    rows.forEach(([label, value], index) => {
+      const branch = index === rows.length - 1 ? '└─' : '├─';
+      console.log(`${branch} ${label.padEnd(18)}${result.entries.map(entry => value(entry).padStart(16)).join('')}`);
+    });
+    console.log('');
+  }
+
+  private printPhaseReport(): void {
+    if (!this.results || !this.results.phases) return;
+
+    console.log(chalk.white.bold('LOAD PROFILE PHASES:'));
+    console.log(`   ${'Phase'.padEnd(14)} ${'Target'.padStart(8)} ${'Active'.padStart(8)} ${'OK'.padStart(7)} ${'Failed'.padStart(7)} ${'Dropped'.padStart(8)} ${'Connect'.padStart(9)} ${'Ping p99'.padStart(9)}`);
+    this.results.phases.forEach((phase, index, phases) => {
+      const branch = index === phases.length - 1 ? '└─' : '├─';
+      const reached = phase.endActive >= phase.target;
+      const degraded = phase.failed > 0 || phase.spontaneousDisconnects > 0;
+      const color = degraded ? chalk.red : reached ? chalk.green : chalk.yellow;
+      const pingP99 = phase.latency.ping ? `${phase.latency.ping.p99.toFixed(1)}ms` : '-';
+
+      console.log(color(`${branch} ${phase.name.padEnd(14)} ${phase.target.toString().padStart(8)} ${phase.endActive.toString().padStart(8)} ${phase.succeeded.toString().padStart(7)} ${phase.failed.toString().padStart(7)} ${phase.spontaneousDisconnects.toString().padStart(8)} ${`${phase.averageConnectionTime.toFixed(0)}ms`.padStart(9)} ${pingP99.padStart(9)}`));
+    });
+
+    const firstDegraded = this.results.phases.find(phase => phase.failed > 0 || phase.spontaneousDisconnects > 0);
+    if (firstDegraded) {
+      console.log(chalk.yellow(`   First degradation in phase "${firstDegraded.name}" at ${firstDegraded.target.toLocaleString()} target connections`));
+    }
+    console.log('');
+  }
+
+  private printReconnectionReport(): void {
+    if (!this.results || !this.results.reconnection) return;
+
+    const r = this.results.reconnection;
+    const ms = (value: number) => `${value.toFixed(0)}ms`;
+    const lost = r.gaveUp + r.pending;
+
+    console.log(chalk.white.bold('RECONNECTION:'));
+    console.log(`├─ Drops: ${r.drops.toLocaleString()} │ Reconnected: ${chalk.green(r.reconnected.toLocaleString())} │ Gave up: ${(lost > 0 ? chalk.red : chalk.white)(r.gaveUp.toLocaleString())} │ Still reconnecting: ${r.pending.toLocaleString()}`);
+    console.log(`├─ Sessions recovered: ${r.recovered.toLocaleString()} of ${r.reconnected.toLocaleString()} │ Attempts: ${r.attempts.toLocaleString()}`);
+    console.log(`├─ Time to reconnect: p50 ${ms(r.timeToReconnect.p50)} │ p90 ${ms(r.timeToReconnect.p90)} │ p99 ${ms(r.timeToReconnect.p99)} │ max ${ms(r.timeToReconnect.max)}`);
+    // Replays are only observable on room streams
+    const replayed = this.results.fanout ? r.replayed.toLocaleString() : chalk.gray('n/a (add --rooms with --server-publish-rate to measure)');
+    console.log(`${r.storms.length > 0 ? '├─' : '└─'} Missed messages replayed: ${replayed}`);
+
+    r.storms.forEach((storm, index, storms) => {
+      const branch = index === storms.length - 1 ? '└─' : '├─';
+      console.log(`${branch} Storm at ${storm.startedAt}: ${storm.drops.toLocaleString()} drops, ${storm.reconnected.toLocaleString()} back (${storm.recovered.toLocaleString()} recovered) in ${storm.duration.toFixed(1)}s, peak ${storm.peakReconnectsPerSecond.toLocaleString()} reconnects/s, p50 ${ms(storm.timeToReconnect.p50)} p99 ${ms(storm.timeToReconnect.p99)}`);
+    });
+    console.log('');
+  }
+
+  private printLatencyReport(): void {
+    if (!this.results) return;
+
+    const categories = Object.entries(this.results.latency);
+    if (categories.length === 0) return;
+
+    const ms = (value: number) => `${value.toFixed(1)}ms`;
+
+    console.log(chalk.white.bold('LATENCY (round trip):'));
+    categories.forEach(([category, summary], index) => {
+      if (!summary) return;
+      const last = index === categories.length - 1;
+      const branch = last ? '└─' : '├─';
+      const indent = last ? '   ' : '│  ';
+      console.log(`${branch} ${category} (${summary.count.toLocaleString()} samples)`);
+      console.log(`${indent}├─ p50: ${ms(summary.p50)} │ p90: ${ms(summary.p90)} │ p99: ${ms(summary.p99)} │ p99.9: ${ms(summary.p999)} │ max: ${ms(summary.max)}`);
+      console.log(`${indent}└─ corrected p99: ${ms(summary.corrected.p99)} │ p99.9: ${ms(summary.corrected.p999)} │ max: ${ms(summary.corrected.max)} (mean ${ms(summary.mean)})`);
+    });
+    console.log('');
+  }
+
   private generateRecommendations(): void {
     if (!this.results) return;
 
@@ -284,60 +831,67 @@ Duration: ${config.testDuration} seconds
     console.log('');
   }
 
-  private assessPerformance(): void {
-    if (!this.results) return;
-
-    console.log(chalk.magenta.bold('PERFORMANCE ASSESSMENT:'));
-
-    let score = 0;
-    let maxScore = 0;
-
+  /**
+   * Weighted score behind the performance assessment: success rate 40%,
+   * memory per connection 30%, CPU 20% and connection speed 10%.
+   */
+  private scorePerformance(results: BenchmarkResults): PerformanceScore {
     // Connection success rate (40% of score)
     const successWeight = 40;
-    const successScore = (this.results.connectionSuccessRate / 100) * successWeight;
-    score += successScore;
-    maxScore += successWeight;
+    const successScore = (results.connectionSuccessRate / 100) * successWeight;
 
     // Memory efficiency (30% of score)
     const memoryWeight = 30;
-    const memoryPerConnection = this.results.peakMemoryUsage / this.results.successfulConnections;
+    const memoryPerConnection = results.peakMemoryUsage / results.successfulConnections;
     const memoryEfficiency = Math.max(0, 1 - (memoryPerConnection / (2 * 1024 * 1024))); // Target: <2MB per connection
     const memoryScore = memoryEfficiency * memoryWeight;
-    score += memoryScore;
-    maxScore += memoryWeight;
 
     // CPU efficiency (20% of score)
     const cpuWeight = 20;
-    const cpuEfficiency = Math.max(0, 1 - (this.results.peakCpuUsage / 100));
+    const cpuEfficiency = Math.max(0, 1 - (results.peakCpuUsage / 100));
     const cpuScore = cpuEfficiency * cpuWeight;
-    score += cpuScore;
-    maxScore += cpuWeight;
 
     // Connection speed (10% of score)
     const speedWeight = 10;
-    const speedEfficiency = Math.max(0, 1 - (this.results.averageConnectionTime / 10000)); // Target: <10s
+    const speedEfficiency = Math.max(0, 1 - (results.averageConnectionTime / 10000)); // Target: <10s
     const speedScore = speedEfficiency * speedWeight;
-    score += speedScore;
-    maxScore += speedWeight;
 
+    const score = successScore + memoryScore + cpuScore + speedScore;
+    const maxScore = successWeight + memoryWeight + cpuWeight + speedWeight;
     const finalScore = (score / maxScore) * 100;
 
     let grade = 'F';
-    let color = chalk.red;
-    
-    if (finalScore >= 90) { grade = 'A+'; color = chalk.green; }
-    else if (finalScore >= 85) { grade = 'A'; color = chalk.green; }
-    else if (finalScore >= 80) { grade = 'B+'; color = chalk.blue; }
-    else if (finalScore >= 75) { grade = 'B'; color = chalk.blue; }
-    else if (finalScore >= 70) { grade = 'C+'; color = chalk.yellow; }
-    else if (finalScore >= 65) { grade = 'C'; color = chalk.yellow; }
-    else if (finalScore >= 60) { grade = 'D'; color = chalk.red; }
+    if (finalScore >= 90) grade = 'A+';
+    else if (finalScore >= 85) grade = 'A';
+    else if (finalScore >= 80) grade = 'B+';
+    else if (finalScore >= 75) grade = 'B';
+    else if (finalScore >= 70) grade = 'C+';
+    else if (finalScore >= 65) grade = 'C';
+    else if (finalScore >= 60) grade = 'D';
+
+    return {
+      finalScore,
+      grade,
+      success: { efficiency: results.connectionSuccessRate / 100, score: successScore, weight: successWeight },
+      memory: { efficiency: memoryEfficiency, score: memoryScore, weight: memoryWeight },
+      cpu: { efficiency: cpuEfficiency, score: cpuScore, weight: cpuWeight },
+      speed: { efficiency: speedEfficiency, score: speedScore, weight: speedWeight }
+    };
+  }
+
+  private assessPerformance(): void {
+    if (!this.results) return;
+
+    console.log(chalk.magenta.bold('PERFORMANCE ASSESSMENT:'));
+
+    const { finalScore, grade, success, memory, cpu, speed } = this.scorePerformance(this.results);
+    const color = gradeColor(grade);
 
     console.log(`├─ Overall Performance Score: ${color(finalScore.toFixed(1))}% (Grade: ${color(grade)})`);
-    console.log(`├─ Connection Success: ${this.results.connectionSuccessRate.toFixed(1)}% (${successScore.toFixed(1)}/${successWeight})`);
-    console.log(`├─ Memory Efficiency: ${(memoryEfficiency * 100).toFixed(1)}% (${memoryScore.toFixed(1)}/${memoryWeight})`);
-    console.log(`├─ CPU Efficiency: ${(cpuEfficiency * 100).toFixed(1)}% (${cpuScore.toFixed(1)}/${cpuWeight})`);
-    console.log(`└─ Connection Speed: ${(speedEfficiency * 100).toFixed(1)}% (${speedScore.toFixed(1)}/${speedWeight})`);
+    console.log(`├─ Connection Success: ${this.results.connectionSuccessRate.toFixed(1)}% (${success.score.toFixed(1)}/${success.weight})`);
+    console.log(`├─ Memory Efficiency: ${(memory.efficiency * 100).toFixed(1)}% (${memory.score.toFixed(1)}/${memory.weight})`);
+    console.log(`├─ CPU Efficiency: ${(cpu.efficiency * 100).toFixed(1)}% (${cpu.score.toFixed(1)}/${cpu.weight})`);
+    console.log(`└─ Connection Speed: ${(speed.efficiency * 100).toFixed(1)}% (${speed.score.toFixed(1)}/${speed.weight})`);
     console.log('');
 
     // 10K Connection Assessment
@@ -350,18 +904,25 @@ Duration: ${config.testDuration} seconds
     }
   }
 
-  public exportResults(filename?: string): string {
+  private getExportData(): BenchmarkExport {
     if (!this.results) {
       throw new Error('No results to export');
     }
 
-    const exportData = {
+    return {
       ...this.results,
       exportedAt: new Date().toISOString(),
       performanceMetrics: this.performanceTracker.exportMetrics()
     };
+  }
+
+  public writeReport(filename: string): void {
+    writeHtmlReport(this.getExportData(), filename);
+    console.log(chalk.green(`📈 HTML report written to: ${filename}`));
+  }
 
-    const data = JSON.stringify(exportData, null, 2);
+  public exportResults(filename?: string): string {
+    const data = JSON.stringify(this.getExportData(), null, 2);
     
     if (filename) {
       require('fs').writeFileSync(filename, data);
@@ -372,47 +933,386 @@ Duration: ${config.testDuration} seconds
   }
 }
 
+// The SocketBenchmarkServer metrics endpoint on the target's origin
+function metricsUrl(config: BenchmarkConfig): string {
+  return `${new URL(buildTargetUrl(resolveTarget(config))).origin}/metrics`;
+}
+
+// The benchmark runner for a command, with the output options every run-like command shares
+function createBenchmark(options: any): SocketBenchmark {
+  const benchmark = new SocketBenchmark();
+  benchmark.setRunsDir(options.runsDir);
+  if (options.serverMetrics) {
+    benchmark.trackServerMetrics(typeof options.serverMetrics === 'string' ? options.serverMetrics : undefined);
+  }
+  if (options.dashboard) {
+    benchmark.enableDashboard();
+  }
+  return benchmark;
+}
+
+// Target options shared by the run and quick commands
+function buildTargetConfig(options: any): Pick<BenchmarkConfig, 'serverHost' | 'serverPort' | 'serverScheme' | 'socketPath' | 'namespace' | 'transports' | 'tls' | 'localAddresses'> {
+  const target = {
+    serverHost: options.host,
+    serverPort: parseInt(options.port),
+    serverScheme: parseScheme(options.scheme),
+    namespace: options.namespace,
+    ...(options.url ? parseTargetUrl(options.url) : {})
+  };
+
+  return {
+    ...target,
+    socketPath: options.path,
+    // A transport mode is shorthand for a transports list
+    transports: options.transport ? transportsForMode(parseTransportMode(options.transport)) : parseTransports(options.transports),
+    tls: {
+      rejectUnauthorized: !options.insecure,
+      caFile: options.ca
+    },
+    localAddresses: options.localAddress ? String(options.localAddress).split(',').map((a: string) => a.trim()).filter(Boolean) : undefined
+  };
+}
+
+function buildReconnectionOptions(options: any): ReconnectionOptions | undefined {
+  if (!options.reconnect) return undefined;
+  return {
+    attempts: parseInt(options.reconnectAttempts),
+    delay: parseInt(options.reconnectDelay),
+    delayMax: parseInt(options.reconnectDelayMax),
+    jitter: parseFloat(options.reconnectJitter)
+  };
+}
+
+function buildServerRestart(options: any): ServerRestartOptions | undefined {
+  if (options.restartAt === undefined) return undefined;
+  const downtime = parseInt(options.restartDowntime);
+  if (!(downtime >= 0 && downtime <= MAX_RESTART_DOWNTIME_MS)) {
+    throw new Error(`Invalid --restart-downtime "${options.restartDowntime}" (expected 0-${MAX_RESTART_DOWNTIME_MS} ms)`);
+  }
+  return {
+    at: parseFloat(options.restartAt),
+    downtime,
+    keepSessions: !!options.restartKeepSessions,
+    token: options.restartToken || process.env.ADMIN_TOKEN
+  };
+}
+
+// JSON object flags such as --login-body; values are kept as strings for placeholder filling
+function parseStringMap(value: string, flag: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid ${flag}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid ${flag}: expected a JSON object`);
+  }
+  return Object.fromEntries(Object.entries(parsed).map(([key, item]) => [key, String(item)]));
+}
+
+// The static provider keeps using token/companyId, so it needs no auth settings
+function buildAuthOptions(options: any): AuthOptions | undefined {
+  const provider = parseAuthProvider(options.auth);
+  if (provider === 'static') return undefined;
+  return {
+    provider,
+    identities: options.identities ? parseInt(options.identities) : undefined,
+    file: options.authFile,
+    loginUrl: options.loginUrl,
+    loginBody: options.loginBody ? parseStringMap(options.loginBody, '--login-body') : undefined,
+    tokenField: options.loginTokenField,
+    loginRate: parseFloat(options.loginRate),
+    jwtSecret: options.jwtSecret || process.env.JWT_SECRET,
+    jwtKeyFile: options.jwtKey,
+    jwtClaims: options.jwtClaims ? parseStringMap(options.jwtClaims, '--jwt-claims') : undefined,
+    jwtExpiresIn: parseInt(options.jwtExpiresIn)
+  };
+}
+
+// Log file options shared by the run, quick and find-limit commands; undefined keeps the logger defaults
+function buildLoggingOptions(options: any): LoggingOptions | undefined {
+  const logging: LoggingOptions = {
+    level: options.logLevel ? parseLogLevel(options.logLevel) : undefined,
+    sampling: options.logSample ? parseLogSampling(options.logSample) : undefined,
+    maxFileSize: options.logMaxSize ? Math.round(parseFloat(options.logMaxSize) * 1024 * 1024) : undefined, // MB to bytes
+    maxFiles: options.logMaxFiles !== undefined ? parseInt(options.logMaxFiles) : undefined
+  };
+  const defined = Object.entries(logging).filter(([, value]) => value !== undefined);
+  return defined.length > 0 ? Object.fromEntries(defined) : undefined;
+}
+
+// CLI options and the config fields they set; flags given explicitly win over a scenario file
+const OPTION_FIELDS: Record<string, Array<keyof BenchmarkConfig>> = {
+  connections: ['targetConnections'],
+  rate: ['connectionRate'],
+  duration: ['testDuration'],
+  host: ['serverHost'],
+  port: ['serverPort'],
+  url: ['serverScheme', 'serverHost', 'serverPort', 'namespace'],
+  scheme: ['serverScheme'],
+  path: ['socketPath'],
+  namespace: ['namespace'],
+  transports: ['transports'],
+  transport: ['transports'],
+  insecure: ['tls'],
+  ca: ['tls'],
+  workers: ['workers'],
+  localAddress: ['localAddresses'],
+  interval: ['messageInterval'],
+  messageSize: ['messageSize'],
+  throughput: ['throughputFraction'],
+  rooms: ['fanoutRooms'],
+  publishers: ['fanoutPublishers'],
+  serverPublishRate: ['fanoutServerRate'],
+  maxRetries: ['maxRetries'],
+  retryDelay: ['retryDelay'],
+  agents: ['agents'],
+  // The other reconnect and restart flags only apply together with these
+  reconnect: ['reconnection'],
+  restartAt: ['serverRestart'],
+  // Likewise the other auth flags only apply together with --auth
+  auth: ['auth']
+};
+
+// Logging flags and the field of the logging section each one sets; merged one by one like thresholds
+const LOGGING_OPTION_FIELDS: Record<string, keyof LoggingOptions> = {
+  logLevel: 'level',
+  logSample: 'sampling',
+  logMaxSize: 'maxFileSize',
+  logMaxFiles: 'maxFiles'
+};
+
+function readScenario(file: string): Scenario {
+  try {
+    const scenario = loadScenario(file);
+    console.log(chalk.blue(`📄 Scenario: ${scenario.name || file}${scenario.description ? ` - ${scenario.description}` : ''}`));
+    return scenario;
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Layer a scenario over the CLI config: the scenario replaces option defaults,
+ * but any flag passed on the command line keeps its value.
+ */
+function applyScenario(config: BenchmarkConfig, scenario: Scenario, command: Command): BenchmarkConfig {
+  const merged: BenchmarkConfig = { ...config, ...scenario.config };
+
+  Object.entries(OPTION_FIELDS).forEach(([option, fields]) => {
+    if (command.getOptionValueSource(option) === 'cli') {
+      fields.forEach(field => Object.assign(merged, { [field]: config[field] }));
+    }
+  });
+
+  // A logging flag only replaces its own field; sampling rates merge per event
+  if (scenario.config.logging) {
+    const logging: LoggingOptions = { ...config.logging, ...scenario.config.logging };
+    Object.entries(LOGGING_OPTION_FIELDS).forEach(([option, field]) => {
+      if (command.getOptionValueSource(option) === 'cli') {
+        Object.assign(logging, { [field]: config.logging?.[field] });
+      }
+    });
+    if (command.getOptionValueSource('logSample') === 'cli') {
+      logging.sampling = { ...scenario.config.logging.sampling, ...config.logging?.sampling };
+    }
+    merged.logging = logging;
+  }
+
+  return merged;
+}
+
+// Thresholds checked by `run`: the scenario's, overridden by any threshold flags given
+function buildSloThresholds(options: any, fromScenario: SloThresholds = {}): SloThresholds | undefined {
+  const thresholds: SloThresholds = {};
+  (Object.keys(THRESHOLD_LABELS) as Array<keyof SloThresholds>).forEach(key => {
+    const value = options[key] ?? fromScenario[key];
+    if (value !== undefined) {
+      thresholds[key] = parseFloat(value);
+    }
+  });
+  return Object.keys(thresholds).length > 0 ? thresholds : undefined;
+}
+
+// Option groups shared by the run, quick, find-limit and matrix commands
+
+// Target server and load-generator placement; matrix sets the transports per mode itself
+function addTargetOptions(command: Command, defaultPort: string, transports: boolean = true): void {
+  command
+    .option('-h, --host <string>', 'server host', 'localhost')
+    .option('-p, --port <number>', 'server port', defaultPort)
+    .option('--url <string>', 'full target URL, e.g. wss://host:443/namespace (overrides scheme, host, port and namespace)')
+    .option('--scheme <string>', 'server scheme (http, https, ws, wss)', 'http')
+    .option('--path <string>', 'Socket.IO engine path', '/socket.io')
+    .option('-n, --namespace <string>', 'Socket.IO namespace', '/');
+  if (transports) {
+    command
+      .option('-t, --transports <list>', 'comma-separated transports (websocket, polling)', 'websocket,polling')
+      .option('--transport <mode>', 'websocket (only), polling (only) or upgrade (polling, then websocket); overrides --transports');
+  }
+  command
+    .option('--insecure', 'accept self-signed TLS certificates')
+    .option('--ca <file>', 'PEM file with additional trusted CA certificates')
+    .option('-w, --workers <number>', 'number of load-generator worker threads', '1')
+    .option('--local-address <list>', 'comma-separated local source addresses, assigned round-robin to workers');
+}
+
+function addWorkloadOptions(command: Command): void {
+  command
+    .option('--message-size <bytes>', 'benchmark-data payload size in bytes', '1024')
+    .option('--throughput [fraction]', 'stream benchmark-data from this fraction of connected clients (default: all)')
+    .option('--rooms <number>', 'spread clients across this many rooms and measure fan-out')
+    .option('--publishers <number>', 'clients per room publishing every interval', '1')
+    .option('--server-publish-rate <number>', 'ask the server to publish this many messages/sec into each room');
+}
+
+// quick has always taken its retry delay in milliseconds, the other commands in seconds
+function addRetryOptions(command: Command, delayUnit: 'seconds' | 'ms' = 'seconds'): void {
+  command
+    .option('--max-retries <number>', 'maximum retry attempts per connection', '3')
+    .option('--retry-delay <number>', `base delay between retries in ${delayUnit}`, delayUnit === 'ms' ? '1000' : '1');
+}
+
+function addReconnectOptions(command: Command): void {
+  command
+    .option('--reconnect', 'let dropped clients reconnect through Socket.IO and report time-to-reconnect and recovered sessions')
+    .option('--reconnect-attempts <number>', 'reconnect attempts per drop before giving up', '10')
+    .option('--reconnect-delay <ms>', 'delay before the first reconnect attempt, doubled per attempt', '1000')
+    .option('--reconnect-delay-max <ms>', 'upper bound for the reconnect delay', '5000')
+    .option('--reconnect-jitter <factor>', 'randomization factor (0-1) applied to each reconnect delay', '0.5')
+    .option('--restart-at <seconds>', 'ask the server to drop every connection this many seconds into the test')
+    .option('--restart-downtime <ms>', 'how long the restarted server refuses handshakes', '3000')
+    .option('--restart-keep-sessions', 'keep connection state across the restart so sessions can be recovered')
+    .option('--restart-token <token>', 'the server\'s ADMIN_TOKEN, required for the restart (default: ADMIN_TOKEN)');
+}
+
+function addAuthOptions(command: Command): void {
+  command
+    .option('--auth <provider>', 'where clients get credentials: static (AUTH_TOKEN, COMPANY_ID), file, login or jwt', 'static')
+    .option('--identities <number>', 'distinct users that clients cycle through (default: one per client, or per file entry)')
+    .option('--auth-file <file>', 'CSV with a header row or JSON array of per-client tokens or headers (--auth file)')
+    .option('--login-url <url>', 'endpoint to POST to for a token before connecting (--auth login)')
+    .option('--login-body <json>', 'login request body; {user} and {companyId} are filled in per identity')
+    .option('--login-token-field <path>', 'dotted path of the token in the login response', 'token')
+    .option('--login-rate <number>', 'login requests per second at most', '50')
+    .option('--jwt-secret <secret>', 'HMAC secret for locally signed HS256 tokens (default: JWT_SECRET) (--auth jwt)')
+    .option('--jwt-key <file>', 'PEM private key for locally signed RS256 or ES256 tokens (--auth jwt)')
+    .option('--jwt-claims <json>', 'token claims; {user} and {companyId} are filled in per identity')
+    .option('--jwt-expires-in <seconds>', 'lifetime of signed tokens', '3600');
+}
+
+// Where runs go and what they print and log
+function addOutputOptions(command: Command): void {
+  command
+    .option('--runs-dir <dir>', 'directory holding one subdirectory per run', DEFAULT_RUNS_DIR)
+    .option('--server-metrics [url]', 'poll the server\'s Prometheus endpoint during the run (default: /metrics on the target)')
+    .option('-v, --verbose', 'log every connection event and progress line instead of the live progress view')
+    .option('--log-level <level>', 'lowest level written to the log files (DEBUG, INFO, WARN, ERROR)')
+    .option('--log-sample <spec>', 'fraction of entries kept per event, e.g. PING_SUCCESS=0.1,CONNECT=0.5')
+    .option('--log-max-size <mb>', 'rotate a log file once it reaches this size in MB', '100')
+    .option('--log-max-files <number>', 'rotated files kept per log', '5');
+}
+
 // CLI Interface
 program
   .name('socket-benchmark')
   .description('Socket.IO benchmark tool for testing concurrent connections')
   .version('1.0.0');
 
-program
+const runCommand = program
   .command('run')
   .description('Run benchmark test')
   .option('-c, --connections <number>', 'target number of connections', '1000')
   .option('-r, --rate <number>', 'connections per second', '50')
   .option('-d, --duration <number>', 'test duration in seconds', '30')
-  .option('-h, --host <string>', 'server host', 'localhost')
-  .option('-p, --port <number>', 'server port', '8002')
-  .option('-i, --interval <number>', 'message interval in seconds', '1')
-  .option('--max-retries <number>', 'maximum retry attempts per connection', '3')
-  .option('--retry-delay <number>', 'base delay between retries in seconds', '1')
+  .option('-i, --interval <number>', 'message interval in seconds (fractions allowed)', '1')
+  .option('--agents <list>', 'comma-separated host:port of benchmark agents to distribute the run across')
+  .option('--profile <spec>', 'load profile: preset (step, spike, soak) or target:rampSeconds:holdSeconds[:name],...');
+addTargetOptions(runCommand, '8002');
+addWorkloadOptions(runCommand);
+addRetryOptions(runCommand);
+addReconnectOptions(runCommand);
+addAuthOptions(runCommand);
+runCommand
+  .option('--min-success-rate <percent>', 'fail (exit 10) below this connection success rate')
+  .option('--min-retention-rate <percent>', 'fail (exit 11) below this end-of-run retention rate')
+  .option('--max-connect-p99 <ms>', 'fail (exit 12) above this p99 connection time')
+  .option('--max-latency-p99 <ms>', 'fail (exit 13) above this p99 round-trip latency for any message type')
+  .option('--max-spontaneous-disconnects <number>', 'fail (exit 14) above this many spontaneous disconnections')
+  .option('--max-memory-per-connection-kb <kb>', 'fail (exit 15) above this memory per connection')
+  .option('--scenario <file>', 'YAML or JSON scenario file; flags given on the command line override it')
   .option('-o, --output <string>', 'output file for results')
-  .action(async (options) => {
-    const config: BenchmarkConfig = {
+  .option('--report <file>', 'write a self-contained HTML report with charts')
+  .option('--run-id <id>', 'run ID for logs, results and the server correlation header (default: timestamp plus random suffix)')
+  .option('--dashboard', 'show live load-generator and server sparklines during the run');
+addOutputOptions(runCommand);
+runCommand
+  .action(async (options, command: Command) => {
+    let config: BenchmarkConfig = {
       targetConnections: parseInt(options.connections),
       connectionRate: parseInt(options.rate),
       testDuration: parseInt(options.duration),
-      messageInterval: parseInt(options.interval)*1000, // Convert to ms
-      messageSize: 1024,
+      messageInterval: Math.round(parseFloat(options.interval)*1000), // Convert to ms
+      messageSize: parseInt(options.messageSize),
+      throughputFraction: options.throughput === undefined ? 0 : options.throughput === true ? 1 : parseFloat(options.throughput),
+      fanoutRooms: options.rooms ? parseInt(options.rooms) : 0,
+      fanoutPublishers: parseInt(options.publishers),
+      fanoutServerRate: options.serverPublishRate ? parseFloat(options.serverPublishRate) : 0,
+      reconnection: buildReconnectionOptions(options),
+      serverRestart: buildServerRestart(options),
+      auth: buildAuthOptions(options),
       message: 'Test message from benchmark tool',
-      serverHost: options.host,
-      serverPort: parseInt(options.port),
+      ...buildTargetConfig(options),
+      workers: parseInt(options.workers),
+      agents: options.agents ? String(options.agents).split(',').map((a: string) => a.trim()).filter(Boolean) : undefined,
       maxRetries: parseInt(options.maxRetries),
       retryDelay: parseInt(options.retryDelay)*1000, // Convert to ms
+      verbose: !!options.verbose,
+      logging: buildLoggingOptions(options),
+      runId: options.runId ? parseRunId(options.runId) : undefined,
       companyId: process.env.COMPANY_ID || '11110000',
       token: process.env.AUTH_TOKEN || 'your_token_here'
     };
 
-    const benchmark = new SocketBenchmark();
+    const scenario = options.scenario ? readScenario(options.scenario) : null;
+    if (scenario) {
+      config = applyScenario(config, scenario, command);
+    }
+
+    config.thresholds = buildSloThresholds(options, scenario?.thresholds);
+
+    const profile: string | LoadPhase[] | undefined = options.profile ?? scenario?.profile;
+    if (profile) {
+      const loadProfile = typeof profile === 'string' ? resolveProfile(profile, config) : profile;
+      config.loadProfile = loadProfile;
+      // Size workers, agents and the report by the highest phase target
+      config.targetConnections = Math.max(...loadProfile.map(phase => phase.target));
+    }
+
+    const benchmark = createBenchmark(options);
     
     try {
-      await benchmark.runBenchmark(config);
-      
-      if (options.output) {
-        benchmark.exportResults(options.output);
+      const results = await benchmark.runBenchmark(config);
+
+      const output = options.output ?? scenario?.output?.json;
+      if (output) {
+        benchmark.exportResults(output);
+      }
+
+      const report = options.report ?? scenario?.output?.html;
+      if (report) {
+        benchmark.writeReport(report);
+      }
+
+      // An aborted run exits 1 even when its partial results also fail thresholds
+      if (results.aborted) {
+        console.error(chalk.red(`Benchmark aborted: ${results.aborted}`));
+        process.exitCode = 1;
+      } else if (results.thresholds && !results.thresholds.passed) {
+        process.exitCode = results.thresholds.exitCode;
       }
     } catch (error) {
       console.error(chalk.red('Benchmark failed:'), error);
@@ -420,13 +1320,13 @@ program
     }
   });
 
-program
+const quickCommand = program
   .command('quick')
-  .description('Run quick tests with preset configurations')
-  .option('-h, --host <string>', 'server host', 'localhost')
-  .option('-p, --port <number>', 'server port', '3000')
-  .option('--max-retries <number>', 'maximum retry attempts per connection', '3')
-  .option('--retry-delay <number>', 'base delay between retries in ms', '1000')
+  .description('Run quick tests with preset configurations');
+addTargetOptions(quickCommand, '3000');
+addRetryOptions(quickCommand, 'ms');
+addOutputOptions(quickCommand);
+quickCommand
   .action(async (options) => {
     const tests = [
       { name: '1K Test', connections: 1000, rate: 100 },
@@ -434,7 +1334,7 @@ program
       { name: '10K Test', connections: 10000, rate: 300 }
     ];
 
-    const benchmark = new SocketBenchmark();
+    const benchmark = createBenchmark(options);
 
     for (const test of tests) {
       console.log(chalk.blue.bold(`\n🧪 Running ${test.name}...`));
@@ -446,10 +1346,12 @@ program
         messageInterval: 1000,
         messageSize: 1024,
         message: 'Test message from benchmark tool',
-        serverHost: options.host,
-        serverPort: parseInt(options.port),
-        maxRetries: parseInt(options.maxRetries || '3'),
-        retryDelay: parseInt(options.retryDelay || '1000'),
+        ...buildTargetConfig(options),
+        workers: parseInt(options.workers),
+        maxRetries: parseInt(options.maxRetries),
+        retryDelay: parseInt(options.retryDelay),
+        verbose: !!options.verbose,
+        logging: buildLoggingOptions(options),
         companyId: process.env.COMPANY_ID || '11110000',
         token: process.env.AUTH_TOKEN || 'your_token_here'
       };
@@ -463,8 +1365,356 @@ program
     }
   });
 
+const findLimitCommand = program
+  .command('find-limit')
+  .description('Search for the highest connection count that stays within the capacity thresholds')
+  .option('--start <number>', 'first connection level to test', '1000')
+  .option('--max <number>', 'highest connection level to test', '20000')
+  .option('--step <number>', 'ladder increment, and the resolution where binary search stops', '1000')
+  .option('--strategy <string>', 'search strategy (ladder, binary)', 'ladder')
+  .option('--cooldown <number>', 'seconds to wait between levels', '10')
+  .option('--min-success-rate <percent>', 'minimum connection success rate', String(DEFAULT_CAPACITY_THRESHOLDS.minSuccessRate))
+  .option('--max-connect-p99 <ms>', 'maximum p99 connection time', String(DEFAULT_CAPACITY_THRESHOLDS.maxConnectP99))
+  .option('--max-ping-failure <percent>', 'maximum ping failure rate', String(DEFAULT_CAPACITY_THRESHOLDS.maxPingFailureRate))
+  .option('--max-disconnect-rate <percent>', 'maximum spontaneous disconnections, as % of successful connections', String(DEFAULT_CAPACITY_THRESHOLDS.maxDisconnectRate))
+  .option('-r, --rate <number>', 'connections per second', '50')
+  .option('-d, --duration <number>', 'seconds to hold each level', '30')
+  .option('-i, --interval <number>', 'message interval in seconds (fractions allowed)', '1')
+  .option('--agents <list>', 'comma-separated host:port of benchmark agents to distribute each level across');
+addTargetOptions(findLimitCommand, '8002');
+addRetryOptions(findLimitCommand);
+addAuthOptions(findLimitCommand);
+findLimitCommand
+  .option('--scenario <file>', 'YAML or JSON scenario file for target, workload, auth and thresholds')
+  .option('-o, --output <string>', 'output file for the capacity search results')
+  .option('--run-id <id>', 'run ID for logs, results and the server correlation header (default: timestamp plus random suffix)');
+addOutputOptions(findLimitCommand);
+findLimitCommand
+  .action(async (options, command: Command) => {
+    if (options.strategy !== 'ladder' && options.strategy !== 'binary') {
+      console.error(chalk.red(`Unknown search strategy "${options.strategy}" (expected ladder or binary)`));
+      process.exit(1);
+    }
+
+    const search: CapacitySearchOptions = {
+      strategy: options.strategy as CapacityStrategy,
+      start: parseInt(options.start),
+      max: parseInt(options.max),
+      step: Math.max(1, parseInt(options.step)),
+      cooldown: parseFloat(options.cooldown),
+      thresholds: {
+        minSuccessRate: parseFloat(options.minSuccessRate),
+        maxConnectP99: parseFloat(options.maxConnectP99),
+        maxPingFailureRate: parseFloat(options.maxPingFailure),
+        maxDisconnectRate: parseFloat(options.maxDisconnectRate)
+      }
+    };
+
+    let config: BenchmarkConfig = {
+      targetConnections: search.start,
+      connectionRate: parseInt(options.rate),
+      testDuration: parseInt(options.duration),
+      messageInterval: Math.round(parseFloat(options.interval)*1000), // Convert to ms
+      messageSize: 1024,
+      auth: buildAuthOptions(options),
+      message: 'Test message from benchmark tool',
+      ...buildTargetConfig(options),
+      workers: parseInt(options.workers),
+      agents: options.agents ? String(options.agents).split(',').map((a: string) => a.trim()).filter(Boolean) : undefined,
+      maxRetries: parseInt(options.maxRetries),
+      retryDelay: parseInt(options.retryDelay)*1000, // Convert to ms
+      verbose: !!options.verbose,
+      logging: buildLoggingOptions(options),
+      runId: options.runId ? parseRunId(options.runId) : undefined,
+      companyId: process.env.COMPANY_ID || '11110000',
+      token: process.env.AUTH_TOKEN || 'your_token_here'
+    };
+
+    const scenario = options.scenario ? readScenario(options.scenario) : null;
+    if (scenario) {
+      config = applyScenario(config, scenario, command);
+
+      // Scenario thresholds apply unless the matching flag was passed
+      const thresholdOptions: Record<keyof CapacityThresholds, string> = {
+        minSuccessRate: 'minSuccessRate',
+        maxConnectP99: 'maxConnectP99',
+        maxPingFailureRate: 'maxPingFailure',
+        maxDisconnectRate: 'maxDisconnectRate'
+      };
+      Object.entries(scenario.thresholds || {}).forEach(([key, value]) => {
+        if (command.getOptionValueSource(thresholdOptions[key as keyof CapacityThresholds]) !== 'cli') {
+          search.thresholds[key as keyof CapacityThresholds] = value;
+        }
+      });
+    }
+
+    const benchmark = createBenchmark(options);
+
+    try {
+      const result = await benchmark.findLimit(config, search);
+
+      const output = options.output ?? scenario?.output?.json;
+      if (output) {
+        require('fs').writeFileSync(output, JSON.stringify({ ...result, exportedAt: new Date().toISOString() }, null, 2));
+        console.log(chalk.green(`📄 Capacity results exported to: ${output}`));
+      }
+    } catch (error) {
+      console.error(chalk.red('Capacity search failed:'), error);
+      process.exit(1);
+    }
+  });
+
+const matrixCommand = program
+  .command('matrix')
+  .description('Run the same benchmark once per transport mode and compare the modes side by side')
+  .option('--modes <list>', 'comma-separated transport modes to run, in order (websocket, polling, upgrade)', 'websocket,polling,upgrade')
+  .option('--cooldown <number>', 'seconds to wait between modes', '10')
+  .option('-c, --connections <number>', 'target number of connections', '1000')
+  .option('-r, --rate <number>', 'connections per second', '50')
+  .option('-d, --duration <number>', 'test duration in seconds', '30')
+  .option('-i, --interval <number>', 'message interval in seconds (fractions allowed)', '1')
+  .option('--agents <list>', 'comma-separated host:port of benchmark agents to distribute each mode across');
+addTargetOptions(matrixCommand, '8002', false);
+addWorkloadOptions(matrixCommand);
+addRetryOptions(matrixCommand);
+addReconnectOptions(matrixCommand);
+addAuthOptions(matrixCommand);
+matrixCommand
+  .option('--scenario <file>', 'YAML or JSON scenario file for target, workload and auth; its transports are replaced by each mode')
+  .option('-o, --output <string>', 'output file for the matrix results')
+  .option('--run-id <id>', 'run ID of the matrix; each mode runs as <id>-<mode> (default: timestamp plus random suffix)');
+addOutputOptions(matrixCommand);
+matrixCommand
+  .action(async (options, command: Command) => {
+    let modes: TransportMode[];
+    try {
+      modes = parseTransportModes(options.modes);
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+
+    let config: BenchmarkConfig = {
+      targetConnections: parseInt(options.connections),
+      connectionRate: parseInt(options.rate),
+      testDuration: parseInt(options.duration),
+      messageInterval: Math.round(parseFloat(options.interval)*1000), // Convert to ms
+      messageSize: parseInt(options.messageSize),
+      throughputFraction: options.throughput === undefined ? 0 : options.throughput === true ? 1 : parseFloat(options.throughput),
+      fanoutRooms: options.rooms ? parseInt(options.rooms) : 0,
+      fanoutPublishers: parseInt(options.publishers),
+      fanoutServerRate: options.serverPublishRate ? parseFloat(options.serverPublishRate) : 0,
+      reconnection: buildReconnectionOptions(options),
+      serverRestart: buildServerRestart(options),
+      auth: buildAuthOptions(options),
+      message: 'Test message from benchmark tool',
+      // Each mode sets its own transports
+      ...buildTargetConfig({ ...options, transports: 'websocket' }),
+      workers: parseInt(options.workers),
+      agents: options.agents ? String(options.agents).split(',').map((a: string) => a.trim()).filter(Boolean) : undefined,
+      maxRetries: parseInt(options.maxRetries),
+      retryDelay: parseInt(options.retryDelay)*1000, // Convert to ms
+      verbose: !!options.verbose,
+      logging: buildLoggingOptions(options),
+      runId: options.runId ? parseRunId(options.runId) : undefined,
+      companyId: process.env.COMPANY_ID || '11110000',
+      token: process.env.AUTH_TOKEN || 'your_token_here'
+    };
+
+    const scenario = options.scenario ? readScenario(options.scenario) : null;
+    if (scenario) {
+      config = applyScenario(config, scenario, command);
+      if (scenario.profile) {
+        const loadProfile = typeof scenario.profile === 'string' ? resolveProfile(scenario.profile, config) : scenario.profile;
+        config.loadProfile = loadProfile;
+        config.targetConnections = Math.max(...loadProfile.map(phase => phase.target));
+      }
+    }
+
+    const benchmark = createBenchmark(options);
+
+    try {
+      const result = await benchmark.runMatrix(config, modes, parseFloat(options.cooldown));
+
+      const output = options.output ?? scenario?.output?.json;
+      if (output) {
+        require('fs').writeFileSync(output, JSON.stringify({ ...result, exportedAt: new Date().toISOString() }, null, 2));
+        console.log(chalk.green(`📄 Matrix results exported to: ${output}`));
+      }
+    } catch (error) {
+      console.error(chalk.red('Transport matrix failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// Started by matrix for each transport mode; reads its job over IPC
+program
+  .command('matrix-mode', { hidden: true })
+  .action(() => {
+    if (!process.send) {
+      console.error(chalk.red('matrix-mode is started by the matrix command'));
+      process.exit(1);
+    }
+
+    process.once('message', async (job: MatrixModeJob) => {
+      try {
+        const outcome = await new SocketBenchmark().runMatrixMode(job);
+        process.send!(outcome, () => process.exit(0));
+      } catch (error) {
+        console.error(chalk.red('Transport mode run failed:'), error);
+        process.exit(1);
+      }
+    });
+  });
+
+program
+  .command('compare <baseline> <current>')
+  .description('Compare two exported result files and report regressions')
+  .option('--tolerance <spec>', 'tolerance per group: rates (percentage points), latency, resources, throughput (%), e.g. rates=0.5,latency=15')
+  .option('-o, --output <string>', 'write the comparison as JSON')
+  .action((baselineFile: string, currentFile: string, options) => {
+    try {
+      const baseline = loadExport(baselineFile);
+      const current = loadExport(currentFile);
+      const result = compareResults(baseline, current, parseTolerances(options.tolerance), { baseline: baselineFile, current: currentFile });
+
+      printComparison(result, baseline, current);
+
+      if (options.output) {
+        require('fs').writeFileSync(options.output, JSON.stringify(result, null, 2));
+        console.log(chalk.green(`📄 Comparison exported to: ${options.output}`));
+      }
+
+      if (result.regressions > 0) {
+        process.exitCode = REGRESSION_EXIT_CODE;
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('report <results>')
+  .description('Render an HTML report from a results file written by run --output')
+  .option('-o, --output <file>', 'HTML file to write (default: results file name with .html)')
+  .action((resultsFile: string, options) => {
+    try {
+      const output = options.output || resultsFile.replace(/\.json$/i, '') + '.html';
+      writeHtmlReport(loadExport(resultsFile), output);
+      console.log(chalk.green(`📈 HTML report written to: ${output}`));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+const logs = program
+  .command('logs')
+  .description('Inspect the log files of a run');
+
+logs
+  .command('analyze <dir>')
+  .description('Summarize errors over time, client lifecycles, ping failures and disconnect bursts of a run (or logs) directory')
+  .option('--client <id>', 'also print every log entry of this client')
+  .option('--top <number>', 'rows shown per section', '10')
+  .option('--bucket <seconds>', 'width of the error time buckets (default: about 20 buckets over the run)')
+  .option('--burst-threshold <number>', 'spontaneous disconnects within one second that make a burst', '5')
+  .option('-o, --output <file>', 'write the full analysis as JSON')
+  .action(async (dir: string, options) => {
+    try {
+      const analysis = await analyzeLogs(dir, {
+        client: options.client,
+        bucketSeconds: options.bucket ? parseFloat(options.bucket) : undefined,
+        burstThreshold: parseInt(options.burstThreshold)
+      });
+      printLogAnalysis(analysis, parseInt(options.top));
+
+      if (options.output) {
+        require('fs').writeFileSync(options.output, JSON.stringify(analysis, null, 2));
+        console.log(chalk.green(`📄 Log analysis exported to: ${options.output}`));
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('proxy')
+  .description('Forward TCP connections to a server while injecting latency, bandwidth limits and network faults')
+  .option('-l, --listen <port>', 'port to listen on', '4000')
+  .option('--listen-host <host>', 'address to listen on (0.0.0.0 for all interfaces)', '127.0.0.1')
+  .option('--target <host:port>', 'server to forward to', 'localhost:3000')
+  .option('--latency <ms>', 'delay added to every chunk in each direction', '0')
+  .option('--jitter <ms>', 'random variation of the delay, up to ± this much', '0')
+  .option('--bandwidth <kbps>', 'cap per connection and direction in KB/s (0 = unlimited)', '0')
+  .option('--fault <spec>', 'kind:everySeconds:fraction[:durationMs] with kind stall, half-open, reset or kill; repeatable',
+    (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option('--stats-interval <seconds>', 'print traffic and fault counters this often (0 = never)', '5')
+  .action(async (options) => {
+    let proxy: ChaosProxy;
+    try {
+      const target = parseHostPort(options.target);
+      proxy = new ChaosProxy({
+        listenHost: options.listenHost,
+        listenPort: parsePort(options.listen),
+        targetHost: target.host,
+        targetPort: target.port,
+        latency: parseNonNegative('--latency', options.latency),
+        jitter: parseNonNegative('--jitter', options.jitter),
+        bandwidth: Math.round(parseNonNegative('--bandwidth', options.bandwidth) * 1024), // KB/s to bytes/s
+        faults: options.fault.map(parseFault)
+      }, parseNonNegative('--stats-interval', options.statsInterval) * 1000);
+      await proxy.start();
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+
+    process.on('SIGINT', () => {
+      console.log('\n🛑 Received SIGINT. Stopping proxy...');
+      proxy.printStats();
+      proxy.stop();
+      process.exit(0);
+    });
+  });
+
+program
+  .command('agent')
+  .description('Run as a remote load-generator agent controlled by `run --agents`')
+  .option('-p, --port <number>', 'port to listen on for the controller', String(DEFAULT_AGENT_PORT))
+  .option('-w, --workers <number>', 'override the number of worker threads on this agent')
+  .option('--local-address <list>', 'comma-separated local source addresses for this agent')
+  .option('--host <address>', `address to listen on (default: ${DEFAULT_AGENT_HOST}, or all interfaces with a secret)`)
+  .option('--secret <secret>', 'shared secret controllers must present (default: AGENT_SECRET)')
+  .action(async (options) => {
+    let agent: BenchmarkAgent;
+    try {
+      agent = new BenchmarkAgent(parseInt(options.port), {
+        workers: options.workers ? parseInt(options.workers) : undefined,
+        localAddresses: options.localAddress ? String(options.localAddress).split(',').map((a: string) => a.trim()).filter(Boolean) : undefined
+      }, options.secret || process.env.AGENT_SECRET, options.host);
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+
+    process.on('SIGINT', () => {
+      console.log('\n🛑 Received SIGINT. Stopping agent...');
+      agent.stop();
+      process.exit(0);
+    });
+
+    await agent.start();
+  });
+
 if (require.main === module) {
-  program.parse();
+  // Invalid option values surface as errors from the actions; report them as one line, not a stack trace
+  program.parseAsync().catch(error => {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  });
 }
 
 export default SocketBenchmark;
\ No newline at end of file
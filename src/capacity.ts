@@ -0,0 +1,130 @@
+import { ConnectionTester } from './client';
+import { LatencyHistogram } from './histogram';
+import {
+  CapacityLevel,
+  CapacityResult,
+  CapacitySearchOptions,
+  CapacityThresholds,
+  ConnectionResult
+} from './types';
+
+export const DEFAULT_CAPACITY_THRESHOLDS: CapacityThresholds = {
+  minSuccessRate: 99,
+  maxConnectP99: 5000,
+  maxPingFailureRate: 1,
+  maxDisconnectRate: 1
+};
+
+type LevelMetrics = Pick<CapacityLevel, 'connections' | 'successRate' | 'connectP99' | 'pingFailureRate' | 'disconnectRate' | 'spontaneousDisconnections'>;
+
+/**
+ * Collect the metrics the capacity thresholds are checked against for one level.
+ */
+export function measureLevel(connections: number, results: ConnectionResult[], tester: ConnectionTester): LevelMetrics {
+  const successful = results.filter(r => r.success);
+  const spontaneous = results.filter(r => r.spontaneousDisconnect).length;
+
+  const connectTimes = new LatencyHistogram();
+  successful.forEach(r => connectTimes.recordValue(r.connectionTime));
+
+  const pingStats = tester.getPingStats();
+  const pings = pingStats.reduce((sum, stat) => sum + stat.total, 0);
+  const failedPings = pingStats.reduce((sum, stat) => sum + stat.failed, 0);
+
+  return {
+    connections,
+    successRate: results.length > 0 ? (successful.length / results.length) * 100 : 0,
+    connectP99: connectTimes.getValueAtPercentile(99),
+    pingFailureRate: pings > 0 ? (failedPings / pings) * 100 : 0,
+    disconnectRate: successful.length > 0 ? (spontaneous / successful.length) * 100 : 0,
+    spontaneousDisconnections: spontaneous
+  };
+}
+
+/**
+ * Return a description of every breached threshold; empty when the level passes.
+ */
+export function checkThresholds(metrics: LevelMetrics, thresholds: CapacityThresholds): string[] {
+  const violations: string[] = [];
+
+  if (metrics.successRate < thresholds.minSuccessRate) {
+    violations.push(`success rate ${metrics.successRate.toFixed(1)}% < ${thresholds.minSuccessRate}%`);
+  }
+  if (metrics.connectP99 > thresholds.maxConnectP99) {
+    violations.push(`p99 connect time ${metrics.connectP99.toFixed(0)}ms > ${thresholds.maxConnectP99}ms`);
+  }
+  if (metrics.pingFailureRate > thresholds.maxPingFailureRate) {
+    violations.push(`ping failure rate ${metrics.pingFailureRate.toFixed(2)}% > ${thresholds.maxPingFailureRate}%`);
+  }
+  if (metrics.disconnectRate > thresholds.maxDisconnectRate) {
+    violations.push(`spontaneous disconnections ${metrics.disconnectRate.toFixed(2)}% > ${thresholds.maxDisconnectRate}%`);
+  }
+
+  return violations;
+}
+
+/**
+ * Decides which connection level to test next.
+ *
+ * ladder: start, start + step, ... up to max, stopping at the first failure.
+ * binary: test start and max, then bisect between the highest passing and the
+ * lowest failing level until they are no more than `step` apart.
+ */
+class CapacitySearch {
+  private options: CapacitySearchOptions;
+  private levels: CapacityLevel[] = [];
+
+  constructor(options: CapacitySearchOptions) {
+    this.options = options;
+  }
+
+  public next(): number | null {
+    const { strategy, start, max, step } = this.options;
+    const last = this.levels[this.levels.length - 1];
+
+    if (!last) return start;
+
+    if (strategy === 'ladder') {
+      if (!last.passed || last.connections >= max) return null;
+      return Math.min(max, last.connections + step);
+    }
+
+    if (this.levels.length === 1) {
+      return last.passed && last.connections < max ? max : null;
+    }
+
+    const lowestFailing = this.getFirstFailing();
+    const highestPassing = this.getHighestPassing();
+    if (!lowestFailing || !highestPassing) return null;
+    if (lowestFailing.connections - highestPassing.connections <= step) return null;
+
+    return Math.floor((highestPassing.connections + lowestFailing.connections) / 2);
+  }
+
+  public record(level: CapacityLevel): void {
+    this.levels.push(level);
+  }
+
+  public getHighestPassing(): CapacityLevel | null {
+    return this.levels
+      .filter(level => level.passed)
+      .reduce<CapacityLevel | null>((best, level) => (!best || level.connections > best.connections ? level : best), null);
+  }
+
+  public getFirstFailing(): CapacityLevel | null {
+    return this.levels
+      .filter(level => !level.passed)
+      .reduce<CapacityLevel | null>((lowest, level) => (!lowest || level.connections < lowest.connections ? level : lowest), null);
+  }
+
+  public getResult(): CapacityResult {
+    return {
+      options: this.options,
+      levels: this.levels,
+      highestPassing: this.getHighestPassing(),
+      firstFailing: this.getFirstFailing()
+    };
+  }
+}
+
+export { CapacitySearch };
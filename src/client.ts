@@ -1,9 +1,95 @@
+import { performance } from 'perf_hooks';
 import { io, Socket } from 'socket.io-client';
+import { AuthProvider, classifyConnectError, createAuthProvider } from './auth';
+import { ProgressView, RunProgress } from './dashboard';
+import { LatencyHistogram, LatencyRecorder, LatencySnapshot } from './histogram';
 import { Logger } from './logger';
-import { BenchmarkConfig, ConnectionResult } from './types';
+import { shard } from './profile';
+import { DEFAULT_RECONNECTION, requestServerRestart, summarizeReconnections } from './reconnect';
+import { RUN_ID_HEADER, runPaths } from './run';
+import { buildSocketOptions, buildTargetUrl, describeTarget, parseScheme, parseTransports, resolveTarget } from './target';
+import {
+  BenchmarkConfig,
+  ConnectionResult,
+  ConnectionTarget,
+  FailureKind,
+  FanoutResults,
+  FanoutStats,
+  LatencyCategory,
+  LoadPhase,
+  PhaseResult,
+  PingStats,
+  ReconnectEvent,
+  ReconnectionOptions,
+  ReconnectionResults,
+  ThroughputResults,
+  ThroughputStats,
+  TransportName
+} from './types';
 
-// Callback type for disconnection events
-type DisconnectionCallback = (clientId: string, reason: string, connectionDuration: number) => void;
+// Callback type for disconnection events; willReconnect is set when Socket.IO will try to reconnect
+type DisconnectionCallback = (clientId: string, reason: string, connectionDuration: number, willReconnect: boolean) => void;
+
+// Callback type for the end of a reconnection: back online, or out of attempts
+type ReconnectCallback = (clientId: string, outcome: { recovered: boolean; attempts: number; gaveUp: boolean }) => void;
+
+// Callback type for a connection moving from polling to websocket
+type UpgradeCallback = (clientId: string, transport: TransportName, upgradeTime: number) => void;
+
+// Callback type for every measured round trip
+type LatencyCallback = (category: LatencyCategory, latency: number) => void;
+
+const PING_INTERVAL_MS = 5000;
+
+// Warn only once per process about a server that does not echo seq
+let warnedMissingSeq = false;
+
+interface PendingRequest {
+  event: string; // The request event, so answers without a seq can be matched in order
+  resolve: (latency: number) => void;
+  startTime: number;
+  timeoutId: NodeJS.Timeout;
+}
+
+// Everything a tester measured, in a form that can be shipped across threads or the network
+export interface TesterSnapshot {
+  results: ConnectionResult[];
+  pingStats: PingStats[];
+  latency: LatencySnapshot;
+  throughput: ThroughputResults | null;
+  fanout: FanoutResults | null;
+  phases: PhaseSnapshot[] | null;
+  reconnects: ReconnectEvent[];
+  replayed: number;
+  peakActive: number;
+}
+
+interface PhaseSnapshot {
+  result: PhaseResult;
+  latency: LatencySnapshot;
+}
+
+// One sender into a fan-out room and the sequence range it published during the workload
+interface FanoutPublisher {
+  room: string;
+  origin: string; // Client id, or "server"
+  from: number; // Last sequence sent before the workload started
+  to: () => number; // Last sequence sent so far
+}
+
+interface FanoutStream {
+  count: number; // Messages that arrived
+  skipped: number; // Sequences sent while this recipient was out of the room
+  gapFrom: number | null; // Last sequence seen before a drop the recipient has not recovered from yet
+}
+
+interface ConnectionTesterOptions {
+  clearLogs?: boolean; // Clear previous log files on start (default: only when logging to the shared ./logs)
+  clientIdPrefix?: string; // Prefix for client ids, keeps ids unique across workers
+  logTag?: string; // Log to name.<tag>.log, so workers sharing a log directory each have their own files
+  onLatency?: LatencyCallback; // Receives every round trip measured by any client
+  progress?: boolean; // Show a live progress view instead of log lines (ignored when config.verbose is set)
+}
 
 class SocketClient {
   private socket: Socket | null = null;
@@ -16,17 +102,55 @@ class SocketClient {
   private pingCount: number = 0;
   private failedPings: number = 0;
   private disconnectionCallback: DisconnectionCallback | null = null;
+  private latencyCallback: LatencyCallback | null = null;
   private connectionStartTime: number = 0;
+  private latencyRecorder: LatencyRecorder = new LatencyRecorder();
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private requestSeq: number = 0;
+  private throughputInterval: NodeJS.Timeout | null = null;
+  private highestAckedSeq: number = 0;
+  private throughputStats: ThroughputStats = { sent: 0, acknowledged: 0, lost: 0, outOfOrder: 0, bytesSent: 0, bytesReceived: 0 };
+  private publishInterval: NodeJS.Timeout | null = null;
+  private publishedCount: number = 0;
+  // Per "room|origin" stream: how many arrived and which sequences the recipient could not have seen
+  private fanoutStreams: Map<string, FanoutStream & { last: number }> = new Map();
+  private leftRooms: boolean = false; // Dropped out of its rooms at least once without recovering the session
+
+  private retrying: boolean = false;
+  private rooms: Set<string> = new Set();
+  private reconnection: ReconnectionOptions | null = null;
+  private credentials: (() => Promise<Record<string, string>>) | null = null; // Fresh headers for each reconnect
+  private reconnectCallback: ReconnectCallback | null = null;
+  private droppedAt: number = 0; // Set while Socket.IO is reconnecting
+  private reconnectAttempts: number = 0;
+  private reconnects: number = 0;
+  private replayedMessages: number = 0;
+  private transport: TransportName | undefined;
+  private upgradeTime: number | undefined;
+  private upgradeCallback: UpgradeCallback | null = null;
 
-  constructor(clientId: string, logger?: Logger, onDisconnection?: DisconnectionCallback) {
+  constructor(clientId: string, logger?: Logger, onDisconnection?: DisconnectionCallback, onLatency?: LatencyCallback, onReconnect?: ReconnectCallback, onUpgrade?: UpgradeCallback) {
     this.clientId = clientId;
     this.logger = logger || new Logger();
     this.disconnectionCallback = onDisconnection || null;
+    this.latencyCallback = onLatency || null;
+    this.reconnectCallback = onReconnect || null;
+    this.upgradeCallback = onUpgrade || null;
   }
 
-  public async connect(host: string, port: number, headers?: Record<string, string>, maxRetries: number = 3, retryDelay: number = 1000): Promise<ConnectionResult> {
+  /**
+   * Connect with up to maxRetries retries; refused credentials are not retried.
+   * With `reconnection` set, Socket.IO reconnects the established session on
+   * its own after a drop, presenting credentials from `credentials` when given
+   * so a token that expired in the meantime is not replayed.
+   */
+  public async connect(target: ConnectionTarget, headers?: Record<string, string>, maxRetries: number = 3, retryDelay: number = 1000, reconnection?: ReconnectionOptions, credentials?: () => Promise<Record<string, string>>): Promise<ConnectionResult> {
+    this.reconnection = reconnection || null;
+    this.credentials = credentials || null;
     const overallStartTime = Date.now();
     let lastError = '';
+    let lastFailureKind: FailureKind = 'transport';
+    let attemptsMade = 0;
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       const isFirstAttempt = attempt === 0;
@@ -35,28 +159,43 @@ class SocketClient {
       if (!isFirstAttempt) {
         // Calculate exponential backoff delay: base * 2^(attempt-1)
         const delay = retryDelay * Math.pow(2, attempt - 1);
-        console.log(`🔄 Retry attempt ${attempt}/${maxRetries} for client ${this.clientId} after ${delay}ms...`);
+        this.retrying = true;
+        this.logger.logConnection(this.clientId, 'RETRY', `Retry attempt ${attempt}/${maxRetries} after ${delay}ms`, {
+          attempt,
+          delay,
+          lastError
+        });
         await new Promise(resolve => setTimeout(resolve, delay));
       }
 
+      attemptsMade++;
       try {
-        const attemptResult = await this.attemptConnection(host, port, headers, overallStartTime);
+        const attemptResult = await this.attemptConnection(target, headers, overallStartTime);
         
         if (attemptResult.success) {
+          this.retrying = false;
+          if (this.reconnection) {
+            this.enableReconnection(this.reconnection);
+          }
           return {
             ...attemptResult,
+            startedAt: new Date(overallStartTime),
             retryCount: attempt,
             finalAttempt: isFinalAttempt
           };
         } else {
           lastError = attemptResult.errorMessage || 'Unknown error';
+          lastFailureKind = attemptResult.failureKind || 'transport';
           if (!isFinalAttempt) {
             // Clean up failed socket before retry
             this.cleanup();
           }
+          // The same credentials would only be refused again
+          if (lastFailureKind === 'auth') break;
         }
       } catch (error) {
         lastError = error instanceof Error ? error.message : 'Unknown error';
+        lastFailureKind = 'transport';
         if (!isFinalAttempt) {
           this.cleanup();
         }
@@ -64,22 +203,110 @@ class SocketClient {
     }
 
     // All attempts failed
+    this.retrying = false;
     return {
       success: false,
       connectionTime: Date.now() - overallStartTime,
-      errorMessage: `Failed after ${maxRetries + 1} attempts. Last error: ${lastError}`,
-      retryCount: maxRetries,
+      startedAt: new Date(overallStartTime),
+      errorMessage: `Failed after ${attemptsMade} attempts. Last error: ${lastError}`,
+      failureKind: lastFailureKind,
+      retryCount: attemptsMade - 1,
       finalAttempt: true
     };
   }
 
-  private async attemptConnection(host: string, port: number, headers?: Record<string, string>, overallStartTime?: number): Promise<ConnectionResult> {
+  public isRetrying(): boolean {
+    return this.retrying;
+  }
+
+  // Initial attempts go through connect()'s retry loop; Socket.IO only takes over once a session exists
+  private enableReconnection(options: ReconnectionOptions): void {
+    const manager = this.socket!.io;
+    manager.reconnection(true);
+    manager.reconnectionAttempts(options.attempts);
+    manager.reconnectionDelay(options.delay);
+    manager.reconnectionDelayMax(options.delayMax);
+    manager.randomizationFactor(options.jitter);
+
+    // The auth payload wins over the handshake headers on the server and is asked for on every connect
+    const credentials = this.credentials;
+    if (credentials) {
+      const socket = this.socket!;
+      const initial = socket.auth as Record<string, string>;
+      socket.auth = (callback: (data: object) => void) => {
+        credentials()
+          .then(headers => {
+            manager.opts.extraHeaders = headers;
+            callback(headers);
+          })
+          .catch(error => {
+            this.logger.logWarning('AUTH', `Could not refresh credentials for ${this.clientId}, reusing the previous ones: ${error instanceof Error ? error.message : error}`);
+            callback((manager.opts.extraHeaders as Record<string, string>) || initial);
+          });
+      };
+    }
+
+    manager.on('reconnect_attempt', (attempt: number) => {
+      this.reconnectAttempts = attempt;
+      this.logger.logConnection(this.clientId, 'RETRY', `Reconnect attempt ${attempt}/${options.attempts}`, {
+        attempt,
+        downtime: Date.now() - this.droppedAt
+      });
+    });
+
+    manager.on('reconnect_failed', () => {
+      this.retrying = false;
+      this.logger.logError(this.clientId, 'CONNECTION_ERROR', `Gave up reconnecting after ${this.reconnectAttempts} attempts`, {
+        attempts: this.reconnectAttempts,
+        downtime: Date.now() - this.droppedAt
+      });
+      this.droppedAt = 0;
+      if (this.reconnectCallback) {
+        this.reconnectCallback(this.clientId, { recovered: false, attempts: this.reconnectAttempts, gaveUp: true });
+      }
+    });
+  }
+
+  private handleReconnect(): void {
+    const now = Date.now();
+    const recovered = this.socket!.recovered;
+    const attempts = this.reconnectAttempts;
+    const timeToReconnect = now - this.droppedAt;
+
+    this.connected = true;
+    this.connectionStartTime = now;
+    this.lastPingTime = now;
+    this.retrying = false;
+    this.droppedAt = 0;
+    this.reconnects++;
+
+    this.logger.logConnection(this.clientId, 'RECONNECT', `Reconnected after ${timeToReconnect}ms (${recovered ? 'session recovered' : 'new session'})`, {
+      timeToReconnect,
+      attempts,
+      recovered,
+      socketId: this.socket!.id
+    });
+
+    // A new session starts outside any room; a recovered one gets the missed room messages replayed
+    if (!recovered) {
+      this.rooms.forEach(room => this.socket!.emit('join-room', { room }));
+    } else {
+      this.fanoutStreams.forEach(stream => { stream.gapFrom = null; });
+    }
+
+    this.startPingInterval();
+    if (this.reconnectCallback) {
+      this.reconnectCallback(this.clientId, { recovered, attempts, gaveUp: false });
+    }
+  }
+
+  private async attemptConnection(target: ConnectionTarget, headers?: Record<string, string>, overallStartTime?: number): Promise<ConnectionResult> {
     const startTime = overallStartTime || Date.now();
+    const host = describeTarget(target);
     
     try {
       const socketOptions: any = {
-        path: '/socket.io',
-        transports: ['websocket', 'polling'],
+        ...buildSocketOptions(target),
         timeout: 30000,
         reconnection: false,
         forceNew: true
@@ -92,20 +319,34 @@ class SocketClient {
         socketOptions.auth = headers;
       }
 
-      const namespace = '/load-test'; // Use root namespace; change if needed
-      // this.socket = io(`http://${host}:${port}${namespace}`, socketOptions);
-      this.socket = io(`https://d5.drkumo.com${namespace}`, socketOptions);
+      this.socket = io(buildTargetUrl(target), socketOptions);
+      this.socket.io.on('open', () => this.trackTransport());
+
+      // Responses echo the request's sequence number back
+      this.socket.on('pong', (data) => this.resolveRequest('ping', data));
+      this.socket.on('benchmark-response', (data) => {
+        const seq = this.resolveRequest('benchmark-data', data);
+        if (seq !== null) {
+          this.trackThroughputResponse(data, seq);
+        }
+      });
+      this.socket.on('room-message', (data) => this.trackRoomMessage(data));
 
       return new Promise((resolve) => {
         const timeoutId = setTimeout(() => {
           resolve({
             success: false,
             connectionTime: Date.now() - startTime,
-            errorMessage: 'Connection timeout'
+            errorMessage: 'Connection timeout',
+            failureKind: 'transport'
           });
         }, 90000);
 
         this.socket!.on('connect', () => {
+          if (this.droppedAt > 0) {
+            this.handleReconnect();
+            return;
+          }
           clearTimeout(timeoutId);
           this.connectionTime = Date.now() - startTime;
           this.connectionStartTime = Date.now();
@@ -116,7 +357,7 @@ class SocketClient {
           this.logger.logConnection(this.clientId, 'CONNECT', `Connected successfully`, {
             connectionTime: this.connectionTime,
             socketId: this.socket!.id,
-            host: `${host}:${port}`
+            host
           });
           
           // Start ping interval for connected clients
@@ -126,23 +367,35 @@ class SocketClient {
             success: true,
             connectionTime: this.connectionTime,
             socketId: this.socket!.id,
-            isActive: true
+            isActive: true,
+            transport: this.transport,
+            upgradeTime: this.upgradeTime
           });
         });
 
         this.socket!.on('connect_error', (error) => {
+          // Failed reconnect attempts are Socket.IO's to retry; reconnect_failed reports giving up
+          if (this.droppedAt > 0) {
+            this.logger.logConnection(this.clientId, 'RETRY', `Reconnect attempt ${this.reconnectAttempts} failed: ${error.message}`, {
+              attempt: this.reconnectAttempts,
+              error: error.message
+            });
+            return;
+          }
           clearTimeout(timeoutId);
+          const failureKind = classifyConnectError(error);
           
-          this.logger.logError(this.clientId, 'CONNECTION_ERROR', `Connection failed: ${error.message}`, {
+          this.logger.logError(this.clientId, failureKind === 'auth' ? 'AUTH_ERROR' : 'CONNECTION_ERROR', `Connection failed: ${error.message}`, {
             error: error.message,
-            host: `${host}:${port}`,
+            host,
             attempt: 'connection'
           });
           
           resolve({
             success: false,
             connectionTime: Date.now() - startTime,
-            errorMessage: error.message
+            errorMessage: error.message,
+            failureKind
           });
         });
 
@@ -150,8 +403,18 @@ class SocketClient {
           const disconnectionTime = Date.now();
           const connectionDuration = this.connectionStartTime > 0 ? disconnectionTime - this.connectionStartTime : 0;
           
+          // Socket.IO stays active when it is about to reconnect on its own
+          const willReconnect = this.reconnection !== null && this.socket?.active === true;
           this.connected = false;
           this.stopPingInterval();
+          if (willReconnect) {
+            this.droppedAt = disconnectionTime;
+            this.reconnectAttempts = 0;
+            this.retrying = true;
+          }
+          if (reason !== 'io client disconnect') {
+            this.leaveFanoutStreams();
+          }
           
           this.logger.logConnection(this.clientId, 'DISCONNECT', `Disconnected: ${reason}`, {
             reason,
@@ -163,7 +426,7 @@ class SocketClient {
           
           // Notify the ConnectionTester about spontaneous disconnection
           if (this.disconnectionCallback && reason !== 'io client disconnect') {
-            this.disconnectionCallback(this.clientId, reason, connectionDuration);
+            this.disconnectionCallback(this.clientId, reason, connectionDuration, willReconnect);
           }
         });
 
@@ -179,13 +442,42 @@ class SocketClient {
       return {
         success: false,
         connectionTime: Date.now() - startTime,
-        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        failureKind: 'transport'
       };
     }
   }
 
+  /**
+   * Every (re)connect opens a new engine on the first transport listed; with
+   * polling first and websocket allowed it upgrades once the probe succeeds.
+   */
+  private trackTransport(): void {
+    const engine = this.socket!.io.engine;
+    const openedAt = Date.now();
+    this.transport = engine.transport.name as TransportName;
+    this.upgradeTime = undefined;
+
+    engine.once('upgrade', (transport) => {
+      this.transport = transport.name as TransportName;
+      this.upgradeTime = Date.now() - openedAt;
+      this.logger.logConnection(this.clientId, 'UPGRADE', `Upgraded to ${transport.name} after ${this.upgradeTime}ms`, {
+        transport: transport.name,
+        upgradeTime: this.upgradeTime,
+        socketId: this.socket?.id
+      });
+      if (this.upgradeCallback) {
+        this.upgradeCallback(this.clientId, this.transport, this.upgradeTime);
+      }
+    });
+  }
+
   private cleanup(): void {
     this.stopPingInterval();
+    this.stopThroughput();
+    this.stopPublishing();
+    this.pendingRequests.forEach(pending => clearTimeout(pending.timeoutId));
+    this.pendingRequests.clear();
     if (this.socket) {
       this.socket.removeAllListeners();
       this.socket.disconnect();
@@ -197,49 +489,308 @@ class SocketClient {
     this.failedPings = 0;
   }
 
-  public sendPing(): Promise<number> {
+  private sendRequest(event: string, payload: any, timeoutMs: number, timeoutMessage: string): Promise<number> {
     if (!this.socket || !this.connected) {
       return Promise.reject(new Error('Not connected'));
     }
 
-    const startTime = Date.now();
-    
+    const seq = ++this.requestSeq;
+
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
-        reject(new Error('Ping timeout'));
-      }, 5000);
+        this.pendingRequests.delete(seq);
+        reject(new Error(timeoutMessage));
+      }, timeoutMs);
 
-      this.socket!.emit('ping', { clientId: this.clientId, timestamp: startTime });
-      
-      this.socket!.once('pong', (data) => {
-        clearTimeout(timeoutId);
-        const latency = Date.now() - startTime;
-        resolve(latency);
-      });
+      this.pendingRequests.set(seq, { event, resolve, startTime: performance.now(), timeoutId });
+      this.socket!.emit(event, { ...payload, seq });
     });
   }
 
-  public sendTestMessage(data: any): Promise<any> {
+  /**
+   * Match a response to its request by the echoed seq. Servers that do not
+   * echo it are assumed to answer each socket's requests in order, so the
+   * oldest pending request of that event is taken. Returns the matched seq.
+   */
+  private resolveRequest(event: string, data: any): number | null {
+    let seq: number | null = typeof data?.seq === 'number' ? data.seq : null;
+    if (seq === null) {
+      if (!warnedMissingSeq) {
+        warnedMissingSeq = true;
+        this.logger.logWarning('MISSING_SEQ', `Responses to ${event} carry no seq; matching them to requests in send order, which skews latency if the server reorders them`);
+      }
+      for (const [pendingSeq, pending] of this.pendingRequests) {
+        if (pending.event === event) {
+          seq = pendingSeq;
+          break;
+        }
+      }
+    }
+
+    const pending = seq !== null ? this.pendingRequests.get(seq) : undefined;
+    if (!pending || pending.event !== event) return null;
+
+    clearTimeout(pending.timeoutId);
+    this.pendingRequests.delete(seq!);
+    pending.resolve(performance.now() - pending.startTime);
+    return seq;
+  }
+
+  private recordLatency(category: LatencyCategory, latency: number, expectedIntervalMs: number): void {
+    this.latencyRecorder.record(category, latency, expectedIntervalMs);
+    if (this.latencyCallback) {
+      this.latencyCallback(category, latency);
+    }
+  }
+
+  /**
+   * @param expectedIntervalMs how often the caller sends pings, used for
+   * coordinated-omission correction (0 disables it)
+   */
+  public async sendPing(expectedIntervalMs: number = 0): Promise<number> {
+    const latency = await this.sendRequest('ping', { clientId: this.clientId, timestamp: Date.now() }, 5000, 'Ping timeout');
+    this.recordLatency('ping', latency, expectedIntervalMs);
+    return latency;
+  }
+
+  public async sendBenchmarkData(data: any, expectedIntervalMs: number = 0): Promise<number> {
+    const latency = await this.sendRequest('benchmark-data', { clientId: this.clientId, ...data }, 10000, 'Benchmark data timeout');
+    this.recordLatency('message', latency, expectedIntervalMs);
+    return latency;
+  }
+
+  /**
+   * Broadcast to the other clients and time the server's ack, so each
+   * sample belongs to this client's own message.
+   */
+  public async sendTestMessage(data: any, expectedIntervalMs: number = 0): Promise<any> {
     if (!this.socket || !this.connected) {
-      return Promise.reject(new Error('Not connected'));
+      throw new Error('Not connected');
     }
 
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error('Test message timeout'));
-      }, 10000);
+    const startTime = performance.now();
+    const response = await this.socket.timeout(10000).emitWithAck('broadcast', data).catch(() => {
+      throw new Error('Test message timeout');
+    });
+    this.recordLatency('broadcast', performance.now() - startTime, expectedIntervalMs);
+    return response;
+  }
 
-      this.socket!.emit('broadcast', data);
-      
-      this.socket!.once('broadcast', (response) => {
-        // console.log('Response:', response);
-        clearTimeout(timeoutId);
-        resolve(response);
+  public getLatencyRecorder(): LatencyRecorder {
+    return this.latencyRecorder;
+  }
+
+  /**
+   * Stream benchmark-data messages of `messageSize` bytes (serialized JSON)
+   * every `intervalMs` until stopThroughput is called.
+   */
+  public startThroughput(messageSize: number, intervalMs: number, initialDelayMs: number = 0): void {
+    this.stopThroughput();
+
+    const send = () => {
+      if (!this.connected || !this.socket) return;
+
+      const payload = this.buildPayload(messageSize);
+      this.throughputStats.sent++;
+      this.throughputStats.bytesSent += messageSize;
+
+      // Failures are derived from sent vs acknowledged when stats are read
+      this.sendBenchmarkData(payload, intervalMs).catch(() => {});
+    };
+
+    // Stagger start so clients do not all fire on the same tick
+    this.throughputInterval = setTimeout(() => {
+      send();
+      this.throughputInterval = setInterval(send, intervalMs);
+    }, initialDelayMs);
+  }
+
+  public stopThroughput(): void {
+    if (this.throughputInterval) {
+      // Covers both the initial delay timeout and the repeating interval
+      clearInterval(this.throughputInterval);
+      this.throughputInterval = null;
+    }
+  }
+
+  public getPendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
+
+  public getThroughputStats(): ThroughputStats {
+    return {
+      ...this.throughputStats,
+      lost: this.throughputStats.sent - this.throughputStats.acknowledged
+    };
+  }
+
+  public async joinRoom(room: string): Promise<void> {
+    if (!this.socket || !this.connected) {
+      throw new Error('Not connected');
+    }
+    await this.socket.timeout(10000).emitWithAck('join-room', { room });
+    this.rooms.add(room);
+  }
+
+  public async leaveRoom(room: string): Promise<void> {
+    this.rooms.delete(room);
+    if (!this.socket || !this.connected) return;
+    await this.socket.timeout(10000).emitWithAck('leave-room', { room });
+  }
+
+  /**
+   * Publish a room-broadcast every `intervalMs`. Each message carries this
+   * client's sequence so recipients can detect gaps.
+   */
+  public startPublishing(room: string, messageSize: number, intervalMs: number, initialDelayMs: number = 0): void {
+    this.stopPublishing();
+    const data = 'x'.repeat(Math.max(0, messageSize));
+
+    const publish = () => {
+      if (!this.connected || !this.socket) return;
+      this.socket.emit('room-broadcast', {
+        room,
+        origin: this.clientId,
+        seq: ++this.publishedCount,
+        sentAt: Date.now(),
+        data
       });
+    };
+
+    this.publishInterval = setTimeout(() => {
+      publish();
+      this.publishInterval = setInterval(publish, intervalMs);
+    }, initialDelayMs);
+  }
+
+  public stopPublishing(): void {
+    if (this.publishInterval) {
+      // Covers both the initial delay timeout and the repeating interval
+      clearInterval(this.publishInterval);
+      this.publishInterval = null;
+    }
+  }
+
+  /**
+   * Ask the server to publish into a room on its own schedule. Resolves with
+   * the publisher's sequence before its first message, or null without an ack.
+   */
+  public async requestServerPublisher(room: string, rate: number, size: number, durationSeconds: number): Promise<number | null> {
+    if (!this.socket || !this.connected) return null;
+    const ack = await this.socket.timeout(10000).emitWithAck('publish-start', { room, rate, size, duration: durationSeconds }).catch(() => null);
+    return ack && typeof ack.seq === 'number' ? ack.seq : null;
+  }
+
+  // Resolves with the server publisher's last sequence, or null without an ack
+  public async stopServerPublisher(room: string): Promise<number | null> {
+    if (!this.socket || !this.connected) return null;
+    const ack = await this.socket.timeout(10000).emitWithAck('publish-stop', { room }).catch(() => null);
+    return ack && typeof ack.published === 'number' ? ack.published : null;
+  }
+
+  public getPublishedCount(): number {
+    return this.publishedCount;
+  }
+
+  // Room messages the server replayed after recovering this client's session
+  public getReplayedCount(): number {
+    return this.replayedMessages;
+  }
+
+  public getReconnectCount(): number {
+    return this.reconnects;
+  }
+
+  // Highest sequence this client received from a room's publisher
+  public getLastSeen(room: string, origin: string): number {
+    return this.fanoutStreams.get(`${room}|${origin}`)?.last || 0;
+  }
+
+  /**
+   * Delivery totals against what the room's publishers sent while this
+   * client was in the room. Streams it never heard from still count, so
+   * losses at the start or end of a stream are not hidden.
+   */
+  public getFanoutStats(publishers: FanoutPublisher[]): FanoutStats {
+    let received = 0;
+    let expected = 0;
+    publishers.filter(publisher => this.rooms.has(publisher.room)).forEach(publisher => {
+      const sent = Math.max(0, publisher.to() - publisher.from);
+      const stream = this.fanoutStreams.get(`${publisher.room}|${publisher.origin}`);
+      if (!stream) {
+        // Nothing arrived: either it was lost, or this client dropped out before the first message
+        expected += this.leftRooms ? 0 : sent;
+        return;
+      }
+      const away = stream.gapFrom !== null ? Math.max(0, publisher.to() - stream.gapFrom) : 0;
+      received += stream.count;
+      expected += Math.max(stream.count, sent - stream.skipped - away);
+    });
+    return { received, expected, missing: Math.max(0, expected - received) };
+  }
+
+  // Messages sent after a drop are only expected again once the client is back in its rooms
+  private leaveFanoutStreams(): void {
+    if (this.rooms.size === 0) return;
+    this.leftRooms = true;
+    this.fanoutStreams.forEach(stream => {
+      if (stream.gapFrom === null) stream.gapFrom = stream.last;
     });
   }
 
+  private trackRoomMessage(data: any): void {
+    if (!data || typeof data.seq !== 'number') return;
+
+    // A recovering session gets the packets it missed before its connect event fires
+    if (this.droppedAt > 0) {
+      this.replayedMessages++;
+    }
+
+    // sentAt comes from the publisher's clock; across machines this needs synced clocks
+    if (typeof data.sentAt === 'number') {
+      this.recordLatency('fanout', Math.max(0, Date.now() - data.sentAt), 0);
+    }
+
+    const key = `${data.room}|${data.origin}`;
+    const stream = this.fanoutStreams.get(key);
+    if (!stream) {
+      this.fanoutStreams.set(key, { last: data.seq, count: 1, skipped: 0, gapFrom: null });
+    } else {
+      // First message after rejoining: whatever was sent in between never had a chance to arrive
+      if (stream.gapFrom !== null && this.droppedAt === 0) {
+        stream.skipped += Math.max(0, data.seq - stream.gapFrom - 1);
+        stream.gapFrom = null;
+      }
+      stream.last = Math.max(stream.last, data.seq);
+      stream.count++;
+    }
+  }
+
+  private buildPayload(messageSize: number): any {
+    const payload = { clientId: this.clientId, timestamp: Date.now(), data: '' };
+    // Account for the seq field sendRequest adds so the wire payload is messageSize bytes
+    const overhead = Buffer.byteLength(JSON.stringify({ ...payload, seq: this.requestSeq + 1 }));
+    payload.data = 'x'.repeat(Math.max(0, messageSize - overhead));
+    return payload;
+  }
+
+  // Only called for responses that matched a pending request; late ones for timed-out requests count as lost
+  private trackThroughputResponse(data: any, seq: number): void {
+    if (typeof data.data !== 'string') return;
+
+    this.throughputStats.acknowledged++;
+    this.throughputStats.bytesReceived += Buffer.byteLength(JSON.stringify(data));
+
+    if (seq < this.highestAckedSeq) {
+      this.throughputStats.outOfOrder++;
+    } else {
+      this.highestAckedSeq = seq;
+    }
+  }
+
   public disconnect(): void {
+    this.stopThroughput();
+    this.stopPublishing();
     if (this.socket) {
       this.socket.disconnect();
       this.connected = false;
@@ -254,6 +805,15 @@ class SocketClient {
     return this.connectionTime;
   }
 
+  // How long the current connection has been up (ms)
+  public getConnectedDuration(): number {
+    return this.connected && this.connectionStartTime > 0 ? Date.now() - this.connectionStartTime : 0;
+  }
+
+  public getClientId(): string {
+    return this.clientId;
+  }
+
   private startPingInterval(): void {
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
@@ -262,16 +822,14 @@ class SocketClient {
     this.pingInterval = setInterval(async () => {
       if (this.connected && this.socket) {
         try {
-          const latency = await this.sendPing();
+          const latency = await this.sendPing(PING_INTERVAL_MS);
           this.pingCount++;
           
-          // Log successful ping (only every 10th ping to reduce log volume)
-          if (this.pingCount % 10 === 0) {
-            this.logger.logPing(this.clientId, latency, true, {
-              totalPings: this.pingCount,
-              failedPings: this.failedPings
-            });
-          }
+          // Successful pings are sampled by the logger (PING_SUCCESS, 10% by default)
+          this.logger.logPing(this.clientId, Math.round(latency), true, {
+            totalPings: this.pingCount,
+            failedPings: this.failedPings
+          });
         } catch (error) {
           this.failedPings++;
           this.logger.logPing(this.clientId, -1, false, {
@@ -286,7 +844,7 @@ class SocketClient {
           }
         }
       }
-    }, 5000); // 5 second interval
+    }, PING_INTERVAL_MS);
   }
 
   private stopPingInterval(): void {
@@ -296,7 +854,7 @@ class SocketClient {
     }
   }
 
-  public getPingStats(): { total: number; failed: number; successRate: number } {
+  public getPingStats(): PingStats {
     return {
       total: this.pingCount,
       failed: this.failedPings,
@@ -308,34 +866,82 @@ class SocketClient {
 class ConnectionTester {
   private clients: SocketClient[] = [];
   private results: ConnectionResult[] = [];
+  private resultsByClient: Map<string, ConnectionResult> = new Map();
+  private workerPingStats: PingStats[] = [];
+  private workerLatency: LatencyRecorder = new LatencyRecorder();
+  private workerThroughput: ThroughputResults[] = [];
+  private throughputClients: SocketClient[] = [];
+  private throughputStartTime: number = 0;
+  private throughputEndTime: number = 0;
+  private workerFanout: FanoutResults[] = [];
+  private fanoutRooms: Map<string, SocketClient[]> = new Map();
+  private fanoutPublishers: FanoutPublisher[] = [];
+  private phases: Array<{ result: PhaseResult; latency: LatencyRecorder }> = [];
+  private workerPhases: PhaseSnapshot[][] = [];
+  private currentPhaseLatency: LatencyRecorder | null = null;
+  private nextClientIndex: number = 0;
+  private rampDownClosed: number = 0;
+  private peakActiveConnections: number = 0;
+  private workerPeakActive: number = 0;
+  private clientIdPrefix: string;
+  private onLatency?: LatencyCallback;
   private config: BenchmarkConfig;
+  private target: ConnectionTarget;
   private logger: Logger;
   private activeConnections: number = 0;
   private disconnectedConnections: number = 0;
   private spontaneousDisconnections: number = 0;
+  private succeededCount: number = 0;
+  private failedCount: number = 0;
+  private errorCounts: Map<string, number> = new Map();
+  private progressView: ProgressView | null = null;
+  private progressLatency: LatencyHistogram = new LatencyHistogram();
+  private lastProgressLatency: RunProgress['latency'];
+  private rateSamples: Array<{ time: number; succeeded: number }> = [];
+  private stage: string = 'starting';
+  private stageEndsAt: number | null = null;
+  private reconnectEvents: ReconnectEvent[] = [];
+  private pendingReconnects: Map<string, ReconnectEvent> = new Map();
+  private workerReconnects: ReconnectEvent[] = [];
+  private workerReplayed: number = 0;
+  private failedGenerators: string[] = [];
+  private restartTimer: NodeJS.Timeout | null = null;
+  private authProvider: AuthProvider;
 
-  constructor(config: BenchmarkConfig) {
+  constructor(config: BenchmarkConfig, options: ConnectionTesterOptions = {}) {
     this.config = config;
-    this.logger = new Logger();
+    this.target = resolveTarget(config);
+    this.authProvider = createAuthProvider(config);
+    this.clientIdPrefix = options.clientIdPrefix || '';
+    this.onLatency = options.onLatency;
+    // Runs with a directory keep their logs there; the probe and main run of one benchmark share it
+    this.logger = new Logger(config.runDir ? runPaths(config.runDir).logs : './logs', {
+      ...config.logging,
+      echo: config.verbose,
+      runId: config.runId,
+      fileTag: options.logTag
+    });
+    if (options.progress && !config.verbose) {
+      this.progressView = new ProgressView(() => this.getProgress());
+    }
     
     // Clear previous logs for fresh test
-    this.logger.clearLogs();
+    if (options.clearLogs ?? !config.runDir) {
+      this.logger.clearLogs();
+    }
     this.logger.logInfo('TEST_START', `Starting connection test with ${config.targetConnections} connections`);
   }
 
-  private handleDisconnection = (clientId: string, reason: string, connectionDuration: number): void => {
+  private handleDisconnection = (clientId: string, reason: string, connectionDuration: number, willReconnect: boolean): void => {
     // Find the connection result and update it
-    const resultIndex = this.results.findIndex(result => {
-      const clientIndex = parseInt(clientId.replace('client-', ''));
-      return this.results.indexOf(result) === clientIndex;
-    });
+    const result = this.resultsByClient.get(clientId);
     
-    if (resultIndex !== -1 && this.results[resultIndex].success) {
-      this.results[resultIndex].isActive = false;
-      this.results[resultIndex].disconnectedAt = new Date();
-      this.results[resultIndex].disconnectionReason = reason;
-      this.results[resultIndex].connectionDuration = connectionDuration;
-      this.results[resultIndex].spontaneousDisconnect = true;
+    if (result && result.success) {
+      result.isActive = false;
+      result.disconnectedAt = new Date();
+      result.disconnectionReason = reason;
+      result.connectionDuration = connectionDuration;
+      result.spontaneousDisconnect = true;
       
       this.activeConnections = Math.max(0, this.activeConnections - 1);
       this.disconnectedConnections++;
@@ -344,26 +950,113 @@ class ConnectionTester {
       this.logger.logConnection(clientId, 'DISCONNECT', `Connection dropped spontaneously: ${reason}`, {
         reason,
         connectionDuration,
+        willReconnect,
         activeConnections: this.activeConnections,
         totalDisconnected: this.disconnectedConnections
       });
+
+      if (willReconnect) {
+        const event: ReconnectEvent = { clientId, droppedAt: Date.now(), recovered: false, attempts: 0, gaveUp: false };
+        this.reconnectEvents.push(event);
+        this.pendingReconnects.set(clientId, event);
+      }
       
-      // Log progress every 10 disconnections
-      if (this.spontaneousDisconnections % 10 === 0) {
+      // The progress view shows drops live; verbose runs log every 10th
+      if (this.config.verbose && this.spontaneousDisconnections % 10 === 0) {
         console.log(`⚠️  ${this.spontaneousDisconnections} spontaneous disconnections detected. Active: ${this.activeConnections}`);
       }
     }
   };
 
+  // A dropped client is back (counted active again) or has used up its attempts
+  private handleReconnect = (clientId: string, outcome: { recovered: boolean; attempts: number; gaveUp: boolean }): void => {
+    const event = this.pendingReconnects.get(clientId);
+    if (event) {
+      this.pendingReconnects.delete(clientId);
+      event.attempts = outcome.attempts;
+      event.recovered = outcome.recovered;
+      event.gaveUp = outcome.gaveUp;
+      if (!outcome.gaveUp) {
+        event.reconnectedAt = Date.now();
+      }
+    }
+
+    const result = this.resultsByClient.get(clientId);
+    if (outcome.gaveUp || !result) return;
+
+    result.isActive = true;
+    result.reconnects = (result.reconnects || 0) + 1;
+    this.activeConnections++;
+    this.peakActiveConnections = Math.max(this.peakActiveConnections, this.activeConnections);
+  };
+
+  // Upgrades usually land just after connect() returned, so the stored result is updated in place
+  private handleUpgrade = (clientId: string, transport: TransportName, upgradeTime: number): void => {
+    const result = this.resultsByClient.get(clientId);
+    if (!result) return;
+    result.transport = transport;
+    result.upgradeTime = upgradeTime;
+  };
+
+  // Feeds the progress counters and the current load phase's histograms as well as the caller's callback
+  private handleLatency = (category: LatencyCategory, latency: number): void => {
+    // Also kept without a progress view: workers and agents report getProgress() to their coordinator
+    this.progressLatency.recordValue(latency);
+    if (this.currentPhaseLatency) {
+      this.currentPhaseLatency.record(category, latency);
+    }
+    if (this.onLatency) {
+      this.onLatency(category, latency);
+    }
+  };
+
   public async testConnections(): Promise<ConnectionResult[]> {
+    this.startProgress();
+    this.scheduleServerRestart();
+    try {
+      return await this.runConnections();
+    } finally {
+      if (this.restartTimer) {
+        clearTimeout(this.restartTimer);
+        this.restartTimer = null;
+      }
+      this.stopProgress();
+      await this.logger.flush();
+    }
+  }
+
+  // Ask the server to drop everyone `at` seconds after the test starts
+  private scheduleServerRestart(): void {
+    const restart = this.config.serverRestart;
+    if (!restart) return;
+
+    this.restartTimer = setTimeout(async () => {
+      this.restartTimer = null;
+      this.logger.logInfo('SERVER_RESTART', `Restarting the server: ${restart.downtime}ms downtime, sessions ${restart.keepSessions ? 'kept' : 'dropped'}, ${this.activeConnections} active`);
+      try {
+        await requestServerRestart(this.target, restart);
+      } catch (error) {
+        this.logger.logWarning('SERVER_RESTART', `Restart request failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }, restart.at * 1000);
+  }
+
+  private async runConnections(): Promise<ConnectionResult[]> {
+    if (this.config.loadProfile && this.config.loadProfile.length > 0) {
+      await this.runLoadProfile(this.config.loadProfile);
+      await this.disconnectAll();
+      return this.results;
+    }
+
     console.log(`
 🚀 Starting connection test with ${this.config.targetConnections} connections
-├─ Server: ${this.config.serverHost}:${this.config.serverPort}
+├─ Server: ${describeTarget(this.target)}
 ├─ Connection rate: ${this.config.connectionRate} connections/second
 └─ Test duration: ${this.config.testDuration} seconds
     `);
 
     const startTime = Date.now();
+    this.setStage('connecting');
     
     /**
      * Simulate realword scenario by staggering connection attempts
@@ -390,7 +1083,9 @@ class ConnectionTester {
     */
 
     // Testing Connection by chunks to avoid overwhelming the server
-    const chunkSize = this.config.connectionRate; // Number of connections to create per chunk
+    const chunkSize = Math.max(1, Math.floor(this.config.connectionRate)); // Number of connections to create per chunk
+    // Usually 1 second; longer when a worker's or agent's share of the rate is below one connection per second
+    const chunkDelayMs = (chunkSize / this.config.connectionRate) * 1000;
     for (let i = 0; i < this.config.targetConnections; i += chunkSize) {
       const chunkPromises: Promise<void>[] = [];
       
@@ -401,25 +1096,34 @@ class ConnectionTester {
       // Wait for the current chunk to complete
       await Promise.all(chunkPromises);
       
-      // Wait 1 second before starting the next chunk to respect the connection rate
+      // Wait before starting the next chunk to respect the connection rate
       if ((i + chunkSize) < this.config.targetConnections) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
       }
     }
     
     const connectionPhaseEnd = Date.now();
-    console.log(`\n✅ Connection phase completed in ${(connectionPhaseEnd - startTime) / 1000}s`);
+    this.say(`\n✅ Connection phase completed in ${(connectionPhaseEnd - startTime) / 1000}s`);
     
     // Keep connections alive for test duration
     if (this.config.testDuration > 0) {
-      console.log(`\n⏱️  Keeping connections alive for ${this.config.testDuration} seconds...`);
+      this.say(`\n⏱️  Keeping connections alive for ${this.config.testDuration} seconds...`);
       
       // Optionally send periodic messages during test
-      if (this.config.messageInterval > 0) {
+      if (this.config.messageInterval > 0 && (this.config.throughputFraction || 0) > 0) {
+        this.startThroughputWorkload();
+      } else if (this.config.messageInterval > 0) {
         await this.startMessageTesting();
       }
+
+      if ((this.config.fanoutRooms || 0) > 0) {
+        await this.startFanoutWorkload();
+      }
       
+      this.setStage('holding', this.config.testDuration);
       await new Promise(resolve => setTimeout(resolve, this.config.testDuration * 1000));
+      await this.stopThroughputWorkload();
+      await this.stopFanoutWorkload();
     }
 
     // Disconnect all clients
@@ -429,36 +1133,61 @@ class ConnectionTester {
   }
 
   private async createConnection(index: number): Promise<void> {
-    const client = new SocketClient(`client-${index}`, this.logger, this.handleDisconnection);
+    const clientId = `${this.clientIdPrefix}client-${index}`;
+    const client = new SocketClient(clientId, this.logger, this.handleDisconnection, this.handleLatency, this.handleReconnect, this.handleUpgrade);
     this.clients.push(client);
 
+    let headers: Record<string, string>;
+    try {
+      headers = await this.authProvider.credentials(index);
+    } catch (error) {
+      // Never reached the server: there were no credentials to present
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.logError(clientId, 'AUTH_ERROR', `No credentials: ${message}`, { provider: this.authProvider.description });
+      this.recordResult({
+        success: false,
+        connectionTime: 0,
+        startedAt: new Date(),
+        errorMessage: message,
+        failureKind: 'auth',
+        retryCount: 0,
+        finalAttempt: true
+      });
+      return;
+    }
+
     try {
-      const headers: Record<string, string> = {};
-      headers.authorization = this.config.token;
-      headers.companyid = this.config.companyId;
+      // Lets the server attribute the connection to this run
+      if (this.config.runId) {
+        headers[RUN_ID_HEADER] = this.config.runId;
+      }
       
       const maxRetries = this.config.maxRetries || 3;
       const retryDelay = this.config.retryDelay || 1000;
       
       const result = await client.connect(
-        this.config.serverHost, 
-        this.config.serverPort, 
-        this.config.headers || headers,
+        this.target,
+        headers,
         maxRetries,
-        retryDelay
+        retryDelay,
+        this.config.reconnection,
+        async () => {
+          const fresh = await this.authProvider.credentials(index);
+          return this.config.runId ? { ...fresh, [RUN_ID_HEADER]: this.config.runId } : fresh;
+        }
       );
       
       // Set initial active status
       result.isActive = result.success;
-      this.results.push(result);
+      this.recordResult(result);
+      this.resultsByClient.set(clientId, result);
 
       if (result.success) {
         this.activeConnections++;
+        this.peakActiveConnections = Math.max(this.peakActiveConnections, this.activeConnections);
         
-        if (this.results.length % 100 === 0) {
-          const successful = this.results.filter(r => r.success).length;
-          const failed = this.results.filter(r => !r.success).length;
-          console.log(`Progress: ${this.results.length}/${this.config.targetConnections} (✅ ${successful}, ❌ ${failed}, 🔄 Active: ${this.activeConnections})`);
+        if (this.config.verbose && this.results.length % 100 === 0) {
+          console.log(`Progress: ${this.results.length}/${this.config.targetConnections} (✅ ${this.succeededCount}, ❌ ${this.failedCount}, 🔄 Active: ${this.activeConnections})`);
         }
         
         // Log successful connection with retry info
@@ -470,18 +1199,211 @@ class ConnectionTester {
       }
     } catch (error) {
       // console.error(`❌ Error creating connection ${index}:`, error);
-      this.results.push({
+      this.recordResult({
         success: false,
         connectionTime: 0,
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        failureKind: 'transport',
         retryCount: this.config.maxRetries || 3,
         finalAttempt: true
       });
     }
   }
 
+  private recordResult(result: ConnectionResult): void {
+    this.results.push(result);
+    if (result.success) {
+      this.succeededCount++;
+      return;
+    }
+
+    this.failedCount++;
+    // Group "Failed after N attempts. Last error: X" by X
+    const message = (result.errorMessage || 'Unknown error').replace(/^.*Last error: /, '');
+    this.errorCounts.set(message, (this.errorCounts.get(message) || 0) + 1);
+  }
+
+  /**
+   * Live counters for the progress view. Rate and latency cover the last few
+   * seconds; latency keeps its previous value while no round trips complete.
+   */
+  public getProgress(): RunProgress {
+    const now = Date.now();
+    this.rateSamples.push({ time: now, succeeded: this.succeededCount });
+    while (this.rateSamples.length > 1 && now - this.rateSamples[0].time > 5000) {
+      this.rateSamples.shift();
+    }
+    const oldest = this.rateSamples[0];
+    const rate = now > oldest.time ? ((this.succeededCount - oldest.succeeded) / (now - oldest.time)) * 1000 : 0;
+
+    if (this.progressLatency.getTotalCount() > 0) {
+      this.lastProgressLatency = {
+        p50: this.progressLatency.getValueAtPercentile(50),
+        p90: this.progressLatency.getValueAtPercentile(90),
+        p99: this.progressLatency.getValueAtPercentile(99)
+      };
+      this.progressLatency = new LatencyHistogram();
+    }
+
+    let topError: RunProgress['topError'];
+    this.errorCounts.forEach((count, message) => {
+      if (!topError || count > topError.count) topError = { message, count };
+    });
+
+    const remaining = this.stageEndsAt !== null ? Math.max(0, Math.ceil((this.stageEndsAt - now) / 1000)) : null;
+    return {
+      stage: remaining !== null ? `${this.stage} (${remaining}s left)` : this.stage,
+      target: this.config.targetConnections,
+      attempted: this.clients.length,
+      succeeded: this.succeededCount,
+      failed: this.failedCount,
+      active: this.activeConnections,
+      retrying: this.clients.filter(client => client.isRetrying()).length,
+      dropped: this.spontaneousDisconnections,
+      rate,
+      latency: this.lastProgressLatency,
+      topError
+    };
+  }
+
+  private setStage(stage: string, durationSeconds?: number): void {
+    this.stage = stage;
+    this.stageEndsAt = durationSeconds ? Date.now() + durationSeconds * 1000 : null;
+  }
+
+  // Console output during a run goes above the live progress view when it is shown
+  private say(message: string): void {
+    if (this.progressView) {
+      this.progressView.log(message);
+    } else {
+      console.log(message);
+    }
+  }
+
+  private startProgress(): void {
+    if (!this.progressView) return;
+    this.logger.setPrinter(message => this.say(message));
+    this.progressView.start();
+  }
+
+  private stopProgress(): void {
+    if (!this.progressView) return;
+    this.progressView.stop();
+    this.logger.setPrinter(null);
+  }
+
+  /**
+   * Walk through the load phases with this single tester: ramp the active
+   * connection count to each phase's target, hold, and record per-phase stats.
+   */
+  private async runLoadProfile(profile: LoadPhase[]): Promise<void> {
+    console.log(`
+📈 Running load profile with ${profile.length} phases
+├─ Server: ${describeTarget(this.target)}
+└─ Phases: ${profile.map(p => `${p.name || '?'}→${p.target}`).join(', ')}
+    `);
+
+    for (let i = 0; i < profile.length; i++) {
+      const phase = profile[i];
+      const name = phase.name || `phase-${i + 1}`;
+      this.say(`\n📈 Phase ${i + 1}/${profile.length} ${name}: → ${phase.target} connections over ${phase.rampSeconds}s, hold ${phase.holdSeconds}s`);
+      this.setStage(`${name} ramp`, phase.rampSeconds);
+
+      const latency = new LatencyRecorder();
+      this.currentPhaseLatency = latency;
+      const phaseStart = Date.now();
+      const before = {
+        results: this.results.length,
+        active: this.activeConnections,
+        spontaneous: this.spontaneousDisconnections,
+        closed: this.rampDownClosed
+      };
+
+      await this.rampTo(phase.target, phase.rampSeconds);
+      if (phase.holdSeconds > 0) {
+        this.setStage(`${name} hold`, phase.holdSeconds);
+        await new Promise(resolve => setTimeout(resolve, phase.holdSeconds * 1000));
+      }
+
+      const phaseResults = this.results.slice(before.results);
+      const succeeded = phaseResults.filter(r => r.success);
+      const result: PhaseResult = {
+        name,
+        target: phase.target,
+        duration: (Date.now() - phaseStart) / 1000,
+        startActive: before.active,
+        endActive: this.activeConnections,
+        attempted: phaseResults.length,
+        succeeded: succeeded.length,
+        failed: phaseResults.length - succeeded.length,
+        closed: this.rampDownClosed - before.closed,
+        spontaneousDisconnects: this.spontaneousDisconnections - before.spontaneous,
+        averageConnectionTime: succeeded.length > 0 ? succeeded.reduce((sum, r) => sum + r.connectionTime, 0) / succeeded.length : 0,
+        latency: latency.getReport()
+      };
+
+      this.phases.push({ result, latency });
+      this.currentPhaseLatency = null;
+
+      this.say(`✅ Phase ${name}: active ${result.endActive}/${phase.target} (✅ ${result.succeeded}, ❌ ${result.failed}, ⚠️  ${result.spontaneousDisconnects} dropped)`);
+      this.logger.logInfo('PHASE_COMPLETE', `Phase ${name} finished with ${result.endActive}/${phase.target} active connections`, result);
+    }
+  }
+
+  /**
+   * Open or close connections so the active count moves to `target`, spread
+   * evenly over `rampSeconds` (0 = all at once, i.e. a spike).
+   */
+  private async rampTo(target: number, rampSeconds: number): Promise<void> {
+    const delta = target - this.activeConnections;
+    if (delta === 0) return;
+
+    const ticks = Math.max(1, Math.ceil(rampSeconds));
+    const perTick = shard(Math.abs(delta), ticks);
+    const tickMs = (rampSeconds * 1000) / ticks;
+    const pending: Promise<void>[] = [];
+
+    for (let t = 0; t < ticks; t++) {
+      if (delta > 0) {
+        for (let j = 0; j < perTick[t]; j++) {
+          pending.push(this.createConnection(this.nextClientIndex++));
+        }
+      } else {
+        this.closeConnections(perTick[t]);
+      }
+
+      if (t < ticks - 1) {
+        await new Promise(resolve => setTimeout(resolve, tickMs));
+      }
+    }
+
+    // Connections still in their handshake or retries belong to this phase
+    await Promise.all(pending);
+  }
+
+  // Close the most recently opened active connections first
+  private closeConnections(count: number): void {
+    let closed = 0;
+    for (let i = this.clients.length - 1; i >= 0 && closed < count; i--) {
+      const client = this.clients[i];
+      const result = this.resultsByClient.get(client.getClientId());
+      if (!result || !result.isActive) continue;
+
+      result.isActive = false;
+      result.disconnectedAt = new Date();
+      result.disconnectionReason = 'ramp_down';
+      result.connectionDuration = client.getConnectedDuration();
+      result.spontaneousDisconnect = false;
+
+      client.disconnect();
+      this.activeConnections = Math.max(0, this.activeConnections - 1);
+      this.rampDownClosed++;
+      closed++;
+    }
+  }
+
   private async startMessageTesting(): Promise<void> {
-    console.log(`\n📨 Starting message testing (interval: ${this.config.messageInterval}ms)`);
+    this.say(`\n📨 Starting message testing (interval: ${this.config.messageInterval}ms)`);
     
     const connectedClients = this.clients.filter(client => client.isConnected());
     
@@ -494,8 +1416,10 @@ class ConnectionTester {
 
       for (const client of randomClients) {
         try {
-          await client.sendPing();
-          await client.sendTestMessage({ content: this.config.message, size: this.config.messageSize, timestamp: Date.now() });
+          const payload = { content: this.config.message, size: this.config.messageSize, timestamp: Date.now() };
+          await client.sendPing(this.config.messageInterval);
+          await client.sendBenchmarkData(payload, this.config.messageInterval);
+          await client.sendTestMessage(payload, this.config.messageInterval);
         } catch (error) {
           // Ignore ping errors during stress test
           // console.log(`⚠️  Ping error for ${client['clientId']}:`, error);
@@ -509,18 +1433,129 @@ class ConnectionTester {
     }, this.config.testDuration * 1000);
   }
 
+  private startThroughputWorkload(): void {
+    const connectedClients = this.clients.filter(client => client.isConnected());
+    const fraction = Math.min(1, Math.max(0, this.config.throughputFraction || 0));
+    const count = Math.ceil(connectedClients.length * fraction);
+
+    this.throughputClients = connectedClients
+      .sort(() => 0.5 - Math.random())
+      .slice(0, count);
+
+    this.say(`\n📦 Starting throughput workload: ${count} clients × ${this.config.messageSize} bytes every ${this.config.messageInterval}ms`);
+    this.logger.logInfo('THROUGHPUT_START', `${count} clients streaming ${this.config.messageSize} byte messages every ${this.config.messageInterval}ms`);
+
+    this.throughputStartTime = Date.now();
+    this.throughputClients.forEach(client => {
+      client.startThroughput(this.config.messageSize, this.config.messageInterval, Math.random() * this.config.messageInterval);
+    });
+  }
+
+  /**
+   * Spread connected clients round-robin across rooms, then have publishers
+   * (and optionally the server) push messages into every room.
+   */
+  private async startFanoutWorkload(): Promise<void> {
+    const roomCount = this.config.fanoutRooms || 0;
+    const publishersPerRoom = this.config.fanoutPublishers ?? 1;
+    const serverRate = this.config.fanoutServerRate || 0;
+    const connectedClients = this.clients.filter(client => client.isConnected());
+
+    // Room names carry the client id prefix, so every room and all of its publishers live in this tester
+    connectedClients.forEach((client, i) => {
+      const room = `bench-room-${this.clientIdPrefix}${i % roomCount}`;
+      const members = this.fanoutRooms.get(room) || [];
+      members.push(client);
+      this.fanoutRooms.set(room, members);
+    });
+
+    this.say(`\n📣 Starting fan-out workload: ${connectedClients.length} clients in ${this.fanoutRooms.size} rooms, ${publishersPerRoom} publisher(s)/room${serverRate > 0 ? `, server publishing ${serverRate} msg/s/room` : ''}`);
+
+    const joins: Promise<void>[] = [];
+    this.fanoutRooms.forEach((members, room) => {
+      members.forEach(client => joins.push(client.joinRoom(room).catch(() => {})));
+    });
+    await Promise.all(joins);
+
+    const serverPublishers: Promise<void>[] = [];
+    this.fanoutRooms.forEach((members, room) => {
+      if (this.config.messageInterval > 0) {
+        members.slice(0, publishersPerRoom).forEach(client => {
+          const from = client.getPublishedCount();
+          this.fanoutPublishers.push({ room, origin: client.getClientId(), from, to: () => client.getPublishedCount() });
+          client.startPublishing(room, this.config.messageSize, this.config.messageInterval, Math.random() * this.config.messageInterval);
+        });
+      }
+      if (serverRate > 0 && members.length > 0) {
+        serverPublishers.push(members[0].requestServerPublisher(room, serverRate, this.config.messageSize, this.config.testDuration).then(from => {
+          // Until publish-stop reports the final count, the highest sequence any member saw stands in
+          const publisher: FanoutPublisher = {
+            room,
+            origin: 'server',
+            from: from ?? 0,
+            to: () => Math.max(...members.map(member => member.getLastSeen(room, 'server')))
+          };
+          this.fanoutPublishers.push(publisher);
+        }));
+      }
+    });
+    await Promise.all(serverPublishers);
+
+    this.logger.logInfo('FANOUT_START', `${connectedClients.length} clients joined ${this.fanoutRooms.size} rooms`);
+  }
+
+  private async stopFanoutWorkload(): Promise<void> {
+    if (this.fanoutRooms.size === 0) return;
+
+    const stops: Promise<void>[] = [];
+    this.fanoutRooms.forEach((members, room) => {
+      members.forEach(client => client.stopPublishing());
+      const publisher = this.fanoutPublishers.find(p => p.room === room && p.origin === 'server');
+      if (publisher) {
+        stops.push(members[0].stopServerPublisher(room).then(published => {
+          // A publisher that already ran out its duration reports 0; the members' view is the fallback
+          if (published) {
+            publisher.to = () => published;
+          }
+        }));
+      }
+    });
+    await Promise.all(stops);
+
+    // Let the last messages reach their recipients
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
+  /**
+   * Stop sending and give in-flight messages a moment to be acknowledged so
+   * they are not counted as lost.
+   */
+  private async stopThroughputWorkload(drainTimeoutMs: number = 5000): Promise<void> {
+    if (this.throughputStartTime === 0 || this.throughputEndTime > 0) return;
+
+    this.throughputClients.forEach(client => client.stopThroughput());
+    this.throughputEndTime = Date.now();
+
+    const deadline = Date.now() + drainTimeoutMs;
+    while (Date.now() < deadline && this.throughputClients.some(client => client.getPendingRequestCount() > 0)) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
   private async disconnectAll(): Promise<void> {
-    console.log('\n🔌 Disconnecting all clients...');
+    this.setStage('disconnecting');
+    this.say('\n🔌 Disconnecting all clients...');
     this.logger.logInfo('DISCONNECT_ALL', `Starting disconnection of ${this.clients.length} clients (${this.activeConnections} still active)`);
     
-    const disconnectPromises = this.clients.map((client, index) => {
+    const disconnectPromises = this.clients.map((client) => {
       return new Promise<void>((resolve) => {
         // Update the result to mark as manually disconnected if still active
-        if (this.results[index] && this.results[index].isActive) {
-          this.results[index].isActive = false;
-          this.results[index].disconnectedAt = new Date();
-          this.results[index].disconnectionReason = 'manual_disconnect';
-          this.results[index].spontaneousDisconnect = false;
+        const result = this.resultsByClient.get(client.getClientId());
+        if (result && result.isActive) {
+          result.isActive = false;
+          result.disconnectedAt = new Date();
+          result.disconnectionReason = 'manual_disconnect';
+          result.spontaneousDisconnect = false;
         }
         
         client.disconnect();
@@ -535,7 +1570,7 @@ class ConnectionTester {
     this.activeConnections = 0;
     
     // Log ping statistics summary
-    const pingStats = this.clients.map(client => client.getPingStats());
+    const pingStats = this.getPingStats();
     const totalPings = pingStats.reduce((sum, stat) => sum + stat.total, 0);
     const totalFailedPings = pingStats.reduce((sum, stat) => sum + stat.failed, 0);
     const avgSuccessRate = pingStats.length > 0 ? 
@@ -544,13 +1579,231 @@ class ConnectionTester {
     this.logger.logInfo('PING_SUMMARY', `Ping statistics: ${totalPings} total pings, ${totalFailedPings} failed, ${avgSuccessRate.toFixed(1)}% average success rate`);
     this.logger.logInfo('DISCONNECT_ALL', `All clients disconnected successfully. Spontaneous disconnections: ${this.spontaneousDisconnections}`);
     
-    console.log(`✅ All clients disconnected (${this.spontaneousDisconnections} were spontaneous disconnections)`);
+    this.say(`✅ All clients disconnected (${this.spontaneousDisconnections} were spontaneous disconnections)`);
   }
 
   public getResults(): ConnectionResult[] {
     return this.results;
   }
 
+  /**
+   * Throughput totals for this process merged with any absorbed from workers,
+   * or null when the workload did not run anywhere.
+   */
+  public getThroughputResults(): ThroughputResults | null {
+    const parts = [...this.workerThroughput];
+
+    if (this.throughputStartTime > 0) {
+      const totals = this.throughputClients
+        .map(client => client.getThroughputStats())
+        .reduce((acc, stats) => ({
+          sent: acc.sent + stats.sent,
+          acknowledged: acc.acknowledged + stats.acknowledged,
+          lost: acc.lost + stats.lost,
+          outOfOrder: acc.outOfOrder + stats.outOfOrder,
+          bytesSent: acc.bytesSent + stats.bytesSent,
+          bytesReceived: acc.bytesReceived + stats.bytesReceived
+        }), { sent: 0, acknowledged: 0, lost: 0, outOfOrder: 0, bytesSent: 0, bytesReceived: 0 });
+
+      parts.push(withRates({
+        ...totals,
+        clients: this.throughputClients.length,
+        duration: ((this.throughputEndTime || Date.now()) - this.throughputStartTime) / 1000,
+        messageSize: this.config.messageSize,
+        messageInterval: this.config.messageInterval,
+        messagesPerSecond: 0,
+        bytesSentPerSecond: 0,
+        bytesReceivedPerSecond: 0
+      }));
+    }
+
+    if (parts.length === 0) return null;
+
+    // Workers run concurrently, so totals add up while the duration does not
+    return withRates(parts.reduce((acc, part) => ({
+      ...acc,
+      sent: acc.sent + part.sent,
+      acknowledged: acc.acknowledged + part.acknowledged,
+      lost: acc.lost + part.lost,
+      outOfOrder: acc.outOfOrder + part.outOfOrder,
+      bytesSent: acc.bytesSent + part.bytesSent,
+      bytesReceived: acc.bytesReceived + part.bytesReceived,
+      clients: acc.clients + part.clients,
+      duration: Math.max(acc.duration, part.duration)
+    })));
+  }
+
+  /**
+   * Fan-out delivery totals for this process merged with any absorbed from
+   * workers, or null when the workload did not run anywhere.
+   */
+  public getFanoutResults(): FanoutResults | null {
+    const parts = [...this.workerFanout];
+
+    if (this.fanoutRooms.size > 0) {
+      const members = Array.from(this.fanoutRooms.values()).flat();
+      const perRecipient = members.map(client => client.getFanoutStats(this.fanoutPublishers));
+      const completenessOf = (stats: FanoutStats) => stats.expected > 0 ? (stats.received / stats.expected) * 100 : 100;
+
+      parts.push(withCompleteness({
+        rooms: this.fanoutRooms.size,
+        members: members.length,
+        published: members.reduce((sum, client) => sum + client.getPublishedCount(), 0),
+        received: perRecipient.reduce((sum, stats) => sum + stats.received, 0),
+        expected: perRecipient.reduce((sum, stats) => sum + stats.expected, 0),
+        missing: perRecipient.reduce((sum, stats) => sum + stats.missing, 0),
+        completeness: 0,
+        incompleteRecipients: perRecipient.filter(stats => stats.missing > 0).length,
+        minRecipientCompleteness: perRecipient.reduce((min, stats) => Math.min(min, completenessOf(stats)), 100)
+      }));
+    }
+
+    if (parts.length === 0) return null;
+
+    // Every worker has its own rooms
+    return withCompleteness(parts.reduce((acc, part) => ({
+      ...acc,
+      rooms: acc.rooms + part.rooms,
+      members: acc.members + part.members,
+      published: acc.published + part.published,
+      received: acc.received + part.received,
+      expected: acc.expected + part.expected,
+      missing: acc.missing + part.missing,
+      incompleteRecipients: acc.incompleteRecipients + part.incompleteRecipients,
+      minRecipientCompleteness: Math.min(acc.minRecipientCompleteness, part.minRecipientCompleteness)
+    })));
+  }
+
+  /**
+   * Per-phase statistics merged across this process and any workers. Phase
+   * lists line up by index because every worker runs a shard of one profile.
+   */
+  private getMergedPhases(): Array<{ result: PhaseResult; latency: LatencyRecorder }> | null {
+    const sources: PhaseSnapshot[][] = [
+      this.phases.map(p => ({ result: p.result, latency: p.latency.toSnapshot() })),
+      ...this.workerPhases
+    ].filter(source => source.length > 0);
+
+    if (sources.length === 0) return null;
+
+    return sources[0].map((_, i) => {
+      const parts = sources.map(source => source[i]).filter(Boolean);
+      const latency = new LatencyRecorder();
+      parts.forEach(part => latency.merge(part.latency));
+
+      const sum = (pick: (r: PhaseResult) => number) => parts.reduce((acc, part) => acc + pick(part.result), 0);
+      const succeeded = sum(r => r.succeeded);
+
+      return {
+        latency,
+        result: {
+          name: parts[0].result.name,
+          target: sum(r => r.target),
+          duration: Math.max(...parts.map(part => part.result.duration)),
+          startActive: sum(r => r.startActive),
+          endActive: sum(r => r.endActive),
+          attempted: sum(r => r.attempted),
+          succeeded,
+          failed: sum(r => r.failed),
+          closed: sum(r => r.closed),
+          spontaneousDisconnects: sum(r => r.spontaneousDisconnects),
+          averageConnectionTime: succeeded > 0 ? sum(r => r.averageConnectionTime * r.succeeded) / succeeded : 0,
+          latency: latency.getReport()
+        }
+      };
+    });
+  }
+
+  /**
+   * Reconnection outcomes for this process and any workers, or null when
+   * reconnection was not enabled.
+   */
+  public getReconnectionResults(): ReconnectionResults | null {
+    if (!this.config.reconnection) return null;
+    const replayed = this.clients.reduce((sum, client) => sum + client.getReplayedCount(), 0) + this.workerReplayed;
+    return summarizeReconnections([...this.reconnectEvents, ...this.workerReconnects], replayed);
+  }
+
+  public getPhaseResults(): PhaseResult[] | null {
+    const phases = this.getMergedPhases();
+    return phases ? phases.map(p => p.result) : null;
+  }
+
+  /**
+   * Highest number of simultaneously active connections. Worker peaks are
+   * summed, which is an upper bound since they need not coincide.
+   */
+  public getPeakActiveConnections(): number {
+    return this.peakActiveConnections + this.workerPeakActive;
+  }
+
+  public getPingStats(): PingStats[] {
+    return [...this.clients.map(client => client.getPingStats()), ...this.workerPingStats];
+  }
+
+  /**
+   * Latency histograms of every client, plus any absorbed from workers.
+   */
+  public getLatencyRecorder(): LatencyRecorder {
+    const recorder = new LatencyRecorder();
+    this.clients.forEach(client => recorder.add(client.getLatencyRecorder()));
+    recorder.add(this.workerLatency);
+    return recorder;
+  }
+
+  public getSnapshot(): TesterSnapshot {
+    return {
+      results: this.results,
+      pingStats: this.getPingStats(),
+      latency: this.getLatencyRecorder().toSnapshot(),
+      throughput: this.getThroughputResults(),
+      fanout: this.getFanoutResults(),
+      phases: this.getMergedPhases()?.map(p => ({ result: p.result, latency: p.latency.toSnapshot() })) || null,
+      reconnects: [...this.reconnectEvents, ...this.workerReconnects],
+      replayed: this.clients.reduce((sum, client) => sum + client.getReplayedCount(), 0) + this.workerReplayed,
+      peakActive: this.getPeakActiveConnections()
+    };
+  }
+
+  /**
+   * Merge results collected by a worker thread so that printSummary and the
+   * benchmark report cover the whole run rather than just this process.
+   */
+  public absorbResults(snapshot: TesterSnapshot): void {
+    this.results.push(...snapshot.results);
+    this.workerPingStats.push(...snapshot.pingStats);
+    this.workerLatency.merge(snapshot.latency);
+    if (snapshot.throughput) {
+      this.workerThroughput.push(snapshot.throughput);
+    }
+    if (snapshot.fanout) {
+      this.workerFanout.push(snapshot.fanout);
+    }
+    if (snapshot.phases) {
+      this.workerPhases.push(snapshot.phases);
+    }
+    this.workerReconnects.push(...snapshot.reconnects);
+    this.workerReplayed += snapshot.replayed;
+    this.workerPeakActive += snapshot.peakActive;
+  }
+
+  /**
+   * A worker or agent that never reported back: its whole slice counts as
+   * failed connections and the run is marked partial.
+   */
+  public recordFailedGenerator(name: string, connections: number, error: string): void {
+    this.failedGenerators.push(name);
+    const errorMessage = `${name} failed: ${error}`;
+    for (let i = 0; i < connections; i++) {
+      this.results.push({ success: false, connectionTime: 0, errorMessage, failureKind: 'transport', isActive: false });
+    }
+  }
+
+  // Workers or agents whose connections are missing from the results
+  public getFailedGenerators(): string[] {
+    return this.failedGenerators;
+  }
+
   public getActiveConnectionCount(): number {
     return this.activeConnections;
   }
@@ -598,12 +1851,34 @@ class ConnectionTester {
     const successAfterRetries = successful.filter(r => (r.retryCount || 0) > 0);
     
     // Ping statistics
-    const pingStats = this.clients.map(client => client.getPingStats());
+    const pingStats = this.getPingStats();
     const totalPings = pingStats.reduce((sum, stat) => sum + stat.total, 0);
     const totalFailedPings = pingStats.reduce((sum, stat) => sum + stat.failed, 0);
     const avgPingSuccessRate = pingStats.length > 0 ? 
       pingStats.reduce((sum, stat) => sum + stat.successRate, 0) / pingStats.length : 0;
     
+    // Throughput statistics
+    const throughput = this.getThroughputResults();
+    const throughputSection = throughput ? `
+├─────────────────────────────────────────────────────────────┤
+│ THROUGHPUT STATISTICS                                       │
+├─────────────────────────────────────────────────────────────┤
+│ Messages Sent:      ${throughput.sent.toString().padStart(8)} │ Acknowledged:  ${throughput.acknowledged.toString().padStart(8)} │
+│ Lost:               ${throughput.lost.toString().padStart(8)} │ Out of Order:  ${throughput.outOfOrder.toString().padStart(8)} │
+│ Msgs/sec (acked):   ${throughput.messagesPerSecond.toFixed(1).padStart(8)} │ Clients:       ${throughput.clients.toString().padStart(8)} │
+│ Sent KB/s:          ${(throughput.bytesSentPerSecond / 1024).toFixed(1).padStart(8)} │ Recv KB/s:     ${(throughput.bytesReceivedPerSecond / 1024).toFixed(1).padStart(8)} │` : '';
+
+    // Reconnection statistics
+    const reconnection = this.getReconnectionResults();
+    const reconnectionSection = reconnection ? `
+├─────────────────────────────────────────────────────────────┤
+│ RECONNECTION STATISTICS                                     │
+├─────────────────────────────────────────────────────────────┤
+│ Drops:              ${reconnection.drops.toString().padStart(8)} │ Reconnected:   ${reconnection.reconnected.toString().padStart(8)} │
+│ Sessions Recovered: ${reconnection.recovered.toString().padStart(8)} │ Gave Up:       ${reconnection.gaveUp.toString().padStart(8)} │
+│ Reconnect p50:      ${reconnection.timeToReconnect.p50.toFixed(0).padStart(6)}ms │ p99:         ${reconnection.timeToReconnect.p99.toFixed(0).padStart(8)}ms │
+│ Replayed Messages:  ${reconnection.replayed.toString().padStart(8)} │ Storms:        ${reconnection.storms.length.toString().padStart(8)} │` : '';
+
     // Log statistics
     const logStats = this.logger.getLogStats();
 
@@ -629,7 +1904,7 @@ class ConnectionTester {
 │ PING STATISTICS                                             │
 ├─────────────────────────────────────────────────────────────┤
 │ Total Pings:        ${totalPings.toString().padStart(8)} │ Failed Pings:  ${totalFailedPings.toString().padStart(8)} │
-│ Ping Success Rate:   ${avgPingSuccessRate.toFixed(1).padStart(7)}% │                       │
+│ Ping Success Rate:   ${avgPingSuccessRate.toFixed(1).padStart(7)}% │                       │${throughputSection}${reconnectionSection}
 ├─────────────────────────────────────────────────────────────┤
 │ LOGGING STATISTICS                                          │
 ├─────────────────────────────────────────────────────────────┤
@@ -673,9 +1948,10 @@ class ConnectionTester {
       }
     }
 
-    if (failed.length > 0) {
-      console.log('\n❌ Failed Connection Errors:');
-      const errorCounts = failed.reduce((acc, result) => {
+    const printErrors = (title: string, results: ConnectionResult[]) => {
+      if (results.length === 0) return;
+      console.log(title);
+      const errorCounts = results.reduce((acc, result) => {
         const error = result.errorMessage || 'Unknown error';
         acc[error] = (acc[error] || 0) + 1;
         return acc;
@@ -684,7 +1960,10 @@ class ConnectionTester {
       Object.entries(errorCounts).forEach(([error, count]) => {
         console.log(`   ${error}: ${count} occurrences`);
       });
-    }
+    };
+    // Refused or missing credentials are listed apart from network and server trouble
+    printErrors('\n🔑 Authentication Failures:', failed.filter(result => result.failureKind === 'auth'));
+    printErrors('\n❌ Failed Connection Errors:', failed.filter(result => result.failureKind !== 'auth'));
 
     if (connectionsWithRetries.length > 0) {
       console.log('\n🔄 Retry Statistics:');
@@ -699,16 +1978,17 @@ class ConnectionTester {
       });
     }
     
-    console.log('\n📂 Log files created:');
+    console.log('\n📂 Log files created (JSON Lines, one entry per line):');
     console.log(`   ./logs/connections.log (${logStats.connectionLogs} entries)`);
     console.log(`   ./logs/errors.log (${logStats.errorLogs} entries)`);
     console.log(`   ./logs/pings.log (${logStats.pingLogs} entries)`);
+    console.log('   Summarize them with: node dist/benchmark.js logs analyze ./logs');
   }
 
   // Method to simulate random disconnections for testing
   public simulateRandomDisconnections(percentage: number = 10): void {
-    const connectedClients = this.clients.filter((_, index) => 
-      this.results[index]?.success && this.results[index]?.isActive
+    const connectedClients = this.clients.filter(client => 
+      this.resultsByClient.get(client.getClientId())?.isActive
     );
     
     const disconnectCount = Math.floor(connectedClients.length * (percentage / 100));
@@ -728,6 +2008,23 @@ class ConnectionTester {
   }
 }
 
+function withRates(results: ThroughputResults): ThroughputResults {
+  const duration = Math.max(results.duration, 0.001);
+  return {
+    ...results,
+    messagesPerSecond: results.acknowledged / duration,
+    bytesSentPerSecond: results.bytesSent / duration,
+    bytesReceivedPerSecond: results.bytesReceived / duration
+  };
+}
+
+function withCompleteness(results: FanoutResults): FanoutResults {
+  return {
+    ...results,
+    completeness: results.expected > 0 ? (results.received / results.expected) * 100 : 100
+  };
+}
+
 // Export for use in other modules
 export { ConnectionTester, SocketClient };
 
@@ -738,17 +2035,28 @@ if (require.main === module) {
     connectionRate: parseInt(process.argv[3]) || 50,
     testDuration: parseInt(process.argv[4]) || 30,
     messageInterval: parseInt(process.argv[5]) || 1000,
-    messageSize: 1024,
+    messageSize: parseInt(process.env.MESSAGE_SIZE || '1024'),
+    throughputFraction: parseFloat(process.env.THROUGHPUT_FRACTION || '0'),
     message: 'Test message from client - custom',
     serverHost: process.env.SERVER_HOST || 'localhost',
     serverPort: parseInt(process.env.SERVER_PORT || '3000'),
+    serverScheme: parseScheme(process.env.SERVER_SCHEME || 'http'),
+    socketPath: process.env.SOCKET_PATH || '/socket.io',
+    namespace: process.env.SOCKET_NAMESPACE || '/',
+    transports: parseTransports(process.env.SOCKET_TRANSPORTS || 'websocket,polling'),
+    tls: {
+      rejectUnauthorized: process.env.TLS_REJECT_UNAUTHORIZED !== '0',
+      caFile: process.env.TLS_CA_FILE
+    },
     maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
     retryDelay: parseInt(process.env.RETRY_DELAY || '1000'),
+    verbose: process.env.VERBOSE === '1',
+    reconnection: process.env.RECONNECT === '1' ? DEFAULT_RECONNECTION : undefined,
     companyId: process.env.COMPANY_ID || '11110000',
     token: process.env.AUTH_TOKEN || 'your_token_here'
   };
 
-  const tester = new ConnectionTester(config);
+  const tester = new ConnectionTester(config, { progress: true });
   
   tester.testConnections()
     .then(() => {
@@ -0,0 +1,212 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import {
+  BenchmarkExport,
+  ComparisonGroup,
+  ComparisonResult,
+  ComparisonRow,
+  LatencyCategory
+} from './types';
+
+// Exit code of `benchmark compare` when a metric regressed beyond its tolerance
+export const REGRESSION_EXIT_CODE = 20;
+
+export const DEFAULT_TOLERANCES: Record<ComparisonGroup, number> = {
+  rates: 1, // percentage points
+  latency: 10, // %
+  resources: 10, // %
+  throughput: 10 // %
+};
+
+interface MetricDefinition {
+  metric: string;
+  group: ComparisonGroup;
+  unit: string;
+  higherIsBetter: boolean;
+  extract: (results: BenchmarkExport) => number | undefined;
+}
+
+const LATENCY_CATEGORIES: LatencyCategory[] = ['ping', 'message', 'broadcast', 'fanout'];
+const PERCENTILES: Array<'p50' | 'p90' | 'p99' | 'p999'> = ['p50', 'p90', 'p99', 'p999'];
+
+function percentOf(part: number | undefined, total: number | undefined): number | undefined {
+  if (part === undefined || !total) return undefined;
+  return (part / total) * 100;
+}
+
+const METRICS: MetricDefinition[] = [
+  { metric: 'Success rate', group: 'rates', unit: '%', higherIsBetter: true, extract: r => r.connectionSuccessRate },
+  { metric: 'Retention rate', group: 'rates', unit: '%', higherIsBetter: true, extract: r => r.connectionRetentionRate },
+  {
+    metric: 'Failed connections', group: 'rates', unit: '%', higherIsBetter: false,
+    extract: r => percentOf(r.failedConnections, (r.successfulConnections || 0) + (r.failedConnections || 0))
+  },
+  {
+    metric: 'Spontaneous disconnects', group: 'rates', unit: '%', higherIsBetter: false,
+    extract: r => percentOf(r.spontaneousDisconnections, r.successfulConnections)
+  },
+  { metric: 'Fan-out completeness', group: 'rates', unit: '%', higherIsBetter: true, extract: r => r.fanout?.completeness },
+  { metric: 'Connect time (avg)', group: 'latency', unit: 'ms', higherIsBetter: false, extract: r => r.averageConnectionTime },
+  { metric: 'Connect time (p99)', group: 'latency', unit: 'ms', higherIsBetter: false, extract: r => r.connectionTimeP99 },
+  ...LATENCY_CATEGORIES.flatMap(category => PERCENTILES.map<MetricDefinition>(percentile => ({
+    metric: `${category} ${percentile === 'p999' ? 'p99.9' : percentile}`,
+    group: 'latency',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: r => r.latency?.[category]?.[percentile]
+  }))),
+  {
+    metric: 'Memory per connection', group: 'resources', unit: ' KB', higherIsBetter: false,
+    extract: r => (r.peakMemoryUsage !== undefined && r.successfulConnections ? r.peakMemoryUsage / r.successfulConnections / 1024 : undefined)
+  },
+  { metric: 'Peak CPU', group: 'resources', unit: '%', higherIsBetter: false, extract: r => r.peakCpuUsage },
+  { metric: 'Messages/sec', group: 'throughput', unit: '', higherIsBetter: true, extract: r => r.throughput?.messagesPerSecond }
+];
+
+/**
+ * Read a file written by `benchmark run --output`.
+ */
+export function loadExport(file: string): BenchmarkExport {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read results file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || !data.config || typeof data.connectionSuccessRate !== 'number') {
+    throw new Error(`${file} does not look like a benchmark results export`);
+  }
+  return data as BenchmarkExport;
+}
+
+/**
+ * Parse `rates=0.5,latency=15` into tolerances, starting from the defaults.
+ */
+export function parseTolerances(spec: string | undefined): Record<ComparisonGroup, number> {
+  const tolerances = { ...DEFAULT_TOLERANCES };
+  if (!spec) return tolerances;
+
+  spec.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [group, value] = part.split('=');
+    if (!(group in tolerances)) {
+      throw new Error(`Unknown tolerance group "${group}" (expected one of: ${Object.keys(DEFAULT_TOLERANCES).join(', ')})`);
+    }
+    const tolerance = parseFloat(value);
+    if (!(tolerance >= 0)) {
+      throw new Error(`Tolerance for ${group} must be a number >= 0, got "${value}"`);
+    }
+    tolerances[group as ComparisonGroup] = tolerance;
+  });
+  return tolerances;
+}
+
+function compareMetric(definition: MetricDefinition, baseline: number, current: number, tolerance: number): ComparisonRow {
+  const delta = current - baseline;
+  const relative = baseline !== 0 ? (delta / Math.abs(baseline)) * 100 : null;
+  const worse = definition.higherIsBetter ? delta < 0 : delta > 0;
+
+  // Rates are judged in percentage points, everything else relative to the baseline
+  const change = definition.group === 'rates' ? Math.abs(delta) : relative === null ? (delta === 0 ? 0 : Infinity) : Math.abs(relative);
+  const status = change <= tolerance ? 'unchanged' : worse ? 'regression' : 'improvement';
+
+  return {
+    metric: definition.metric,
+    group: definition.group,
+    unit: definition.unit,
+    higherIsBetter: definition.higherIsBetter,
+    baseline,
+    current,
+    delta,
+    relative,
+    tolerance,
+    status
+  };
+}
+
+/**
+ * Align the metrics of two exports. Metrics missing from either side (a
+ * workload that only ran once, or an export from an older version) are skipped.
+ */
+export function compareResults(
+  baseline: BenchmarkExport,
+  current: BenchmarkExport,
+  tolerances: Record<ComparisonGroup, number> = DEFAULT_TOLERANCES,
+  files: { baseline: string; current: string } = { baseline: 'baseline', current: 'current' }
+): ComparisonResult {
+  const rows: ComparisonRow[] = [];
+  METRICS.forEach(definition => {
+    const before = definition.extract(baseline);
+    const after = definition.extract(current);
+    if (before === undefined || after === undefined || !Number.isFinite(before) || !Number.isFinite(after)) return;
+    rows.push(compareMetric(definition, before, after, tolerances[definition.group]));
+  });
+
+  // Older exports only have the distinct messages, so count those as one each
+  const breakdown = (results: BenchmarkExport) =>
+    results.errorBreakdown || Object.fromEntries((results.errors || []).map(message => [message, 1]));
+  const before = breakdown(baseline);
+  const after = breakdown(current);
+  const errors = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .map(message => ({ message, baseline: before[message] || 0, current: after[message] || 0 }))
+    .sort((a, b) => b.current - a.current || b.baseline - a.baseline);
+
+  return {
+    baselineFile: files.baseline,
+    currentFile: files.current,
+    tolerances,
+    rows,
+    errors,
+    regressions: rows.filter(row => row.status === 'regression').length
+  };
+}
+
+function formatValue(value: number, unit: string): string {
+  return `${value.toFixed(unit === '%' ? 2 : 1)}${unit}`;
+}
+
+export function printComparison(result: ComparisonResult, baseline: BenchmarkExport, current: BenchmarkExport): void {
+  console.log(chalk.green.bold(`
+📊 BENCHMARK COMPARISON
+═══════════════════════════════════════════════════════════════
+`));
+  const describe = (data: BenchmarkExport) =>
+    `${data.config.targetConnections.toLocaleString()} connections, ${data.exportedAt || 'unknown date'}${data.runId ? `, run ${data.runId}` : ''}`;
+  console.log(`Baseline: ${result.baselineFile} (${describe(baseline)})`);
+  console.log(`Current:  ${result.currentFile} (${describe(current)})`);
+  const t = result.tolerances;
+  console.log(chalk.gray(`Tolerance: rates ±${t.rates} pts, latency ±${t.latency}%, resources ±${t.resources}%, throughput ±${t.throughput}%\n`));
+
+  if (baseline.config.targetConnections !== current.config.targetConnections) {
+    console.log(chalk.yellow('⚠️  The runs targeted different connection counts; deltas may not be comparable\n'));
+  }
+
+  console.log(chalk.white.bold('METRICS:'));
+  console.log(`   ${'Metric'.padEnd(24)} ${'Baseline'.padStart(12)} ${'Current'.padStart(12)} ${'Delta'.padStart(12)} ${'Change'.padStart(9)}  Status`);
+  result.rows.forEach((row, index, rows) => {
+    const branch = index === rows.length - 1 ? '└─' : '├─';
+    const sign = row.delta > 0 ? '+' : '';
+    const change = row.relative === null ? 'n/a' : `${row.relative > 0 ? '+' : ''}${row.relative.toFixed(1)}%`;
+    const color = row.status === 'regression' ? chalk.red : row.status === 'improvement' ? chalk.green : chalk.white;
+    const label = row.status === 'regression' ? 'REGRESSION' : row.status === 'improvement' ? 'improved' : 'ok';
+    console.log(color(`${branch} ${row.metric.padEnd(24)} ${formatValue(row.baseline, row.unit).padStart(12)} ${formatValue(row.current, row.unit).padStart(12)} ${(sign + formatValue(row.delta, row.unit)).padStart(12)} ${change.padStart(9)}  ${label}`));
+  });
+  console.log('');
+
+  if (result.errors.length > 0) {
+    console.log(chalk.white.bold('ERRORS (failed connections):'));
+    result.errors.forEach((error, index, errors) => {
+      const branch = index === errors.length - 1 ? '└─' : '├─';
+      const color = error.baseline === 0 ? chalk.red : error.current === 0 ? chalk.green : chalk.white;
+      const note = error.baseline === 0 ? ' (new)' : error.current === 0 ? ' (resolved)' : '';
+      console.log(color(`${branch} ${error.baseline.toString().padStart(7)} → ${error.current.toString().padEnd(7)} ${error.message}${note}`));
+    });
+    console.log('');
+  }
+
+  if (result.regressions > 0) {
+    console.log(chalk.red.bold(`❌ ${result.regressions} metric(s) regressed beyond tolerance (exit code ${REGRESSION_EXIT_CODE})`));
+  } else {
+    console.log(chalk.green.bold('✅ No regressions beyond tolerance'));
+  }
+}
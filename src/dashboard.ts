@@ -0,0 +1,259 @@
+import chalk from 'chalk';
+import { ServerSnapshot, TimelineSample } from './types';
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+const SPARK_WIDTH = 40;
+
+export type ServerSample = ServerSnapshot & { timestamp: number };
+
+// What a running ConnectionTester reports to the live progress view
+export interface RunProgress {
+  stage: string; // e.g. "connecting", "holding 12/60s"
+  target: number;
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  active: number;
+  retrying: number; // Clients waiting on or making a retry attempt
+  dropped: number; // Spontaneous disconnections
+  rate: number; // Successful connections per second, recent
+  latency?: { p50: number; p90: number; p99: number }; // Recent round trips, ms
+  topError?: { message: string; count: number };
+}
+
+interface Series {
+  label: string;
+  values: number[];
+  format: (value: number) => string;
+  alert?: (value: number) => boolean; // Highlight the current value
+}
+
+/**
+ * Render the last `width` values as block characters scaled between the
+ * window's minimum and maximum.
+ */
+export function sparkline(values: number[], width: number = SPARK_WIDTH): string {
+  const window = values.slice(-width);
+  if (window.length === 0) return ''.padEnd(width);
+
+  const min = Math.min(...window);
+  const max = Math.max(...window);
+  const range = max - min;
+  const chars = window.map(value => {
+    const level = range > 0 ? Math.round(((value - min) / range) * (SPARK_CHARS.length - 1)) : value > 0 ? 3 : 0;
+    return SPARK_CHARS[level];
+  });
+  return chars.join('').padStart(width);
+}
+
+// Per-second change of a cumulative counter, clamped at 0 across server restarts
+function perSecond(samples: ServerSample[], counter: (sample: ServerSample) => number): number[] {
+  return samples.slice(1).map((sample, index) => {
+    const previous = samples[index];
+    const seconds = Math.max(0.001, (sample.timestamp - previous.timestamp) / 1000);
+    return Math.max(0, (counter(sample) - counter(previous)) / seconds);
+  });
+}
+
+const toMB = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+const count = (value: number): string => Math.round(value).toLocaleString();
+const rate = (value: number): string => `${value.toFixed(1)}/s`;
+const percent = (value: number): string => `${value.toFixed(1)}%`;
+const ms = (value: number): string => `${value.toFixed(1)} ms`;
+
+export function serverSeries(samples: ServerSample[]): Series[] {
+  const series: Series[] = [
+    { label: 'Active connections', values: samples.map(s => s.activeConnections), format: count },
+    { label: 'Connection rate', values: perSecond(samples, s => s.totalConnections), format: rate },
+    { label: 'Errors', values: perSecond(samples, s => s.failedConnections), format: rate, alert: value => value > 0 },
+    { label: 'Memory (RSS)', values: samples.map(s => s.rss), format: toMB },
+    { label: 'Heap used', values: samples.map(s => s.heapUsed), format: toMB },
+    { label: 'CPU (all cores)', values: samples.map(s => s.cpu), format: percent, alert: value => value > 80 }
+  ];
+
+  const eventLoop = samples.filter(s => s.eventLoopP99 !== undefined).map(s => s.eventLoopP99 as number);
+  if (eventLoop.length > 0) {
+    series.push({ label: 'Event loop p99', values: eventLoop, format: ms, alert: value => value > 100 });
+  }
+  return series;
+}
+
+export function clientSeries(timeline: TimelineSample[]): Series[] {
+  const defined = <T>(values: Array<T | undefined>): T[] => values.filter((value): value is T => value !== undefined);
+  const series: Series[] = [
+    { label: 'Active connections', values: defined(timeline.map(s => s.activeConnections)), format: count },
+    { label: 'Latency p99', values: defined(timeline.map(s => s.latency?.p99)), format: ms },
+    { label: 'Memory (RSS)', values: timeline.map(s => s.rss), format: toMB },
+    { label: 'CPU (one core)', values: timeline.map(s => s.cpu), format: percent, alert: value => value > 90 }
+  ];
+  return series.filter(s => s.values.length > 0);
+}
+
+/**
+ * One titled block of sparklines: label, history, current value and the
+ * maximum over the visible window.
+ */
+export function renderPanel(title: string, series: Series[], note?: string): string[] {
+  const lines = [chalk.white.bold(title)];
+  if (note) {
+    lines.push(chalk.gray(`  ${note}`));
+  }
+  if (series.every(s => s.values.length === 0)) {
+    lines.push(chalk.gray('  waiting for samples...'));
+    return lines;
+  }
+
+  series.forEach(s => {
+    const current = s.values.length > 0 ? s.values[s.values.length - 1] : 0;
+    const max = s.values.length > 0 ? Math.max(...s.values.slice(-SPARK_WIDTH)) : 0;
+    const value = s.format(current).padStart(12);
+    lines.push(`  ${s.label.padEnd(20)} ${chalk.cyan(sparkline(s.values))} ${s.alert?.(current) ? chalk.red(value) : value}  ${chalk.gray(`max ${s.format(max)}`)}`);
+  });
+  return lines;
+}
+
+export function renderProgress(progress: RunProgress): string[] {
+  const percentDone = progress.target > 0 ? (progress.attempted / progress.target) * 100 : 0;
+  const width = 30;
+  const filled = Math.min(width, Math.round((percentDone / 100) * width));
+  const bar = chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(width - filled));
+  const latency = progress.latency
+    ? `p50 ${progress.latency.p50.toFixed(1)}ms  p90 ${progress.latency.p90.toFixed(1)}ms  p99 ${progress.latency.p99.toFixed(1)}ms`
+    : chalk.gray('no round trips yet');
+
+  const lines = [
+    `${chalk.blue.bold('⏳ ' + progress.stage.padEnd(22))} ${bar} ${progress.attempted.toLocaleString()}/${progress.target.toLocaleString()} attempted`,
+    `   ✅ ${chalk.green(progress.succeeded.toLocaleString())}  ❌ ${(progress.failed > 0 ? chalk.red : chalk.white)(progress.failed.toLocaleString())}` +
+      `  🔄 active ${chalk.bold(progress.active.toLocaleString())}  ↻ retrying ${progress.retrying.toLocaleString()}` +
+      `  ⚠️  dropped ${progress.dropped.toLocaleString()}  ⚡ ${progress.rate.toFixed(1)}/s`,
+    `   Latency ${latency}`
+  ];
+  if (progress.topError) {
+    lines.push(chalk.red(`   Top error: ${progress.topError.message} (${progress.topError.count.toLocaleString()})`));
+  }
+  return lines;
+}
+
+/**
+ * Combine the progress of several load generators (workers or agents) into
+ * one view. Counters and rates add up; latency shows the worst generator,
+ * since percentiles cannot be merged from summaries.
+ */
+export function mergeProgress(parts: RunProgress[], target: number, stage: string = 'starting'): RunProgress {
+  const sum = (pick: (progress: RunProgress) => number): number => parts.reduce((total, progress) => total + pick(progress), 0);
+  const latencies = parts.map(progress => progress.latency).filter((latency): latency is NonNullable<RunProgress['latency']> => !!latency);
+
+  let topError: RunProgress['topError'];
+  parts.forEach(progress => {
+    if (progress.topError && (!topError || progress.topError.count > topError.count)) topError = progress.topError;
+  });
+
+  return {
+    stage: parts.length > 0 ? parts[0].stage : stage,
+    target,
+    attempted: sum(progress => progress.attempted),
+    succeeded: sum(progress => progress.succeeded),
+    failed: sum(progress => progress.failed),
+    active: sum(progress => progress.active),
+    retrying: sum(progress => progress.retrying),
+    dropped: sum(progress => progress.dropped),
+    rate: sum(progress => progress.rate),
+    latency: latencies.length > 0
+      ? {
+        p50: Math.max(...latencies.map(latency => latency.p50)),
+        p90: Math.max(...latencies.map(latency => latency.p90)),
+        p99: Math.max(...latencies.map(latency => latency.p99))
+      }
+      : undefined,
+    topError
+  };
+}
+
+/**
+ * A few status lines redrawn in place under the run's regular output.
+ * Messages printed through log() appear above the block instead of tearing
+ * it. Without a TTY a single summary line is appended every interval.
+ */
+class ProgressView {
+  private interval: NodeJS.Timeout | null = null;
+  private drawnLines: number = 0;
+  private interactive: boolean = !!process.stdout.isTTY;
+
+  constructor(private readonly source: () => RunProgress, private readonly intervalMs: number = 500) {}
+
+  public start(): void {
+    this.stop();
+    this.interval = setInterval(() => this.draw(), this.interactive ? this.intervalMs : 5000);
+  }
+
+  // Leaves the last frame on screen
+  public stop(): void {
+    if (!this.interval) return;
+    clearInterval(this.interval);
+    this.interval = null;
+    this.draw();
+    this.drawnLines = 0;
+  }
+
+  public log(message: string): void {
+    this.clear();
+    console.log(message);
+    if (this.interval && this.interactive) {
+      this.draw();
+    }
+  }
+
+  private clear(): void {
+    if (this.drawnLines > 0) {
+      process.stdout.write(`\x1b[${this.drawnLines}A\x1b[0J`);
+      this.drawnLines = 0;
+    }
+  }
+
+  private draw(): void {
+    const progress = this.source();
+    if (!this.interactive) {
+      console.log(`⏳ ${progress.stage}: ${progress.attempted}/${progress.target} attempted, ${progress.succeeded} ok, ${progress.failed} failed, ${progress.active} active, ${progress.rate.toFixed(1)}/s`);
+      return;
+    }
+
+    const lines = renderProgress(progress);
+    this.clear();
+    process.stdout.write(lines.join('\n') + '\n');
+    this.drawnLines = lines.length;
+  }
+}
+
+/**
+ * Redraw a frame in place every interval. Without a TTY (CI logs) frames are
+ * appended instead, so the output stays readable.
+ */
+class Dashboard {
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(private readonly render: () => string[], private readonly intervalMs: number = 1000) {}
+
+  public start(): void {
+    this.stop();
+    this.draw();
+    this.interval = setInterval(() => this.draw(), this.intervalMs);
+  }
+
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private draw(): void {
+    const frame = this.render().join('\n');
+    if (process.stdout.isTTY) {
+      process.stdout.write(`\x1b[2J\x1b[H${frame}\n`);
+    } else {
+      console.log(`${frame}\n`);
+    }
+  }
+}
+
+export { Dashboard, ProgressView };
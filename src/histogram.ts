@@ -0,0 +1,198 @@
+import { LatencyCategory, LatencyReport, LatencySummary } from './types';
+
+// 128 sub-buckets per power of two keeps every recorded value within ~0.8%
+const SUB_BUCKET_COUNT = 128;
+const SUB_BUCKET_HALF = SUB_BUCKET_COUNT / 2;
+const SUB_BUCKET_HALF_BITS = Math.log2(SUB_BUCKET_HALF);
+
+export interface HistogramSnapshot {
+  counts: Array<[number, number]>; // [bucket index, count], sparse
+  totalCount: number;
+  min: number;
+  max: number;
+  sum: number;
+}
+
+export interface LatencySnapshot {
+  [category: string]: { raw: HistogramSnapshot; corrected: HistogramSnapshot };
+}
+
+/**
+ * Log-linear histogram in the spirit of HdrHistogram. Values are recorded in
+ * microseconds so sub-millisecond latencies on a local network are kept.
+ */
+class LatencyHistogram {
+  private counts: number[] = [];
+  private totalCount: number = 0;
+  private min: number = Number.MAX_SAFE_INTEGER;
+  private max: number = 0;
+  private sum: number = 0;
+
+  private static indexFor(value: number): number {
+    if (value < SUB_BUCKET_COUNT) return value;
+    const shift = Math.floor(Math.log2(value)) - SUB_BUCKET_HALF_BITS;
+    return SUB_BUCKET_COUNT + (shift - 1) * SUB_BUCKET_HALF + (Math.floor(value / 2 ** shift) - SUB_BUCKET_HALF);
+  }
+
+  // Highest value that maps to the given bucket
+  private static valueFor(index: number): number {
+    if (index < SUB_BUCKET_COUNT) return index;
+    const shift = Math.floor((index - SUB_BUCKET_COUNT) / SUB_BUCKET_HALF) + 1;
+    const subBucket = (index - SUB_BUCKET_COUNT) % SUB_BUCKET_HALF + SUB_BUCKET_HALF;
+    return (subBucket + 1) * 2 ** shift - 1;
+  }
+
+  public recordValue(latencyMs: number, count: number = 1): void {
+    const value = Math.max(0, Math.round(latencyMs * 1000));
+    const index = LatencyHistogram.indexFor(value);
+
+    this.counts[index] = (this.counts[index] || 0) + count;
+    this.totalCount += count;
+    this.sum += value * count;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /**
+   * Coordinated-omission correction: a response that took longer than the
+   * send interval also stalled the requests that should have been sent in the
+   * meantime, so back-fill the latencies those requests would have seen.
+   */
+  public recordCorrectedValue(latencyMs: number, expectedIntervalMs: number): void {
+    this.recordValue(latencyMs);
+    if (expectedIntervalMs <= 0) return;
+
+    for (let missing = latencyMs - expectedIntervalMs; missing >= expectedIntervalMs; missing -= expectedIntervalMs) {
+      this.recordValue(missing);
+    }
+  }
+
+  public getTotalCount(): number {
+    return this.totalCount;
+  }
+
+  public getMean(): number {
+    return this.totalCount > 0 ? this.sum / this.totalCount / 1000 : 0;
+  }
+
+  public getMax(): number {
+    return this.max / 1000;
+  }
+
+  public getMin(): number {
+    return this.totalCount > 0 ? this.min / 1000 : 0;
+  }
+
+  public getValueAtPercentile(percentile: number): number {
+    if (this.totalCount === 0) return 0;
+
+    const target = Math.max(1, Math.ceil((percentile / 100) * this.totalCount));
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i] || 0;
+      if (seen >= target) {
+        // Never report beyond the largest value actually recorded
+        return Math.min(LatencyHistogram.valueFor(i), this.max) / 1000;
+      }
+    }
+    return this.max / 1000;
+  }
+
+  public add(other: LatencyHistogram): void {
+    this.merge(other.toSnapshot());
+  }
+
+  public merge(snapshot: HistogramSnapshot): void {
+    if (snapshot.totalCount === 0) return;
+    snapshot.counts.forEach(([index, count]) => {
+      this.counts[index] = (this.counts[index] || 0) + count;
+    });
+    this.totalCount += snapshot.totalCount;
+    this.sum += snapshot.sum;
+    this.min = Math.min(this.min, snapshot.min);
+    this.max = Math.max(this.max, snapshot.max);
+  }
+
+  public toSnapshot(): HistogramSnapshot {
+    const counts: Array<[number, number]> = [];
+    this.counts.forEach((count, index) => {
+      if (count) counts.push([index, count]);
+    });
+    return { counts, totalCount: this.totalCount, min: this.min, max: this.max, sum: this.sum };
+  }
+}
+
+/**
+ * Raw and coordinated-omission corrected histograms for each message type.
+ */
+class LatencyRecorder {
+  private histograms: Map<LatencyCategory, { raw: LatencyHistogram; corrected: LatencyHistogram }> = new Map();
+
+  private get(category: LatencyCategory): { raw: LatencyHistogram; corrected: LatencyHistogram } {
+    let entry = this.histograms.get(category);
+    if (!entry) {
+      entry = { raw: new LatencyHistogram(), corrected: new LatencyHistogram() };
+      this.histograms.set(category, entry);
+    }
+    return entry;
+  }
+
+  public record(category: LatencyCategory, latencyMs: number, expectedIntervalMs: number = 0): void {
+    const entry = this.get(category);
+    entry.raw.recordValue(latencyMs);
+    entry.corrected.recordCorrectedValue(latencyMs, expectedIntervalMs);
+  }
+
+  public add(other: LatencyRecorder): void {
+    this.merge(other.toSnapshot());
+  }
+
+  public merge(snapshot: LatencySnapshot): void {
+    Object.entries(snapshot).forEach(([category, histograms]) => {
+      const entry = this.get(category as LatencyCategory);
+      entry.raw.merge(histograms.raw);
+      entry.corrected.merge(histograms.corrected);
+    });
+  }
+
+  public toSnapshot(): LatencySnapshot {
+    const snapshot: LatencySnapshot = {};
+    this.histograms.forEach((entry, category) => {
+      snapshot[category] = { raw: entry.raw.toSnapshot(), corrected: entry.corrected.toSnapshot() };
+    });
+    return snapshot;
+  }
+
+  public getReport(): LatencyReport {
+    const report: LatencyReport = {};
+    this.histograms.forEach((entry, category) => {
+      if (entry.raw.getTotalCount() > 0) {
+        report[category] = summarize(entry.raw, entry.corrected);
+      }
+    });
+    return report;
+  }
+}
+
+function summarize(raw: LatencyHistogram, corrected: LatencyHistogram): LatencySummary {
+  return {
+    count: raw.getTotalCount(),
+    min: raw.getMin(),
+    mean: raw.getMean(),
+    p50: raw.getValueAtPercentile(50),
+    p90: raw.getValueAtPercentile(90),
+    p99: raw.getValueAtPercentile(99),
+    p999: raw.getValueAtPercentile(99.9),
+    max: raw.getMax(),
+    corrected: {
+      count: corrected.getTotalCount(),
+      p50: corrected.getValueAtPercentile(50),
+      p90: corrected.getValueAtPercentile(90),
+      p99: corrected.getValueAtPercentile(99),
+      p999: corrected.getValueAtPercentile(99.9),
+      max: corrected.getMax()
+    }
+  };
+}
+
+export { LatencyHistogram, LatencyRecorder };
@@ -1,150 +1,368 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { LoggingOptions, LogLevel } from './types';
 
 export interface LogEntry {
   timestamp: string;
-  level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
+  runId?: string;
+  level: LogLevel;
   clientId?: string;
   event: string;
   message: string;
   details?: any;
 }
 
+export interface LoggerOptions extends LoggingOptions {
+  echo?: boolean; // Echo every connection event and client error to the console (default: false)
+  runId?: string; // Stamped into every entry
+  fileTag?: string; // Write name.<tag>.log instead of name.log, so worker threads never share (or rotate) one file
+}
+
+export const LOG_FILE_NAMES = ['connections', 'errors', 'pings'] as const;
+
+// connections.log, or connections.w0.log for a tagged (worker) logger
+export function logFileName(name: string, tag?: string): string {
+  return tag ? `${name}.${tag}.log` : `${name}.log`;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 };
+export const LOG_LEVELS = Object.keys(LEVEL_RANK) as LogLevel[];
+
+export function parseLogLevel(value: string): LogLevel {
+  const level = value.trim().toUpperCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`Invalid log level "${value}" (expected one of: ${LOG_LEVELS.join(', ')})`);
+  }
+  return level;
+}
+
+// "PING_SUCCESS=0.1,CONNECT=0.5" → { PING_SUCCESS: 0.1, CONNECT: 0.5 }
+export function parseLogSampling(spec: string): Record<string, number> {
+  const sampling: Record<string, number> = {};
+  spec.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [event, rate] = part.split('=').map(item => item.trim());
+    const value = Number(rate);
+    if (!event || rate === undefined || rate === '' || !Number.isFinite(value) || value < 0 || value > 1) {
+      throw new Error(`Invalid log sampling "${part}" (expected EVENT=rate with a rate between 0 and 1)`);
+    }
+    sampling[event.toUpperCase()] = value;
+  });
+  return sampling;
+}
+
+const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+// Successful pings dominate the volume at 10k clients; overridable per event
+const DEFAULT_SAMPLING: Record<string, number> = { PING_SUCCESS: 0.1 };
+// Flush early once this much is buffered for one file
+const FLUSH_THRESHOLD_BYTES = 256 * 1024;
+
+/**
+ * One append-only JSON Lines file. Lines are buffered in memory and written
+ * with a single asynchronous write per flush; writes are chained so they land
+ * in order. The file is rotated (file.1, file.2, ...) before a write would take
+ * it past maxFileSize.
+ */
+class LogFile {
+  private fd: number | null = null;
+  private size: number = 0;
+  private buffer: string[] = [];
+  private bufferedBytes: number = 0;
+  private writing: Promise<void> = Promise.resolve();
+  private entries: number = 0;
+
+  constructor(private readonly filePath: string, private readonly maxFileSize: number, private readonly maxFiles: number) {}
+
+  public append(line: string): boolean {
+    this.buffer.push(line);
+    this.bufferedBytes += Buffer.byteLength(line);
+    this.entries++;
+    return this.bufferedBytes >= FLUSH_THRESHOLD_BYTES;
+  }
+
+  public getEntryCount(): number {
+    return this.entries;
+  }
+
+  public flush(): Promise<void> {
+    const data = this.takeBuffer();
+    if (data) {
+      this.writing = this.writing.then(() => this.write(data)).catch(error => {
+        console.error(`Failed to write to log file ${this.filePath}:`, error);
+      });
+    }
+    return this.writing;
+  }
+
+  // Last resort on process exit: whatever is still buffered is written synchronously
+  public flushSync(): void {
+    const data = this.takeBuffer();
+    if (!data) return;
+    try {
+      this.prepare(Buffer.byteLength(data));
+      fs.writeSync(this.fd!, data);
+    } catch (error) {
+      console.error(`Failed to write to log file ${this.filePath}:`, error);
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.flush();
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  // Drops buffered lines and deletes the file with its rotations once pending writes land
+  public clear(): void {
+    this.takeBuffer();
+    this.entries = 0;
+    this.writing = this.writing.then(() => {
+      if (this.fd !== null) {
+        fs.closeSync(this.fd);
+        this.fd = null;
+      }
+      this.rotatedPaths(this.maxFiles).filter(file => fs.existsSync(file)).forEach(file => fs.unlinkSync(file));
+    }).catch(error => {
+      console.error(`Failed to clear log file ${this.filePath}:`, error);
+    });
+  }
+
+  private takeBuffer(): string {
+    const data = this.buffer.join('');
+    this.buffer = [];
+    this.bufferedBytes = 0;
+    return data;
+  }
+
+  private write(data: string): Promise<void> {
+    this.prepare(Buffer.byteLength(data));
+    return new Promise((resolve, reject) => {
+      fs.write(this.fd!, data, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  // Open the file on first use and rotate when the next write would not fit
+  private prepare(bytes: number): void {
+    if (this.fd === null) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.fd = fs.openSync(this.filePath, 'a');
+      this.size = fs.fstatSync(this.fd).size;
+    }
+
+    if (this.size > 0 && this.size + bytes > this.maxFileSize) {
+      fs.closeSync(this.fd);
+      this.rotate();
+      this.fd = fs.openSync(this.filePath, 'a');
+      this.size = 0;
+    }
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    const paths = this.rotatedPaths(this.maxFiles);
+    if (this.maxFiles === 0) {
+      fs.unlinkSync(this.filePath);
+      return;
+    }
+    // file.N-1 → file.N, ..., file → file.1; the oldest is overwritten
+    for (let i = paths.length - 2; i >= 0; i--) {
+      if (fs.existsSync(paths[i])) {
+        fs.renameSync(paths[i], paths[i + 1]);
+      }
+    }
+  }
+
+  private rotatedPaths(count: number): string[] {
+    return [this.filePath, ...Array.from({ length: count }, (_, i) => `${this.filePath}.${i + 1}`)];
+  }
+}
+
+// Loggers with unwritten entries, flushed synchronously if the process exits
+const openLoggers: Set<Logger> = new Set();
+let exitHookInstalled = false;
+
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.on('exit', () => {
+    openLoggers.forEach(logger => logger.flushSync());
+  });
+}
+
 export class Logger {
   private logDir: string;
-  private connectionLogFile: string;
-  private errorLogFile: string;
-  private pingLogFile: string;
+  private fileTag: string | undefined;
+  private connectionLog: LogFile;
+  private errorLog: LogFile;
+  private pingLog: LogFile;
+  private echo: boolean;
+  private runId: string | undefined;
+  private minLevel: number;
+  private sampling: Record<string, number>;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushIntervalMs: number;
+  private printer: ((message: string) => void) | null = null;
 
-  constructor(logDir: string = './logs') {
+  constructor(logDir: string = './logs', options: LoggerOptions = {}) {
     this.logDir = logDir;
-    this.connectionLogFile = path.join(logDir, 'connections.log');
-    this.errorLogFile = path.join(logDir, 'errors.log');
-    this.pingLogFile = path.join(logDir, 'pings.log');
-    
-    this.ensureLogDirectory();
+    this.fileTag = options.fileTag;
+    this.echo = options.echo || false;
+    this.runId = options.runId;
+    this.minLevel = LEVEL_RANK[options.level || 'DEBUG'];
+    this.sampling = { ...DEFAULT_SAMPLING, ...options.sampling };
+    this.flushIntervalMs = options.flushInterval || DEFAULT_FLUSH_INTERVAL_MS;
+
+    const maxFileSize = options.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+    const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+    this.connectionLog = new LogFile(path.join(logDir, logFileName('connections', this.fileTag)), maxFileSize, maxFiles);
+    this.errorLog = new LogFile(path.join(logDir, logFileName('errors', this.fileTag)), maxFileSize, maxFiles);
+    this.pingLog = new LogFile(path.join(logDir, logFileName('pings', this.fileTag)), maxFileSize, maxFiles);
   }
 
-  private ensureLogDirectory(): void {
-    if (!fs.existsSync(this.logDir)) {
-      fs.mkdirSync(this.logDir, { recursive: true });
+  /**
+   * Route run-level console messages (info and warnings) through a live
+   * progress view so they do not tear its frame.
+   */
+  public setPrinter(printer: ((message: string) => void) | null): void {
+    this.printer = printer;
+  }
+
+  private print(message: string, warning: boolean = false): void {
+    if (this.printer) {
+      this.printer(message);
+    } else if (warning) {
+      console.warn(message);
+    } else {
+      console.log(message);
     }
   }
 
-  private formatLogEntry(entry: LogEntry): string {
-    const details = entry.details ? ` | Details: ${JSON.stringify(entry.details)}` : '';
-    const clientId = entry.clientId ? ` | Client: ${entry.clientId}` : '';
-    return `[${entry.timestamp}] ${entry.level} | ${entry.event}${clientId} | ${entry.message}${details}\n`;
+  // Level filter first, then the event's sampling rate
+  private shouldWrite(level: LogLevel, event: string): boolean {
+    if (LEVEL_RANK[level] < this.minLevel) return false;
+    const rate = this.sampling[event];
+    return rate === undefined || rate >= 1 || Math.random() < rate;
   }
 
-  private writeToFile(filePath: string, content: string): void {
-    try {
-      fs.appendFileSync(filePath, content, 'utf8');
-    } catch (error) {
-      console.error(`Failed to write to log file ${filePath}:`, error);
+  private write(file: LogFile, entry: LogEntry): void {
+    if (!this.shouldWrite(entry.level, entry.event)) return;
+
+    if (file.append(JSON.stringify(this.runId ? { ...entry, runId: this.runId } : entry) + '\n')) {
+      file.flush();
+    }
+    if (!this.flushTimer) {
+      installExitHook();
+      openLoggers.add(this);
+      this.flushTimer = setInterval(() => this.flush(), this.flushIntervalMs);
+      this.flushTimer.unref();
     }
   }
 
-  public logConnection(clientId: string, event: 'CONNECT' | 'DISCONNECT' | 'RETRY', message: string, details?: any): void {
-    const entry: LogEntry = {
+  public logConnection(clientId: string, event: 'CONNECT' | 'RECONNECT' | 'DISCONNECT' | 'RETRY' | 'UPGRADE', message: string, details?: any): void {
+    this.write(this.connectionLog, {
       timestamp: new Date().toISOString(),
       level: 'INFO',
       clientId,
       event,
       message,
       details
-    };
+    });
 
-    this.writeToFile(this.connectionLogFile, this.formatLogEntry(entry));
-    
-    // Also log to console for immediate feedback
-    console.log(`📋 ${event}: ${clientId} - ${message}`);
+    // Per-client events flood the terminal at 10k clients, so only echo when verbose
+    if (this.echo) {
+      console.log(`📋 ${event}: ${clientId} - ${message}`);
+    }
   }
 
-  public logError(clientId: string, event: 'CONNECTION_ERROR' | 'PING_ERROR' | 'SOCKET_ERROR', message: string, details?: any): void {
-    const entry: LogEntry = {
+  public logError(clientId: string, event: 'CONNECTION_ERROR' | 'AUTH_ERROR' | 'PING_ERROR' | 'SOCKET_ERROR', message: string, details?: any): void {
+    this.write(this.errorLog, {
       timestamp: new Date().toISOString(),
       level: 'ERROR',
       clientId,
       event,
       message,
       details
-    };
+    });
 
-    this.writeToFile(this.errorLogFile, this.formatLogEntry(entry));
-    
-    // Also log to console for immediate feedback
-    console.error(`❌ ${event}: ${clientId} - ${message}`);
+    if (this.echo) {
+      console.error(`❌ ${event}: ${clientId} - ${message}`);
+    }
   }
 
   public logPing(clientId: string, latency: number, success: boolean, details?: any): void {
-    const entry: LogEntry = {
+    this.write(this.pingLog, {
       timestamp: new Date().toISOString(),
       level: success ? 'DEBUG' : 'WARN',
       clientId,
       event: success ? 'PING_SUCCESS' : 'PING_FAILURE',
       message: success ? `Latency: ${latency}ms` : `Ping failed: ${details?.error || 'Unknown error'}`,
       details: { latency, success, ...details }
-    };
-
-    this.writeToFile(this.pingLogFile, this.formatLogEntry(entry));
+    });
   }
 
   public logInfo(event: string, message: string, details?: any): void {
-    const entry: LogEntry = {
+    this.write(this.connectionLog, {
       timestamp: new Date().toISOString(),
       level: 'INFO',
       event,
       message,
       details
-    };
-
-    this.writeToFile(this.connectionLogFile, this.formatLogEntry(entry));
-    console.log(`ℹ️  ${event}: ${message}`);
+    });
+    this.print(`ℹ️  ${event}: ${message}`);
   }
 
   public logWarning(event: string, message: string, details?: any): void {
-    const entry: LogEntry = {
+    this.write(this.errorLog, {
       timestamp: new Date().toISOString(),
       level: 'WARN',
       event,
       message,
       details
-    };
+    });
+    this.print(`⚠️  ${event}: ${message}`, true);
+  }
 
-    this.writeToFile(this.errorLogFile, this.formatLogEntry(entry));
-    console.warn(`⚠️  ${event}: ${message}`);
+  public async flush(): Promise<void> {
+    await Promise.all([this.connectionLog.flush(), this.errorLog.flush(), this.pingLog.flush()]);
   }
 
-  public getLogStats(): { connectionLogs: number; errorLogs: number; pingLogs: number } {
-    const getLineCount = (filePath: string): number => {
-      try {
-        if (!fs.existsSync(filePath)) return 0;
-        const content = fs.readFileSync(filePath, 'utf8');
-        return content.split('\n').filter(line => line.trim().length > 0).length;
-      } catch {
-        return 0;
-      }
-    };
+  public flushSync(): void {
+    [this.connectionLog, this.errorLog, this.pingLog].forEach(file => file.flushSync());
+  }
+
+  // Flush, close the files and stop the flush timer
+  public async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    openLoggers.delete(this);
+    await Promise.all([this.connectionLog.close(), this.errorLog.close(), this.pingLog.close()]);
+  }
 
+  // Entries written by this logger, after level filtering and sampling
+  public getLogStats(): { connectionLogs: number; errorLogs: number; pingLogs: number } {
     return {
-      connectionLogs: getLineCount(this.connectionLogFile),
-      errorLogs: getLineCount(this.errorLogFile),
-      pingLogs: getLineCount(this.pingLogFile)
+      connectionLogs: this.connectionLog.getEntryCount(),
+      errorLogs: this.errorLog.getEntryCount(),
+      pingLogs: this.pingLog.getEntryCount()
     };
   }
 
+  /**
+   * Clear this logger's files. The untagged (main) logger also deletes the
+   * tagged files earlier workers left behind; that happens right away, before
+   * this run's workers start writing theirs.
+   */
   public clearLogs(): void {
-    const files = [this.connectionLogFile, this.errorLogFile, this.pingLogFile];
-    files.forEach(file => {
-      try {
-        if (fs.existsSync(file)) {
-          fs.unlinkSync(file);
-        }
-      } catch (error) {
-        console.error(`Failed to clear log file ${file}:`, error);
-      }
-    });
-    console.log('📂 All log files cleared');
+    [this.connectionLog, this.errorLog, this.pingLog].forEach(file => file.clear());
+    if (!this.fileTag && fs.existsSync(this.logDir)) {
+      const tagged = new RegExp(`^(${LOG_FILE_NAMES.join('|')})\\.[\\w-]+\\.log(\\.\\d+)?$`);
+      fs.readdirSync(this.logDir).filter(file => tagged.test(file)).forEach(file => fs.unlinkSync(path.join(this.logDir, file)));
+    }
+    this.print(`📂 All log files in ${this.logDir} cleared`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,396 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { sparkline } from './dashboard';
+import { LOG_FILE_NAMES, LogEntry } from './logger';
+import { ClientLifecycle, DisconnectBurst, ErrorCategory, LogAnalysis, LogTimelineEvent, PingFailureRatio } from './types';
+
+export interface LogAnalysisOptions {
+  client?: string; // Collect the full timeline of this client
+  bucketSeconds?: number; // Width of the error time buckets (default: about 20 buckets over the run)
+  burstThreshold?: number; // Spontaneous disconnects in one second that make a burst (default: 5)
+}
+
+type LogName = LogTimelineEvent['file'];
+
+const BUCKET_SIZES = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+const TARGET_BUCKETS = 20;
+// Errors this close to a disconnect burst are listed with it
+const BURST_CORRELATION_MS = 5000;
+
+// The tester repeats the client's own DISCONNECT entry for spontaneous drops
+const TESTER_DROP_PREFIX = 'Connection dropped spontaneously';
+const CLIENT_DISCONNECT_REASON = 'io client disconnect';
+
+/**
+ * A run directory (with logs/ inside) or the logs directory itself.
+ */
+function resolveLogDir(dir: string): string {
+  const nested = path.join(dir, 'logs');
+  const logDir = fs.existsSync(nested) && fs.statSync(nested).isDirectory() ? nested : dir;
+  const hasLogs = LOG_FILE_NAMES.some(name => logFiles(logDir, name).length > 0);
+  if (!hasLogs) {
+    throw new Error(`No connections.log, errors.log or pings.log in ${dir}`);
+  }
+  return logDir;
+}
+
+// name.log and each worker's name.wN.log, every one as name.log.N ... name.log.1, name.log: oldest rotation first
+function logFiles(logDir: string, name: LogName): string[] {
+  return fs.readdirSync(logDir)
+    .map(file => ({ file, match: file.match(new RegExp(`^${name}(\\.[\\w-]+)?\\.log(?:\\.(\\d+))?$`)) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => (a.match![1] || '').localeCompare(b.match![1] || '') ||
+      parseInt(b.match![2] || '0', 10) - parseInt(a.match![2] || '0', 10))
+    .map(({ file }) => path.join(logDir, file));
+}
+
+// Stream one JSON Lines log so multi-gigabyte soak logs are never held in memory
+async function readLog(files: string[], onEntry: (entry: LogEntry) => void): Promise<{ entries: number; malformed: number }> {
+  let entries = 0;
+  let malformed = 0;
+  for (const file of files) {
+    const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (typeof entry?.timestamp !== 'string' || typeof entry?.event !== 'string') throw new Error('not a log entry');
+        entries++;
+        onEntry(entry as LogEntry);
+      } catch {
+        malformed++;
+      }
+    }
+  }
+  return { entries, malformed };
+}
+
+// Collapse numbers and ids so "timeout after 5000ms" and "after 6000ms" share a category
+function categorize(entry: LogEntry): string {
+  const text = String(entry.details?.error ?? entry.message.replace(/^[^:]+:\s*/, ''));
+  return text
+    .replace(/\b[0-9a-f]{8,}\b/gi, '<id>')
+    .replace(/\d+(\.\d+)?/g, 'N')
+    .trim()
+    .slice(0, 80);
+}
+
+function chooseBucketSeconds(durationMs: number): number {
+  const wanted = durationMs / 1000 / TARGET_BUCKETS;
+  return BUCKET_SIZES.find(size => size >= wanted) || BUCKET_SIZES[BUCKET_SIZES.length - 1];
+}
+
+function newLifecycle(clientId: string, timestamp: string): ClientLifecycle {
+  return { clientId, firstSeen: timestamp, connects: 0, retries: 0, errors: 0, spontaneous: false };
+}
+
+/**
+ * Group the per-second counts of spontaneous disconnects into bursts: runs of
+ * seconds at or above the threshold, allowing one quiet second inside a burst.
+ */
+function findBursts(
+  disconnects: Array<{ time: number; reason: string }>,
+  errors: Array<{ time: number; key: string }>,
+  threshold: number
+): DisconnectBurst[] {
+  const perSecond = new Map<number, Array<{ time: number; reason: string }>>();
+  disconnects.forEach(d => {
+    const second = Math.floor(d.time / 1000);
+    if (!perSecond.has(second)) perSecond.set(second, []);
+    perSecond.get(second)!.push(d);
+  });
+
+  const busySeconds = Array.from(perSecond.keys()).filter(second => perSecond.get(second)!.length >= threshold).sort((a, b) => a - b);
+  const groups: number[][] = [];
+  busySeconds.forEach(second => {
+    const current = groups[groups.length - 1];
+    if (current && second - current[current.length - 1] <= 2) {
+      current.push(second);
+    } else {
+      groups.push([second]);
+    }
+  });
+
+  return groups.map(seconds => {
+    const first = seconds[0];
+    const last = seconds[seconds.length - 1];
+    const inBurst = disconnects.filter(d => d.time >= first * 1000 && d.time < (last + 1) * 1000);
+    const reasons: Record<string, number> = {};
+    inBurst.forEach(d => {
+      reasons[d.reason] = (reasons[d.reason] || 0) + 1;
+    });
+
+    const nearbyErrors: Record<string, number> = {};
+    errors
+      .filter(e => e.time >= first * 1000 - BURST_CORRELATION_MS && e.time < (last + 1) * 1000 + BURST_CORRELATION_MS)
+      .forEach(e => {
+        nearbyErrors[e.key] = (nearbyErrors[e.key] || 0) + 1;
+      });
+
+    // reduce rather than Math.min(...) so a burst of thousands does not overflow the argument stack
+    return {
+      start: new Date(inBurst.reduce((min, d) => Math.min(min, d.time), Infinity)).toISOString(),
+      end: new Date(inBurst.reduce((max, d) => Math.max(max, d.time), -Infinity)).toISOString(),
+      disconnects: inBurst.length,
+      peakPerSecond: Math.max(...seconds.map(second => perSecond.get(second)!.length)),
+      reasons,
+      nearbyErrors
+    };
+  });
+}
+
+/**
+ * Read a run's connections, errors and pings logs (rotations included) and
+ * derive what a failed run is usually investigated for.
+ */
+export async function analyzeLogs(dir: string, options: LogAnalysisOptions = {}): Promise<LogAnalysis> {
+  const logDir = resolveLogDir(dir);
+  const runIds = new Set<string>();
+  const lifecycles = new Map<string, ClientLifecycle>();
+  const pingCounters = new Map<string, { succeeded: number; failed: number }>();
+  const errors: Array<{ time: number; event: string; category: string }> = [];
+  const disconnects: Array<{ time: number; reason: string }> = [];
+  const timeline: LogTimelineEvent[] = [];
+  let startTime = Infinity;
+  let endTime = -Infinity;
+
+  const lifecycle = (entry: LogEntry): ClientLifecycle => {
+    const clientId = entry.clientId!;
+    if (!lifecycles.has(clientId)) lifecycles.set(clientId, newLifecycle(clientId, entry.timestamp));
+    return lifecycles.get(clientId)!;
+  };
+
+  // Ping totals are cumulative per client, so the largest seen is the final one even when successes are sampled
+  const countPings = (entry: LogEntry): void => {
+    const totalPings = entry.details?.totalPings;
+    const failedPings = entry.details?.failedPings;
+    if (!entry.clientId || typeof totalPings !== 'number' || typeof failedPings !== 'number') return;
+    const counters = pingCounters.get(entry.clientId) || { succeeded: 0, failed: 0 };
+    counters.succeeded = Math.max(counters.succeeded, totalPings);
+    counters.failed = Math.max(counters.failed, failedPings);
+    pingCounters.set(entry.clientId, counters);
+  };
+
+  const visit = (file: LogName) => (entry: LogEntry): void => {
+    const time = Date.parse(entry.timestamp);
+    if (Number.isFinite(time)) {
+      startTime = Math.min(startTime, time);
+      endTime = Math.max(endTime, time);
+    }
+    if (entry.runId) runIds.add(entry.runId);
+    if (options.client && entry.clientId === options.client) {
+      timeline.push({ timestamp: entry.timestamp, file, level: entry.level, event: entry.event, message: entry.message });
+    }
+
+    if (file === 'errors' || entry.event === 'PING_FAILURE') {
+      errors.push({ time, event: entry.event, category: categorize(entry) });
+    }
+    countPings(entry);
+    if (!entry.clientId) return;
+
+    switch (entry.event) {
+      case 'CONNECT':
+      case 'RECONNECT': {
+        const client = lifecycle(entry);
+        client.connects++;
+        if (client.connectionTime === undefined && typeof entry.details?.connectionTime === 'number') {
+          client.connectionTime = entry.details.connectionTime;
+        }
+        break;
+      }
+      case 'RETRY':
+        lifecycle(entry).retries++;
+        break;
+      case 'CONNECTION_ERROR':
+      case 'AUTH_ERROR':
+      case 'SOCKET_ERROR':
+      case 'PING_ERROR': {
+        const client = lifecycle(entry);
+        client.errors++;
+        client.lastError = categorize(entry);
+        break;
+      }
+      case 'DISCONNECT': {
+        if (entry.message.startsWith(TESTER_DROP_PREFIX)) break;
+        const client = lifecycle(entry);
+        const reason = String(entry.details?.reason ?? 'unknown');
+        client.disconnectedAt = entry.timestamp;
+        client.disconnectReason = reason;
+        client.duration = entry.details?.connectionDuration;
+        if (reason !== CLIENT_DISCONNECT_REASON) {
+          client.spontaneous = true;
+          disconnects.push({ time, reason });
+        }
+        break;
+      }
+    }
+  };
+
+  const counts: Record<LogName, { entries: number; malformed: number }> = {
+    connections: await readLog(logFiles(logDir, 'connections'), visit('connections')),
+    errors: await readLog(logFiles(logDir, 'errors'), visit('errors')),
+    pings: await readLog(logFiles(logDir, 'pings'), visit('pings'))
+  };
+
+  const hasEntries = Number.isFinite(startTime);
+  const bucketSeconds = options.bucketSeconds || chooseBucketSeconds(hasEntries ? endTime - startTime : 0);
+  const bucketCount = hasEntries ? Math.floor((endTime - startTime) / 1000 / bucketSeconds) + 1 : 0;
+
+  const categories = new Map<string, ErrorCategory>();
+  errors.filter(e => Number.isFinite(e.time)).forEach(e => {
+    const key = `${e.event}: ${e.category}`;
+    if (!categories.has(key)) {
+      categories.set(key, {
+        event: e.event,
+        category: e.category,
+        count: 0,
+        firstSeen: new Date(e.time).toISOString(),
+        lastSeen: new Date(e.time).toISOString(),
+        buckets: new Array(bucketCount).fill(0)
+      });
+    }
+    const category = categories.get(key)!;
+    category.count++;
+    if (e.time < Date.parse(category.firstSeen)) category.firstSeen = new Date(e.time).toISOString();
+    if (e.time > Date.parse(category.lastSeen)) category.lastSeen = new Date(e.time).toISOString();
+    category.buckets[Math.floor((e.time - startTime) / 1000 / bucketSeconds)]++;
+  });
+
+  const clients = Array.from(lifecycles.values());
+  const troubled = clients
+    .filter(c => c.retries > 0 || c.errors > 0 || c.spontaneous || c.connects === 0)
+    .sort((a, b) => Date.parse(a.firstSeen) - Date.parse(b.firstSeen));
+
+  const worstPingClients: PingFailureRatio[] = Array.from(pingCounters.entries())
+    .filter(([, c]) => c.failed > 0)
+    .map(([clientId, c]) => ({ clientId, ...c, failureRate: (c.failed / (c.succeeded + c.failed)) * 100 }))
+    .sort((a, b) => b.failureRate - a.failureRate || b.failed - a.failed);
+
+  return {
+    dir: logDir,
+    runIds: Array.from(runIds),
+    startTime: hasEntries ? new Date(startTime).toISOString() : null,
+    endTime: hasEntries ? new Date(endTime).toISOString() : null,
+    entries: {
+      connections: counts.connections.entries,
+      errors: counts.errors.entries,
+      pings: counts.pings.entries,
+      malformed: counts.connections.malformed + counts.errors.malformed + counts.pings.malformed
+    },
+    bucketSeconds,
+    errorCategories: Array.from(categories.values()).sort((a, b) => b.count - a.count),
+    clients: {
+      total: clients.length,
+      connected: clients.filter(c => c.connects > 0).length,
+      neverConnected: clients.filter(c => c.connects === 0).length,
+      retried: clients.filter(c => c.retries > 0).length,
+      dropped: clients.filter(c => c.spontaneous).length
+    },
+    lifecycles: troubled,
+    worstPingClients,
+    disconnectBursts: findBursts(disconnects, errors.map(e => ({ time: e.time, key: `${e.event}: ${e.category}` })), options.burstThreshold || 5),
+    timeline: options.client ? timeline.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)) : null
+  };
+}
+
+function formatLifecycle(client: ClientLifecycle, offset: (timestamp: string) => string): string {
+  const parts: string[] = [];
+  if (client.connects > 0) {
+    parts.push(`connected${client.connectionTime !== undefined ? ` in ${client.connectionTime}ms` : ''}`);
+  } else {
+    parts.push(chalk.red('never connected'));
+  }
+  if (client.retries > 0) parts.push(`${client.retries} ${client.retries === 1 ? 'retry' : 'retries'}`);
+  if (client.errors > 0) parts.push(chalk.red(`${client.errors} errors (last: ${client.lastError})`));
+  if (client.disconnectedAt) {
+    const duration = client.duration !== undefined ? ` after ${(client.duration / 1000).toFixed(1)}s` : '';
+    const reason = `${client.disconnectReason}${duration}`;
+    parts.push(`${client.spontaneous ? chalk.yellow('dropped') : 'closed'} ${offset(client.disconnectedAt)}: ${reason}`);
+  }
+  return `${client.clientId.padEnd(18)} ${offset(client.firstSeen).padStart(8)}  ${parts.join(' → ')}`;
+}
+
+export function printLogAnalysis(analysis: LogAnalysis, top: number = 10): void {
+  const start = analysis.startTime ? Date.parse(analysis.startTime) : 0;
+  const offset = (timestamp: string) => `+${((Date.parse(timestamp) - start) / 1000).toFixed(1)}s`;
+  const more = (shown: number, total: number) => {
+    if (total > shown) console.log(chalk.gray(`   ... ${total - shown} more (--top to show more, --output for all)`));
+  };
+
+  console.log(chalk.green.bold(`
+🔍 LOG ANALYSIS
+═══════════════════════════════════════════════════════════════
+`));
+  console.log(`Logs: ${analysis.dir}${analysis.runIds.length > 0 ? ` (run ${analysis.runIds.join(', ')})` : ''}`);
+  if (analysis.startTime && analysis.endTime) {
+    console.log(`Span: ${analysis.startTime} → ${analysis.endTime} (${((Date.parse(analysis.endTime) - start) / 1000).toFixed(1)}s)`);
+  }
+  const e = analysis.entries;
+  console.log(`Entries: ${e.connections.toLocaleString()} connection, ${e.errors.toLocaleString()} error, ${e.pings.toLocaleString()} ping${e.malformed > 0 ? chalk.yellow(`, ${e.malformed} unreadable lines skipped`) : ''}`);
+  const c = analysis.clients;
+  console.log(`Clients: ${c.total.toLocaleString()} seen, ${c.connected.toLocaleString()} connected, ${chalk.red(c.neverConnected.toLocaleString())} never connected, ${c.retried.toLocaleString()} retried, ${chalk.yellow(c.dropped.toLocaleString())} dropped\n`);
+
+  console.log(chalk.white.bold(`ERRORS OVER TIME (one column per ${analysis.bucketSeconds}s):`));
+  if (analysis.errorCategories.length === 0) {
+    console.log(chalk.green('   No errors logged'));
+  }
+  const categories = analysis.errorCategories.slice(0, top);
+  categories.forEach((category, index) => {
+    const branch = index === categories.length - 1 && analysis.errorCategories.length <= top ? '└─' : '├─';
+    const width = Math.min(category.buckets.length, 60);
+    console.log(`${branch} ${chalk.red(category.count.toLocaleString().padStart(7))}  ${category.event}: ${category.category}`);
+    console.log(`${branch === '└─' ? '   ' : '│  '}${' '.repeat(7)}  ${chalk.cyan(sparkline(category.buckets, width))}  ${chalk.gray(`${offset(category.firstSeen)} – ${offset(category.lastSeen)}`)}`);
+  });
+  more(categories.length, analysis.errorCategories.length);
+  console.log('');
+
+  console.log(chalk.white.bold('DISCONNECT BURSTS:'));
+  if (analysis.disconnectBursts.length === 0) {
+    console.log(chalk.green('   No bursts of spontaneous disconnects'));
+  }
+  analysis.disconnectBursts.forEach((burst, index, bursts) => {
+    const branch = index === bursts.length - 1 ? '└─' : '├─';
+    const indent = index === bursts.length - 1 ? '   ' : '│  ';
+    const reasons = Object.entries(burst.reasons).sort((a, b) => b[1] - a[1]).map(([reason, n]) => `${reason} ×${n}`).join(', ');
+    console.log(`${branch} ${chalk.yellow(burst.start)} (${offset(burst.start)}): ${chalk.bold(burst.disconnects.toLocaleString())} disconnects in ${((Date.parse(burst.end) - Date.parse(burst.start)) / 1000).toFixed(1)}s, peak ${burst.peakPerSecond}/s`);
+    console.log(`${indent}├─ Reasons: ${reasons}`);
+    const nearby = Object.entries(burst.nearbyErrors).sort((a, b) => b[1] - a[1]).slice(0, 3);
+    console.log(`${indent}└─ Errors within ${BURST_CORRELATION_MS / 1000}s: ${nearby.length > 0 ? nearby.map(([key, n]) => `${key} ×${n}`).join(', ') : 'none'}`);
+  });
+  console.log('');
+
+  console.log(chalk.white.bold('WORST PING FAILURE RATIO:'));
+  if (analysis.worstPingClients.length === 0) {
+    console.log(chalk.green('   No failed pings'));
+  }
+  const pings = analysis.worstPingClients.slice(0, top);
+  pings.forEach((client, index) => {
+    const branch = index === pings.length - 1 && analysis.worstPingClients.length <= top ? '└─' : '├─';
+    console.log(`${branch} ${client.clientId.padEnd(18)} ${`${client.failureRate.toFixed(1)}%`.padStart(7)}  ${client.failed} of ${client.succeeded + client.failed} pings failed`);
+  });
+  more(pings.length, analysis.worstPingClients.length);
+  console.log('');
+
+  console.log(chalk.white.bold(`CLIENT LIFECYCLES (${analysis.lifecycles.length.toLocaleString()} with retries, errors or drops):`));
+  const lifecycles = analysis.lifecycles.slice(0, top);
+  lifecycles.forEach(client => console.log(`   ${formatLifecycle(client, offset)}`));
+  if (lifecycles.length === 0) {
+    console.log(chalk.green('   Every client connected at the first attempt and stayed up'));
+  }
+  more(lifecycles.length, analysis.lifecycles.length);
+  console.log('');
+
+  if (analysis.timeline) {
+    console.log(chalk.white.bold('CLIENT TIMELINE:'));
+    if (analysis.timeline.length === 0) {
+      console.log(chalk.gray('   No entries for this client'));
+    }
+    analysis.timeline.forEach(entry => {
+      const color = entry.level === 'ERROR' ? chalk.red : entry.level === 'WARN' ? chalk.yellow : chalk.white;
+      console.log(`   ${offset(entry.timestamp).padStart(8)}  ${color(entry.event.padEnd(16))} ${entry.message}`);
+    });
+    console.log('');
+  }
+}
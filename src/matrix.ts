@@ -0,0 +1,65 @@
+import { LatencyHistogram } from './histogram';
+import { parseTransportMode } from './target';
+import { BenchmarkResults, ConnectionResult, TransportMatrixEntry, TransportMode, TransportName, TransportResults } from './types';
+
+// "websocket,upgrade" → ['websocket', 'upgrade']; each mode runs once, in the order given
+export function parseTransportModes(value: string): TransportMode[] {
+  const modes = value
+    .split(',')
+    .map(mode => mode.trim())
+    .filter(mode => mode.length > 0)
+    .map(parseTransportMode);
+
+  if (modes.length === 0) {
+    throw new Error('At least one transport mode is required');
+  }
+  return modes.filter((mode, index) => modes.indexOf(mode) === index);
+}
+
+export function summarizeTransports(results: ConnectionResult[]): TransportResults | null {
+  const successful = results.filter(r => r.success);
+  if (successful.length === 0) return null;
+
+  const connections: Partial<Record<TransportName, number>> = {};
+  const upgradeTimes = new LatencyHistogram();
+  successful.forEach(result => {
+    if (result.transport) {
+      connections[result.transport] = (connections[result.transport] || 0) + 1;
+    }
+    if (result.upgradeTime !== undefined) {
+      upgradeTimes.recordValue(result.upgradeTime);
+    }
+  });
+
+  const upgraded = upgradeTimes.getTotalCount();
+  return {
+    connections,
+    upgraded,
+    upgradeTime: upgraded > 0
+      ? { p50: upgradeTimes.getValueAtPercentile(50), p99: upgradeTimes.getValueAtPercentile(99), max: upgradeTimes.getMax() }
+      : null
+  };
+}
+
+/**
+ * The figures `matrix` puts side by side for one transport mode's run.
+ * Score and grade come from the same assessment as a regular run.
+ */
+export function matrixEntry(mode: TransportMode, results: BenchmarkResults, score: number, grade: string): TransportMatrixEntry {
+  return {
+    mode,
+    runId: results.runId,
+    successRate: results.connectionSuccessRate,
+    retentionRate: results.connectionRetentionRate,
+    connectAvg: results.averageConnectionTime,
+    connectP99: results.connectionTimeP99,
+    pingP99: results.latency.ping ? results.latency.ping.p99 : null,
+    messagesPerSecond: results.throughput ? results.throughput.messagesPerSecond : null,
+    spontaneousDisconnections: results.spontaneousDisconnections,
+    memoryPerConnectionKb: results.successfulConnections > 0 ? results.peakMemoryUsage / results.successfulConnections / 1024 : 0,
+    peakCpu: results.peakCpuUsage,
+    transport: results.transport,
+    score,
+    grade
+  };
+}
@@ -1,54 +1,129 @@
+import chalk from 'chalk';
+import { program } from 'commander';
+import * as os from 'os';
+import { Dashboard, renderPanel, ServerSample, serverSeries } from './dashboard';
+import { HistogramSnapshot, LatencyHistogram } from './histogram';
+import {
+  countOpenFiles,
+  CpuTimes,
+  InterfaceCounters,
+  readCpuTimes,
+  readMaxOpenFiles,
+  readMemInfo,
+  readNetDev,
+  readSockstat,
+  readTcpEstablished
+} from './procfs';
+import { ServerSnapshot, TimelineSample } from './types';
+
+// Listing /proc/self/fd walks one entry per socket, so at 10k+ connections it is refreshed less often
+const OPEN_FILES_INTERVAL_MS = 30000;
 
 interface SystemMetrics {
+  source: 'procfs' | 'os'; // Where the host numbers came from
   cpu: {
-    user: number;
+    user: number; // Host CPU % over the last interval
     system: number;
     idle: number;
     usage: number;
+    cores: number;
   };
   memory: {
-    total: number;
+    total: number; // Host memory in bytes
     free: number;
-    used: number;
+    used: number; // total - available
     available: number;
     usagePercent: number;
   };
   process: {
     pid: number;
     memory: NodeJS.MemoryUsage;
-    cpu: NodeJS.CpuUsage;
+    cpu: NodeJS.CpuUsage; // Since the previous sample
+    cpuPercent: number; // % of one core over the last interval
     uptime: number;
+    openFiles: number | null;
+    maxOpenFiles: number | null;
   };
   network: {
-    connections: number;
-    bytesReceived: number;
+    connections: number; // Established TCP connections, host-wide
+    timeWait: number;
+    orphans: number;
+    tcpSockets: number; // TCP sockets in use, any state
+    bytesReceived: number; // Since monitoring started, all interfaces except loopback
     bytesSent: number;
+    receiveRate: number; // bytes/s over the last interval
+    sendRate: number;
   };
 }
 
+// Aggregate CPU times from os.cpus() where /proc/stat is not available
+function osCpuTimes(): CpuTimes {
+  return os.cpus().reduce<CpuTimes>((sum, cpu) => {
+    const { user, nice, sys, idle, irq } = cpu.times;
+    return {
+      user: sum.user + user + nice,
+      system: sum.system + sys + irq,
+      idle: sum.idle + idle,
+      total: sum.total + user + nice + sys + idle + irq
+    };
+  }, { user: 0, system: 0, idle: 0, total: 0 });
+}
+
+// Byte totals over every interface except loopback
+function externalTraffic(interfaces: Record<string, InterfaceCounters> | null): InterfaceCounters {
+  return Object.entries(interfaces || {})
+    .filter(([name]) => name !== 'lo')
+    .reduce((sum, [, counters]) => ({
+      bytesReceived: sum.bytesReceived + counters.bytesReceived,
+      bytesSent: sum.bytesSent + counters.bytesSent
+    }), { bytesReceived: 0, bytesSent: 0 });
+}
+
 class SystemMonitor {
   private previousCpuUsage: NodeJS.CpuUsage;
+  private previousCpuTimes: CpuTimes;
+  private previousTraffic: InterfaceCounters;
+  private initialTraffic: InterfaceCounters;
+  private previousSampleTime: number;
+  private openFilesSampledAt: number = 0;
   private startTime: number;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private metrics: SystemMetrics;
 
   constructor() {
     this.previousCpuUsage = process.cpuUsage();
+    this.previousCpuTimes = readCpuTimes() || osCpuTimes();
+    this.initialTraffic = externalTraffic(readNetDev());
+    this.previousTraffic = this.initialTraffic;
     this.startTime = Date.now();
+    this.previousSampleTime = this.startTime;
     this.metrics = this.getInitialMetrics();
   }
 
   private getInitialMetrics(): SystemMetrics {
     return {
-      cpu: { user: 0, system: 0, idle: 0, usage: 0 },
+      source: readCpuTimes() ? 'procfs' : 'os',
+      cpu: { user: 0, system: 0, idle: 0, usage: 0, cores: os.cpus().length },
       memory: { total: 0, free: 0, used: 0, available: 0, usagePercent: 0 },
       process: {
         pid: process.pid,
         memory: process.memoryUsage(),
         cpu: process.cpuUsage(),
-        uptime: 0
+        cpuPercent: 0,
+        uptime: 0,
+        openFiles: null,
+        maxOpenFiles: null
       },
-      network: { connections: 0, bytesReceived: 0, bytesSent: 0 }
+      network: {
+        connections: 0,
+        timeWait: 0,
+        orphans: 0,
+        tcpSockets: 0,
+        bytesReceived: 0,
+        bytesSent: 0,
+        receiveRate: 0,
+        sendRate: 0
+      }
     };
   }
 
@@ -72,41 +147,79 @@ class SystemMonitor {
     }
   }
 
+  /**
+   * Rates and percentages cover the time since the previous update, whether
+   * that was the monitoring interval or an on-demand getMetrics() call.
+   */
   private updateMetrics(): void {
+    const now = Date.now();
+    const elapsedSeconds = Math.max(0.001, (now - this.previousSampleTime) / 1000);
+    this.previousSampleTime = now;
+
     // Update process metrics
     const currentCpuUsage = process.cpuUsage(this.previousCpuUsage);
     const memoryUsage = process.memoryUsage();
-    
+    this.previousCpuUsage = process.cpuUsage();
+
+    const procCpuTimes = readCpuTimes();
+    this.metrics.source = procCpuTimes ? 'procfs' : 'os';
+
+    let openFiles = this.metrics.process.openFiles;
+    if (now - this.openFilesSampledAt >= OPEN_FILES_INTERVAL_MS) {
+      openFiles = countOpenFiles();
+      this.openFilesSampledAt = now;
+    }
+
     this.metrics.process = {
       pid: process.pid,
       memory: memoryUsage,
       cpu: currentCpuUsage,
-      uptime: (Date.now() - this.startTime) / 1000
+      cpuPercent: ((currentCpuUsage.user + currentCpuUsage.system) / 1e6 / elapsedSeconds) * 100,
+      uptime: (now - this.startTime) / 1000,
+      openFiles,
+      maxOpenFiles: readMaxOpenFiles()
     };
 
-    // Calculate CPU usage percentage
-    const totalCpuTime = currentCpuUsage.user + currentCpuUsage.system;
-    const cpuUsagePercent = (totalCpuTime / 1000000) / 5; // 5 second interval
-    
+    // Host CPU from the change in aggregate CPU times
+    const cpuTimes = procCpuTimes || osCpuTimes();
+    const previous = this.previousCpuTimes;
+    const total = cpuTimes.total - previous.total;
+    const percent = (value: number) => (total > 0 ? (value / total) * 100 : 0);
+    this.previousCpuTimes = cpuTimes;
+
     this.metrics.cpu = {
-      user: currentCpuUsage.user,
-      system: currentCpuUsage.system,
-      idle: 0, // Not available in Node.js
-      usage: Math.min(100, cpuUsagePercent * 100)
+      user: percent(cpuTimes.user - previous.user),
+      system: percent(cpuTimes.system - previous.system),
+      idle: percent(cpuTimes.idle - previous.idle),
+      usage: total > 0 ? Math.min(100, 100 - percent(cpuTimes.idle - previous.idle)) : 0,
+      cores: os.cpus().length
     };
 
-    this.previousCpuUsage = process.cpuUsage();
-
-    // Update memory metrics (OS-level not directly available in Node.js)
-    // Using process memory as approximation
+    // Host memory; MemAvailable accounts for reclaimable page cache
+    const memInfo = readMemInfo();
+    const memory = memInfo || { total: os.totalmem(), free: os.freemem(), available: os.freemem() };
     this.metrics.memory = {
-      total: memoryUsage.heapTotal + memoryUsage.external,
-      free: memoryUsage.heapTotal - memoryUsage.heapUsed,
-      used: memoryUsage.heapUsed + memoryUsage.external,
-      available: memoryUsage.heapTotal - memoryUsage.heapUsed,
-      usagePercent: ((memoryUsage.heapUsed + memoryUsage.external) / 
-                    (memoryUsage.heapTotal + memoryUsage.external)) * 100
+      total: memory.total,
+      free: memory.free,
+      used: memory.total - memory.available,
+      available: memory.available,
+      usagePercent: memory.total > 0 ? ((memory.total - memory.available) / memory.total) * 100 : 0
     };
+
+    // TCP socket states and NIC throughput (Linux only, zero elsewhere)
+    const sockets = readSockstat();
+    const traffic = externalTraffic(readNetDev());
+    this.metrics.network = {
+      connections: readTcpEstablished() ?? 0,
+      timeWait: sockets?.timeWait ?? 0,
+      orphans: sockets?.orphans ?? 0,
+      tcpSockets: sockets?.inUse ?? 0,
+      bytesReceived: traffic.bytesReceived - this.initialTraffic.bytesReceived,
+      bytesSent: traffic.bytesSent - this.initialTraffic.bytesSent,
+      receiveRate: Math.max(0, traffic.bytesReceived - this.previousTraffic.bytesReceived) / elapsedSeconds,
+      sendRate: Math.max(0, traffic.bytesSent - this.previousTraffic.bytesSent) / elapsedSeconds
+    };
+    this.previousTraffic = traffic;
   }
 
   public getMetrics(): SystemMetrics {
@@ -118,42 +231,213 @@ class SystemMonitor {
     const metrics = this.getMetrics();
     const memMB = (metrics.process.memory.rss / 1024 / 1024).toFixed(1);
     const heapMB = (metrics.process.memory.heapUsed / 1024 / 1024).toFixed(1);
-    const heapTotalMB = (metrics.process.memory.heapTotal / 1024 / 1024).toFixed(1);
+    const availableMB = (metrics.memory.available / 1024 / 1024).toFixed(0);
+    const rxMB = (metrics.network.receiveRate / 1024 / 1024).toFixed(2);
+    const txMB = (metrics.network.sendRate / 1024 / 1024).toFixed(2);
+    const maxFiles = metrics.process.maxOpenFiles;
+    const files = metrics.process.openFiles === null ? 'n/a'
+      : `${metrics.process.openFiles}${maxFiles !== null && Number.isFinite(maxFiles) ? `/${maxFiles}` : ''}`;
     
     console.log(`
 ┌─────────────────────────────────────────────────────────────┐
 │ SYSTEM PERFORMANCE METRICS                                 │
 ├─────────────────────────────────────────────────────────────┤
-│ CPU Usage:          ${metrics.cpu.usage.toFixed(1).padStart(6)}% │ Process ID:     ${metrics.process.pid.toString().padStart(8)} │
-│ Memory (RSS):       ${memMB.padStart(8)} MB │ Uptime:     ${Math.floor(metrics.process.uptime).toString().padStart(8)}s │
-│ Heap Used:          ${heapMB.padStart(8)} MB │ Heap Total: ${heapTotalMB.padStart(8)} MB │
-│ Memory Usage:       ${metrics.memory.usagePercent.toFixed(1).padStart(6)}% │                        │
+│ Host CPU:           ${metrics.cpu.usage.toFixed(1).padStart(6)}% │ Process CPU:    ${metrics.process.cpuPercent.toFixed(1).padStart(7)}% │
+│ Memory Used:        ${metrics.memory.usagePercent.toFixed(1).padStart(6)}% │ Available:  ${availableMB.padStart(8)} MB │
+│ Process RSS:        ${memMB.padStart(8)} MB │ Heap Used:  ${heapMB.padStart(8)} MB │
+│ TCP Established:    ${metrics.network.connections.toString().padStart(8)} │ Time Wait:      ${metrics.network.timeWait.toString().padStart(8)} │
+│ TCP Orphans:        ${metrics.network.orphans.toString().padStart(8)} │ Open Files: ${files.padStart(12)} │
+│ Network In:         ${rxMB.padStart(6)} MB/s │ Network Out: ${txMB.padStart(6)} MB/s │
+│ Process ID:         ${metrics.process.pid.toString().padStart(8)} │ Uptime:     ${Math.floor(metrics.process.uptime).toString().padStart(8)}s │
 └─────────────────────────────────────────────────────────────┘
     `);
   }
 }
 
+/**
+ * Read a SocketBenchmarkServer's JSON metrics. Accepts both /metrics and
+ * /health, which wraps the same object with status and uptime.
+ */
+async function fetchServerSnapshot(url: string): Promise<ServerSnapshot> {
+  const response = await fetch(url, {
+    headers: { accept: 'application/json' },
+    signal: AbortSignal.timeout(2000)
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned HTTP ${response.status}`);
+  }
+
+  const body: any = await response.json();
+  const metrics = body?.metrics ?? body;
+  if (typeof metrics?.activeConnections !== 'number') {
+    throw new Error(`${url} did not return SocketBenchmarkServer metrics`);
+  }
+
+  return {
+    activeConnections: metrics.activeConnections,
+    totalConnections: metrics.totalConnections || 0,
+    failedConnections: metrics.failedConnections || 0,
+    cpu: metrics.cpuUsage?.percent || 0,
+    rss: metrics.memoryUsage?.rss || 0,
+    heapUsed: metrics.memoryUsage?.heapUsed || 0,
+    eventLoopP99: metrics.eventLoopDelay?.p99
+  };
+}
+
+/**
+ * Poll a server running in another process (or on another host) and keep a
+ * short history for the live dashboard.
+ */
+class RemoteServerMonitor {
+  private history: ServerSample[] = [];
+  private pollInterval: NodeJS.Timeout | null = null;
+  private lastError: string | null = null;
+  private healthUrl: string;
+
+  constructor(target: string, private readonly maxHistorySize: number = 300) {
+    this.healthUrl = `${new URL(target).origin}/health`;
+  }
+
+  public async poll(): Promise<void> {
+    try {
+      const snapshot = await fetchServerSnapshot(this.healthUrl);
+      this.history.push({ timestamp: Date.now(), ...snapshot });
+      if (this.history.length > this.maxHistorySize) {
+        this.history.shift();
+      }
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  public start(intervalMs: number = 1000): void {
+    this.stop();
+    this.poll();
+    this.pollInterval = setInterval(() => {
+      this.poll();
+    }, intervalMs);
+  }
+
+  public stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  public getHistory(): ServerSample[] {
+    return this.history;
+  }
+
+  public getLastError(): string | null {
+    return this.lastError;
+  }
+
+  public getHealthUrl(): string {
+    return this.healthUrl;
+  }
+}
+
 class PerformanceTracker {
   private connectionHistory: Array<{ timestamp: number; count: number }> = [];
   private errorHistory: Array<{ timestamp: number; error: string }> = [];
   private latencyHistory: Array<{ timestamp: number; latency: number }> = [];
   private systemMonitor: SystemMonitor;
   private maxHistorySize: number = 1000;
+  private timeline: TimelineSample[] = [];
+  private maxTimelineSize: number = 7200; // Two hours at one sample per second
+  private timelineInterval: NodeJS.Timeout | null = null;
+  private latencyWindow: LatencyHistogram = new LatencyHistogram();
+  private lastCpuUsage: NodeJS.CpuUsage = process.cpuUsage();
+  private lastSampleTime: number = Date.now();
+  private activeConnectionsSource?: () => number;
+  private serverMetricsUrl?: string;
 
   constructor() {
     this.systemMonitor = new SystemMonitor();
   }
 
-  public startTracking(): void {
+  public startTracking(sampleIntervalMs: number = 1000): void {
     this.systemMonitor.startMonitoring(5000);
+
+    // The timeline describes one run, unlike the rolling histories above
+    this.timeline = [];
+    this.latencyWindow = new LatencyHistogram();
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastSampleTime = Date.now();
+    if (this.timelineInterval) {
+      clearInterval(this.timelineInterval);
+    }
+    this.timelineInterval = setInterval(() => {
+      this.recordSample();
+    }, sampleIntervalMs);
+
     console.log('📈 Performance tracking started');
   }
 
   public stopTracking(): void {
     this.systemMonitor.stopMonitoring();
+    if (this.timelineInterval) {
+      clearInterval(this.timelineInterval);
+      this.timelineInterval = null;
+    }
+    this.activeConnectionsSource = undefined;
     console.log('📈 Performance tracking stopped');
   }
 
+  /**
+   * Sample the active connection count of a running tester on every tick.
+   */
+  public trackActiveConnections(source: () => number): void {
+    this.activeConnectionsSource = source;
+  }
+
+  /**
+   * Poll the target's /metrics endpoint on every tick. Targets that are not a
+   * SocketBenchmarkServer simply leave the server columns empty.
+   */
+  public trackServer(metricsUrl: string): void {
+    this.serverMetricsUrl = metricsUrl;
+  }
+
+  private async recordSample(): Promise<void> {
+    const now = Date.now();
+    const cpu = process.cpuUsage(this.lastCpuUsage);
+    const elapsedMs = Math.max(1, now - this.lastSampleTime);
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastSampleTime = now;
+
+    const window = this.latencyWindow;
+    this.latencyWindow = new LatencyHistogram();
+
+    const sample: TimelineSample = {
+      timestamp: now,
+      activeConnections: this.activeConnectionsSource?.(),
+      latency: window.getTotalCount() > 0 ? {
+        count: window.getTotalCount(),
+        p50: window.getValueAtPercentile(50),
+        p90: window.getValueAtPercentile(90),
+        p99: window.getValueAtPercentile(99)
+      } : undefined,
+      cpu: Math.min(100, ((cpu.user + cpu.system) / 1000 / elapsedMs) * 100),
+      rss: process.memoryUsage().rss
+    };
+
+    this.timeline.push(sample);
+    if (this.timeline.length > this.maxTimelineSize) {
+      this.timeline.shift();
+    }
+
+    if (this.serverMetricsUrl) {
+      sample.server = await fetchServerSnapshot(this.serverMetricsUrl).catch(() => undefined);
+    }
+  }
+
+  public getTimeline(): TimelineSample[] {
+    return this.timeline;
+  }
+
   public recordConnection(count: number): void {
     this.connectionHistory.push({
       timestamp: Date.now(),
@@ -178,6 +462,7 @@ class PerformanceTracker {
   }
 
   public recordLatency(latency: number): void {
+    this.latencyWindow.recordValue(latency);
     this.latencyHistory.push({
       timestamp: Date.now(),
       latency
@@ -188,6 +473,20 @@ class PerformanceTracker {
     }
   }
 
+  // Round trips measured elsewhere (worker threads, agents), merged into the current sample
+  public recordLatencies(window: HistogramSnapshot): void {
+    if (window.totalCount === 0) return;
+    this.latencyWindow.merge(window);
+    this.latencyHistory.push({
+      timestamp: Date.now(),
+      latency: window.sum / window.totalCount / 1000 // Snapshots hold microseconds
+    });
+
+    if (this.latencyHistory.length > this.maxHistorySize) {
+      this.latencyHistory.shift();
+    }
+  }
+
   public getConnectionTrend(minutes: number = 5): Array<{ timestamp: number; count: number }> {
     const cutoffTime = Date.now() - (minutes * 60 * 1000);
     return this.connectionHistory.filter(entry => entry.timestamp > cutoffTime);
@@ -238,6 +537,7 @@ class PerformanceTracker {
       connectionHistory: this.connectionHistory,
       errorHistory: this.errorHistory,
       latencyHistory: this.latencyHistory,
+      timeline: this.timeline,
       systemMetrics: this.systemMonitor.getMetrics(),
       summary: {
         errorRate: this.getErrorRate(),
@@ -250,29 +550,68 @@ class PerformanceTracker {
 
 // CLI interface for standalone monitoring
 if (require.main === module) {
-  const monitor = new SystemMonitor();
-  const tracker = new PerformanceTracker();
-
-  console.log('🎯 Starting standalone performance monitor...');
-  
-  monitor.startMonitoring(5000);
-  tracker.startTracking();
-
-  // Print metrics every 10 seconds
-  const printInterval = setInterval(() => {
-    console.clear();
-    monitor.printMetrics();
-    tracker.printPerformanceReport();
-  }, 10000);
-
-  // Graceful shutdown
-  process.on('SIGINT', () => {
-    console.log('\n🛑 Shutting down monitor...');
-    clearInterval(printInterval);
-    monitor.stopMonitoring();
-    tracker.stopTracking();
-    process.exit(0);
-  });
+  program
+    .option('-t, --target <url>', 'poll a running server (e.g. http://localhost:3000) and show a live dashboard')
+    .option('-i, --interval <ms>', 'refresh interval in ms (default: 1000 with --target, 10000 otherwise)')
+    .parse();
+  const options = program.opts();
+
+  if (options.target) {
+    let remote: RemoteServerMonitor;
+    try {
+      remote = new RemoteServerMonitor(options.target);
+    } catch {
+      console.error(`Invalid --target URL: ${options.target}`);
+      process.exit(1);
+    }
+
+    const intervalMs = parseInt(options.interval) || 1000;
+    const dashboard = new Dashboard(() => {
+      const history = remote.getHistory();
+      const error = remote.getLastError();
+      const status = error ? chalk.red(`unreachable: ${error}`) : chalk.green('up');
+      return [
+        chalk.blue.bold(`📡 SOCKET.IO SERVER MONITOR  ${remote.getHealthUrl()}  ${status}`),
+        chalk.gray(`Refreshing every ${intervalMs}ms, ${new Date().toLocaleTimeString()} (Ctrl+C to exit)`),
+        '',
+        ...renderPanel('SERVER', serverSeries(history))
+      ];
+    }, intervalMs);
+
+    remote.start(intervalMs);
+    dashboard.start();
+
+    process.on('SIGINT', () => {
+      dashboard.stop();
+      remote.stop();
+      console.log('\n🛑 Shutting down monitor...');
+      process.exit(0);
+    });
+  } else {
+    const monitor = new SystemMonitor();
+    const tracker = new PerformanceTracker();
+
+    console.log('🎯 Starting standalone performance monitor...');
+    
+    monitor.startMonitoring(5000);
+    tracker.startTracking();
+
+    // Print metrics every 10 seconds
+    const printInterval = setInterval(() => {
+      console.clear();
+      monitor.printMetrics();
+      tracker.printPerformanceReport();
+    }, parseInt(options.interval) || 10000);
+
+    // Graceful shutdown
+    process.on('SIGINT', () => {
+      console.log('\n🛑 Shutting down monitor...');
+      clearInterval(printInterval);
+      monitor.stopMonitoring();
+      tracker.stopTracking();
+      process.exit(0);
+    });
+  }
 }
 
-export { PerformanceTracker, SystemMonitor };
+export { fetchServerSnapshot, PerformanceTracker, RemoteServerMonitor, SystemMonitor };
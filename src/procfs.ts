@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+
+/**
+ * Readers for the Linux /proc files the system monitor uses. Every reader
+ * returns null when the file is missing or unparsable (other platforms,
+ * restricted containers), so callers can fall back to the `os` module.
+ */
+
+export interface CpuTimes {
+  user: number; // jiffies, including nice
+  system: number; // including irq/softirq
+  idle: number; // including iowait
+  total: number;
+}
+
+export interface MemInfo {
+  total: number; // bytes
+  free: number;
+  available: number;
+}
+
+export interface InterfaceCounters {
+  bytesReceived: number;
+  bytesSent: number;
+}
+
+export interface TcpSocketCounts {
+  inUse: number;
+  orphans: number;
+  timeWait: number;
+}
+
+function readFile(file: string): string | null {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+// Aggregate "cpu" line of /proc/stat
+export function readCpuTimes(): CpuTimes | null {
+  const content = readFile('/proc/stat');
+  const line = content?.split('\n').find(l => l.startsWith('cpu '));
+  if (!line) return null;
+
+  const [user, nice, system, idle, iowait = 0, irq = 0, softirq = 0, steal = 0] = line.trim().split(/\s+/).slice(1).map(Number);
+  if ([user, nice, system, idle].some(value => !Number.isFinite(value))) return null;
+  return {
+    user: user + nice,
+    system: system + irq + softirq,
+    idle: idle + iowait,
+    total: user + nice + system + idle + iowait + irq + softirq + steal
+  };
+}
+
+export function readMemInfo(): MemInfo | null {
+  const content = readFile('/proc/meminfo');
+  if (!content) return null;
+
+  const fields: Record<string, number> = {};
+  content.split('\n').forEach(line => {
+    const match = line.match(/^(\w+):\s+(\d+)\s*kB/);
+    if (match) fields[match[1]] = parseInt(match[2], 10) * 1024;
+  });
+  if (fields.MemTotal === undefined || fields.MemFree === undefined) return null;
+
+  // MemAvailable is missing on kernels before 3.14
+  const available = fields.MemAvailable ?? fields.MemFree + (fields.Buffers || 0) + (fields.Cached || 0);
+  return { total: fields.MemTotal, free: fields.MemFree, available };
+}
+
+// Cumulative byte counters per interface from /proc/net/dev
+export function readNetDev(): Record<string, InterfaceCounters> | null {
+  const content = readFile('/proc/net/dev');
+  if (!content) return null;
+
+  const interfaces: Record<string, InterfaceCounters> = {};
+  content.split('\n').slice(2).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const fields = line.slice(separator + 1).trim().split(/\s+/).map(Number);
+    interfaces[line.slice(0, separator).trim()] = { bytesReceived: fields[0], bytesSent: fields[8] };
+  });
+  return interfaces;
+}
+
+// TCP line of /proc/net/sockstat (IPv4 and IPv6 share these counters)
+export function readSockstat(): TcpSocketCounts | null {
+  const line = readFile('/proc/net/sockstat')?.split('\n').find(l => l.startsWith('TCP:'));
+  if (!line) return null;
+
+  const value = (name: string): number => {
+    const match = line.match(new RegExp(`\\b${name} (\\d+)`));
+    return match ? parseInt(match[1], 10) : 0;
+  };
+  return { inUse: value('inuse'), orphans: value('orphan'), timeWait: value('tw') };
+}
+
+// CurrEstab from the Tcp MIB in /proc/net/snmp, without walking /proc/net/tcp
+export function readTcpEstablished(): number | null {
+  const lines = readFile('/proc/net/snmp')?.split('\n').filter(l => l.startsWith('Tcp:'));
+  if (!lines || lines.length < 2) return null;
+
+  const names = lines[0].trim().split(/\s+/);
+  const values = lines[1].trim().split(/\s+/);
+  const index = names.indexOf('CurrEstab');
+  return index > 0 ? parseInt(values[index], 10) : null;
+}
+
+export function countOpenFiles(pid: number | 'self' = 'self'): number | null {
+  try {
+    return fs.readdirSync(`/proc/${pid}/fd`).length;
+  } catch {
+    return null;
+  }
+}
+
+// Soft "Max open files" limit of the process
+export function readMaxOpenFiles(pid: number | 'self' = 'self'): number | null {
+  const line = readFile(`/proc/${pid}/limits`)?.split('\n').find(l => l.startsWith('Max open files'));
+  const match = line?.match(/^Max open files\s+(\d+|unlimited)/);
+  if (!match) return null;
+  return match[1] === 'unlimited' ? Infinity : parseInt(match[1], 10);
+}
@@ -0,0 +1,119 @@
+import { BenchmarkConfig, LoadPhase } from './types';
+
+// Split total into `parts` integers that differ by at most one
+export function shard(total: number, parts: number): number[] {
+  const base = Math.floor(total / parts);
+  const remainder = total % parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+// Connection rate per generator; below one connection per second each gets an equal fraction, so the total stays the same
+export function shardRate(rate: number, parts: number): number[] {
+  return rate >= parts ? shard(rate, parts) : Array.from({ length: parts }, () => rate / parts);
+}
+
+/**
+ * Split a load profile so that `parts` generators together follow the
+ * original one: every phase target is sharded, timings stay the same.
+ */
+export function shardProfile(profile: LoadPhase[], parts: number): LoadPhase[][] {
+  const targets = profile.map(phase => shard(phase.target, parts));
+  return Array.from({ length: parts }, (_, i) =>
+    profile.map((phase, p) => ({ ...phase, target: targets[p][i] }))
+  );
+}
+
+// Seconds needed to open `connections` at the configured rate
+function rampAtRate(connections: number, config: BenchmarkConfig): number {
+  return Math.ceil(connections / Math.max(1, config.connectionRate));
+}
+
+/**
+ * Built-in profiles, scaled to targetConnections, connectionRate and testDuration.
+ */
+export function presetProfile(name: string, config: BenchmarkConfig): LoadPhase[] {
+  const n = config.targetConnections;
+  const d = config.testDuration;
+
+  switch (name) {
+    case 'step': {
+      // Formerly the separate incremental test: 10/25/50/75% steps, then the full target
+      const steps = [0.1, 0.25, 0.5, 0.75].map(f => Math.floor(n * f));
+      let previous = 0;
+      const phases: LoadPhase[] = steps.map(target => {
+        const phase = { name: `step-${target}`, target, rampSeconds: rampAtRate(target - previous, config), holdSeconds: 10 };
+        previous = target;
+        return phase;
+      });
+      phases.push({ name: 'full', target: n, rampSeconds: rampAtRate(n - previous, config), holdSeconds: d });
+      return phases;
+    }
+    case 'spike': {
+      const base = Math.floor(n / 2);
+      const hold = Math.max(1, Math.floor(d / 3));
+      return [
+        { name: 'baseline', target: base, rampSeconds: rampAtRate(base, config), holdSeconds: hold },
+        { name: 'spike', target: n, rampSeconds: 0, holdSeconds: hold },
+        { name: 'recover', target: base, rampSeconds: 0, holdSeconds: hold },
+        { name: 'ramp-down', target: 0, rampSeconds: rampAtRate(base, config), holdSeconds: 0 }
+      ];
+    }
+    case 'soak':
+      return [
+        { name: 'ramp-up', target: n, rampSeconds: rampAtRate(n, config), holdSeconds: 0 },
+        { name: 'soak', target: n, rampSeconds: 0, holdSeconds: d },
+        { name: 'ramp-down', target: 0, rampSeconds: rampAtRate(n, config), holdSeconds: 0 }
+      ];
+    default:
+      throw new Error(`Unknown load profile "${name}" (presets: step, spike, soak)`);
+  }
+}
+
+/**
+ * Parse `target:rampSeconds:holdSeconds[:name]` phases separated by commas,
+ * e.g. `1000:60:120:warmup,5000:0:30:spike,0:30:0`.
+ */
+export function parseProfileSpec(spec: string): LoadPhase[] {
+  return spec.split(',').map((part, i) => {
+    const [target, ramp, hold, name] = part.trim().split(':');
+    const phase: LoadPhase = {
+      name: name || `phase-${i + 1}`,
+      target: parseInt(target),
+      rampSeconds: parseFloat(ramp),
+      holdSeconds: parseFloat(hold)
+    };
+    validatePhase(phase, i);
+    return phase;
+  });
+}
+
+export function validatePhase(phase: LoadPhase, index: number): void {
+  const label = `Load phase ${index + 1}${phase.name ? ` (${phase.name})` : ''}`;
+  if (!Number.isInteger(phase.target) || phase.target < 0) {
+    throw new Error(`${label}: target must be a non-negative integer`);
+  }
+  if (!(phase.rampSeconds >= 0)) {
+    throw new Error(`${label}: rampSeconds must be >= 0`);
+  }
+  if (!(phase.holdSeconds >= 0)) {
+    throw new Error(`${label}: holdSeconds must be >= 0`);
+  }
+}
+
+/**
+ * Resolve the --profile option: a preset name or an inline phase list.
+ */
+export function resolveProfile(value: string, config: BenchmarkConfig): LoadPhase[] {
+  return value.includes(':') ? parseProfileSpec(value) : presetProfile(value, config);
+}
+
+/**
+ * Planned length of a run in seconds: the profile's ramps and holds, or the
+ * time to open every connection at the configured rate plus testDuration.
+ */
+export function expectedRunSeconds(config: BenchmarkConfig): number {
+  if (config.loadProfile) {
+    return config.loadProfile.reduce((total, phase) => total + phase.rampSeconds + phase.holdSeconds, 0);
+  }
+  return rampAtRate(config.targetConnections, config) + config.testDuration;
+}
@@ -0,0 +1,103 @@
+// Prometheus text exposition format, version 0.0.4
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type MetricType = 'counter' | 'gauge';
+type Labels = Record<string, string | number>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+function escapeLabel(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function seriesKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(name => `${name}="${escapeLabel(labels[name])}"`).join(',');
+}
+
+/**
+ * A labelled counter or gauge. Series are keyed by their label set, so
+ * `inc({ reason: 'transport close' })` creates the series on first use.
+ */
+class Metric {
+  private series: Map<string, Sample> = new Map();
+
+  constructor(public readonly name: string, public readonly help: string, public readonly type: MetricType) {}
+
+  public inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  public dec(labels: Labels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  public set(labels: Labels, value: number): void {
+    this.series.set(seriesKey(labels), { labels: { ...labels }, value });
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+
+  public render(): string {
+    const lines = [`# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${this.name} ${this.type}`];
+    this.series.forEach(sample => {
+      const key = seriesKey(sample.labels);
+      lines.push(`${this.name}${key ? `{${key}}` : ''} ${formatValue(sample.value)}`);
+    });
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Minimal metrics registry. Collectors run before every scrape so gauges
+ * derived from process state (heap, event loop) are read at scrape time.
+ */
+class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Array<() => void> = [];
+
+  public counter(name: string, help: string): Metric {
+    return this.register(name, help, 'counter');
+  }
+
+  public gauge(name: string, help: string): Metric {
+    return this.register(name, help, 'gauge');
+  }
+
+  public collect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  public render(): string {
+    this.collectors.forEach(collector => collector());
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register(name: string, help: string, type: MetricType): Metric {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    const metric = new Metric(name, help, type);
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export { Metric, MetricsRegistry };
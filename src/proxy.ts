@@ -0,0 +1,316 @@
+import * as net from 'net';
+import { FaultKind, FaultSchedule, ProxyOptions, ProxyStats } from './types';
+
+export const FAULT_KINDS: FaultKind[] = ['stall', 'half-open', 'reset', 'kill'];
+
+const DEFAULT_STALL_MS = 5000;
+// Stop reading from a side while this much is waiting to be forwarded
+const MAX_QUEUED_BYTES = 1024 * 1024;
+
+// "stall:30:0.1:5000" → every 30s, stall 10% of the open connections for 5s
+export function parseFault(spec: string): FaultSchedule {
+  const [kind, every, fraction, duration] = spec.split(':').map(part => part.trim());
+  const schedule: FaultSchedule = {
+    kind: kind as FaultKind,
+    every: Number(every),
+    fraction: Number(fraction),
+    duration: duration === undefined || duration === '' ? DEFAULT_STALL_MS : Number(duration)
+  };
+
+  if (!FAULT_KINDS.includes(schedule.kind)) {
+    throw new Error(`Invalid fault "${spec}" (kind must be one of: ${FAULT_KINDS.join(', ')})`);
+  }
+  if (!(schedule.every > 0) || !(schedule.fraction > 0 && schedule.fraction <= 1) || !(schedule.duration >= 0)) {
+    throw new Error(`Invalid fault "${spec}" (expected kind:everySeconds:fraction[:durationMs] with a fraction between 0 and 1)`);
+  }
+  return schedule;
+}
+
+// A delay, bandwidth or interval option: a finite number, 0 or more
+export function parseNonNegative(name: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a number of 0 or more)`);
+  }
+  return number;
+}
+
+export function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port "${value}" (expected 1-65535)`);
+  }
+  return port;
+}
+
+// "host:port" or just "port" (localhost)
+export function parseHostPort(value: string): { host: string; port: number } {
+  const separator = value.lastIndexOf(':');
+  const host = separator >= 0 ? value.slice(0, separator) : 'localhost';
+  const port = Number(separator >= 0 ? value.slice(separator + 1) : value);
+  if (!host || !Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid address "${value}" (expected host:port)`);
+  }
+  return { host, port };
+}
+
+/**
+ * One direction of a proxied connection. Chunks are held until their delay
+ * (latency ± jitter, plus transmission time under a bandwidth cap) has passed,
+ * never overtake each other, and are not released at all while stalled.
+ */
+class Pipe {
+  private queue: Array<{ chunk: Buffer; at: number }> = [];
+  private queuedBytes: number = 0;
+  private lineFreeAt: number = 0;
+  private lastReleaseAt: number = 0;
+  private stalledUntil: number = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private blackholed: boolean = false;
+
+  constructor(
+    private readonly source: net.Socket,
+    private readonly sink: net.Socket,
+    private readonly options: ProxyOptions,
+    private readonly onForward: (bytes: number) => void
+  ) {
+    source.on('data', (chunk: Buffer) => this.push(chunk));
+  }
+
+  public stall(until: number): void {
+    this.stalledUntil = Math.max(this.stalledUntil, until);
+    this.reschedule();
+  }
+
+  // Swallow everything from now on without closing either side
+  public blackhole(): void {
+    this.blackholed = true;
+    this.queue = [];
+    this.queuedBytes = 0;
+    this.stop();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private push(chunk: Buffer): void {
+    if (this.blackholed) return;
+
+    const now = Date.now();
+    const { latency, jitter, bandwidth } = this.options;
+    const transmitMs = bandwidth > 0 ? (chunk.length / bandwidth) * 1000 : 0;
+    this.lineFreeAt = Math.max(now, this.lineFreeAt) + transmitMs;
+    const delay = Math.max(0, latency + (Math.random() * 2 - 1) * jitter);
+    // TCP delivers in order, so a chunk never leaves before the one ahead of it
+    const at = Math.max(this.lineFreeAt + delay, this.lastReleaseAt);
+    this.lastReleaseAt = at;
+
+    this.queue.push({ chunk, at });
+    this.queuedBytes += chunk.length;
+    if (this.queuedBytes > MAX_QUEUED_BYTES) {
+      this.source.pause();
+    }
+    this.flush();
+  }
+
+  private flush(): void {
+    const now = Date.now();
+    while (this.queue.length > 0 && this.queue[0].at <= now && this.stalledUntil <= now) {
+      const { chunk } = this.queue.shift()!;
+      this.queuedBytes -= chunk.length;
+      this.sink.write(chunk);
+      this.onForward(chunk.length);
+    }
+
+    if (this.source.isPaused() && this.queuedBytes <= MAX_QUEUED_BYTES / 2) {
+      this.source.resume();
+    }
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, Math.max(this.queue[0].at, this.stalledUntil) - now);
+    }
+  }
+
+  private reschedule(): void {
+    this.stop();
+    this.flush();
+  }
+}
+
+interface Link {
+  client: net.Socket;
+  upstream: net.Socket;
+  toServer: Pipe;
+  toClient: Pipe;
+  faulted: boolean; // Hit by a fault; errors from here on are ours
+  halfOpen: boolean;
+}
+
+/**
+ * TCP proxy between load generator and server that shapes traffic (latency,
+ * jitter, bandwidth) and injects faults on a schedule, so clients see real
+ * network failures instead of clean client-side closes.
+ */
+class ChaosProxy {
+  private options: ProxyOptions;
+  private server: net.Server;
+  private links: Set<Link> = new Set();
+  private timers: NodeJS.Timeout[] = [];
+  private stats: ProxyStats = {
+    accepted: 0,
+    active: 0,
+    bytesToServer: 0,
+    bytesToClient: 0,
+    upstreamErrors: 0,
+    faults: { stall: 0, 'half-open': 0, reset: 0, kill: 0 }
+  };
+
+  constructor(options: ProxyOptions, private readonly statsIntervalMs: number = 5000) {
+    this.options = options;
+    this.server = net.createServer(client => this.accept(client));
+  }
+
+  private accept(client: net.Socket): void {
+    this.stats.accepted++;
+    const upstream = net.connect({ host: this.options.targetHost, port: this.options.targetPort });
+    client.setNoDelay(true);
+    upstream.setNoDelay(true);
+
+    const link: Link = {
+      client,
+      upstream,
+      toServer: new Pipe(client, upstream, this.options, bytes => { this.stats.bytesToServer += bytes; }),
+      toClient: new Pipe(upstream, client, this.options, bytes => { this.stats.bytesToClient += bytes; }),
+      faulted: false,
+      halfOpen: false
+    };
+    this.links.add(link);
+
+    upstream.on('error', (error) => {
+      if (!link.faulted && this.links.has(link)) {
+        this.stats.upstreamErrors++;
+        console.error(`[${new Date().toISOString()}] Upstream error: ${error.message}`);
+      }
+    });
+    // Resets from the client side show up as a close
+    client.on('error', () => {});
+
+    // Either side closing closes the other, except for half-open links whose server side is already gone
+    client.on('close', () => this.close(link));
+    upstream.on('close', () => {
+      if (!link.halfOpen) this.close(link);
+    });
+  }
+
+  private close(link: Link): void {
+    if (!this.links.delete(link)) return;
+    link.toServer.stop();
+    link.toClient.stop();
+    link.client.destroy();
+    link.upstream.destroy();
+  }
+
+  /**
+   * Hit a random `fraction` (at least one) of the open connections with the
+   * fault. Half-open links are left alone; they are already dead to the server.
+   */
+  private inject(fault: FaultSchedule): void {
+    const candidates = Array.from(this.links).filter(link => !link.halfOpen);
+    if (candidates.length === 0) return;
+
+    const count = Math.min(candidates.length, Math.max(1, Math.round(fault.fraction * candidates.length)));
+    // Partial Fisher-Yates shuffle: the first `count` entries are the victims
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(Math.random() * (candidates.length - i));
+      [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+    }
+    candidates.slice(0, count).forEach(link => this.apply(fault, link));
+
+    this.stats.faults[fault.kind] += count;
+    const detail = fault.kind === 'stall' ? ` for ${fault.duration}ms` : '';
+    console.log(`[${new Date().toISOString()}] 💥 ${fault.kind}: ${count} of ${candidates.length} connections${detail}`);
+  }
+
+  private apply(fault: FaultSchedule, link: Link): void {
+    link.faulted = true;
+    switch (fault.kind) {
+      case 'stall': {
+        // Nothing moves in either direction; the connection itself stays up
+        const until = Date.now() + fault.duration;
+        link.toServer.stall(until);
+        link.toClient.stall(until);
+        break;
+      }
+      case 'half-open':
+        // The server sees a close, the client keeps a socket that never answers again
+        link.halfOpen = true;
+        link.toServer.blackhole();
+        link.toClient.blackhole();
+        link.upstream.destroy();
+        break;
+      case 'reset':
+        link.client.resetAndDestroy();
+        link.upstream.resetAndDestroy();
+        this.close(link);
+        break;
+      case 'kill':
+        // Orderly FIN on both sides
+        this.close(link);
+        break;
+    }
+  }
+
+  public async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.listenPort, this.options.listenHost, () => resolve());
+    });
+
+    const { latency, jitter, bandwidth, faults } = this.options;
+    console.log(`
+🔀 Chaos proxy listening on ${this.options.listenHost}:${this.options.listenPort}
+├─ Target: ${this.options.targetHost}:${this.options.targetPort}
+├─ Shaping: ${latency}ms latency ± ${jitter}ms jitter, ${bandwidth > 0 ? `${(bandwidth / 1024).toFixed(0)} KB/s per connection and direction` : 'unlimited bandwidth'}
+└─ Faults: ${faults.length > 0 ? faults.map(describeFault).join(', ') : 'none'}
+    `);
+
+    faults.forEach(fault => {
+      this.timers.push(setInterval(() => this.inject(fault), fault.every * 1000));
+    });
+    if (this.statsIntervalMs > 0) {
+      this.timers.push(setInterval(() => this.printStats(), this.statsIntervalMs));
+    }
+  }
+
+  public getStats(): ProxyStats {
+    return { ...this.stats, active: this.links.size, faults: { ...this.stats.faults } };
+  }
+
+  public printStats(): void {
+    const stats = this.getStats();
+    const faults = FAULT_KINDS.filter(kind => stats.faults[kind] > 0).map(kind => `${kind} ${stats.faults[kind]}`).join(', ');
+    console.log(`[${new Date().toISOString()}] 🔀 active ${stats.active} │ accepted ${stats.accepted} │ → server ${toMB(stats.bytesToServer)} │ → clients ${toMB(stats.bytesToClient)} │ upstream errors ${stats.upstreamErrors}${faults ? ` │ faults: ${faults}` : ''}`);
+  }
+
+  public stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    Array.from(this.links).forEach(link => this.close(link));
+    this.server.close();
+  }
+}
+
+const toMB = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+function describeFault(fault: FaultSchedule): string {
+  const duration = fault.kind === 'stall' ? ` for ${fault.duration}ms` : '';
+  return `${fault.kind} ${+(fault.fraction * 100).toFixed(1)}% every ${fault.every}s${duration}`;
+}
+
+export { ChaosProxy };
@@ -0,0 +1,113 @@
+import { LatencyHistogram } from './histogram';
+import { ConnectionTarget, ReconnectEvent, ReconnectionOptions, ReconnectionResults, ReconnectStorm, ServerRestartOptions } from './types';
+
+export const DEFAULT_RECONNECTION: ReconnectionOptions = {
+  attempts: 10,
+  delay: 1000,
+  delayMax: 5000,
+  jitter: 0.5
+};
+
+export const DEFAULT_RESTART_DOWNTIME_MS = 3000;
+// The server refuses longer downtimes
+export const MAX_RESTART_DOWNTIME_MS = 5 * 60 * 1000;
+
+// Drops at most this far apart belong to the same storm
+const STORM_GAP_MS = 1000;
+// Fewer drops than this in a cluster are ordinary churn
+const MIN_STORM_DROPS = 5;
+
+function histogramOf(values: number[]): LatencyHistogram {
+  const histogram = new LatencyHistogram();
+  values.forEach(value => histogram.recordValue(value));
+  return histogram;
+}
+
+const timeToReconnect = (event: ReconnectEvent): number => event.reconnectedAt! - event.droppedAt;
+
+/**
+ * Group drops into storms: runs of drops no more than STORM_GAP_MS apart with
+ * at least MIN_STORM_DROPS in them.
+ */
+function findStorms(events: ReconnectEvent[]): ReconnectStorm[] {
+  const sorted = [...events].sort((a, b) => a.droppedAt - b.droppedAt);
+  const clusters: ReconnectEvent[][] = [];
+  sorted.forEach(event => {
+    const current = clusters[clusters.length - 1];
+    if (current && event.droppedAt - current[current.length - 1].droppedAt <= STORM_GAP_MS) {
+      current.push(event);
+    } else {
+      clusters.push([event]);
+    }
+  });
+
+  return clusters.filter(cluster => cluster.length >= MIN_STORM_DROPS).map(cluster => {
+    const reconnected = cluster.filter(event => event.reconnectedAt !== undefined);
+    const times = histogramOf(reconnected.map(timeToReconnect));
+    const start = cluster[0].droppedAt;
+    const end = reconnected.reduce((latest, event) => Math.max(latest, event.reconnectedAt!), start);
+
+    const perSecond = new Map<number, number>();
+    reconnected.forEach(event => {
+      const second = Math.floor(event.reconnectedAt! / 1000);
+      perSecond.set(second, (perSecond.get(second) || 0) + 1);
+    });
+
+    return {
+      startedAt: new Date(start).toISOString(),
+      duration: (end - start) / 1000,
+      drops: cluster.length,
+      reconnected: reconnected.length,
+      recovered: cluster.filter(event => event.recovered).length,
+      gaveUp: cluster.filter(event => event.gaveUp).length,
+      peakReconnectsPerSecond: Math.max(0, ...perSecond.values()),
+      timeToReconnect: { p50: times.getValueAtPercentile(50), p99: times.getValueAtPercentile(99), max: times.getMax() }
+    };
+  });
+}
+
+export function summarizeReconnections(events: ReconnectEvent[], replayed: number): ReconnectionResults {
+  const reconnected = events.filter(event => event.reconnectedAt !== undefined);
+  const times = histogramOf(reconnected.map(timeToReconnect));
+
+  return {
+    drops: events.length,
+    reconnected: reconnected.length,
+    recovered: events.filter(event => event.recovered).length,
+    gaveUp: events.filter(event => event.gaveUp).length,
+    pending: events.filter(event => event.reconnectedAt === undefined && !event.gaveUp).length,
+    attempts: events.reduce((sum, event) => sum + event.attempts, 0),
+    timeToReconnect: {
+      mean: times.getMean(),
+      p50: times.getValueAtPercentile(50),
+      p90: times.getValueAtPercentile(90),
+      p99: times.getValueAtPercentile(99),
+      max: times.getMax()
+    },
+    replayed,
+    storms: findStorms(events)
+  };
+}
+
+/**
+ * Ask a SocketBenchmarkServer to drop every connection and refuse handshakes
+ * for `downtime` ms. Without keepSessions the server also forgets connection
+ * state, as a real restart would. The server only allows this when it was
+ * started with ADMIN_TOKEN, which restart.token has to match.
+ */
+export async function requestServerRestart(target: ConnectionTarget, restart: ServerRestartOptions): Promise<void> {
+  const scheme = target.scheme === 'wss' || target.scheme === 'https' ? 'https' : 'http';
+  const url = `${scheme}://${target.host}:${target.port}/restart`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      ...(restart.token ? { authorization: `Bearer ${restart.token}` } : {})
+    },
+    body: JSON.stringify({ downtime: restart.downtime, keepSessions: restart.keepSessions }),
+    signal: AbortSignal.timeout(5000)
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned HTTP ${response.status}`);
+  }
+}
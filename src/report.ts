@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import { BenchmarkExport, ConnectionBreakdown, ConnectionResult, TimelineSample } from './types';
+
+/**
+ * Summarize per-connection results into the distributions the HTML report
+ * charts, so exports stay small even for tens of thousands of connections.
+ */
+export function buildConnectionBreakdown(results: ConnectionResult[]): ConnectionBreakdown {
+  const disconnectionReasons: Record<string, number> = {};
+  const retryDistribution: Record<number, number> = {};
+  const timeline = new Map<number, { started: number; succeeded: number; failed: number }>();
+
+  // reduce rather than Math.min(...) so very large runs do not overflow the argument stack
+  const firstStart = results.reduce((first, r) => (r.startedAt ? Math.min(first, new Date(r.startedAt).getTime()) : first), Infinity);
+
+  results.forEach(result => {
+    if (result.disconnectionReason) {
+      disconnectionReasons[result.disconnectionReason] = (disconnectionReasons[result.disconnectionReason] || 0) + 1;
+    }
+
+    const retries = result.retryCount || 0;
+    retryDistribution[retries] = (retryDistribution[retries] || 0) + 1;
+
+    if (result.startedAt) {
+      const startedAt = new Date(result.startedAt).getTime();
+      const startSecond = Math.floor((startedAt - firstStart) / 1000);
+      const endSecond = Math.floor((startedAt + result.connectionTime - firstStart) / 1000);
+      const bucket = (second: number) => {
+        if (!timeline.has(second)) timeline.set(second, { started: 0, succeeded: 0, failed: 0 });
+        return timeline.get(second)!;
+      };
+      bucket(startSecond).started++;
+      if (result.success) {
+        bucket(endSecond).succeeded++;
+      } else {
+        bucket(endSecond).failed++;
+      }
+    }
+  });
+
+  const lastSecond = timeline.size > 0 ? Math.max(...timeline.keys()) : -1;
+  const connectTimeline = Array.from({ length: lastSecond + 1 }, (_, second) => ({
+    second,
+    ...(timeline.get(second) || { started: 0, succeeded: 0, failed: 0 })
+  }));
+
+  return { disconnectionReasons, retryDistribution, connectTimeline };
+}
+
+// "Failed after 4 attempts. Last error: xhr poll error" is reported as "xhr poll error"
+function errorCategory(message: string): string {
+  const match = message.match(/Last error: (.*)$/);
+  return match ? match[1] : message;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatNumber(value: number): string {
+  if (Math.abs(value) >= 1000) return Math.round(value).toLocaleString('en-US');
+  if (Math.abs(value) >= 10) return value.toFixed(0);
+  return value.toFixed(value % 1 === 0 ? 0 : 1);
+}
+
+const COLORS = ['#2563eb', '#16a34a', '#dc2626', '#d97706', '#7c3aed', '#0891b2'];
+const WIDTH = 760;
+const HEIGHT = 260;
+const MARGIN = { top: 20, right: 20, bottom: 36, left: 64 };
+
+interface Series {
+  name: string;
+  points: Array<[number, number]>; // [x, y]
+}
+
+function lineChart(title: string, series: Series[], xLabel: string, yLabel: string): string {
+  const drawn = series.filter(s => s.points.length > 0);
+  if (drawn.length === 0) {
+    return emptyChart(title);
+  }
+
+  const xs = drawn.flatMap(s => s.points.map(p => p[0]));
+  const ys = drawn.flatMap(s => s.points.map(p => p[1]));
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(xMin + 1, ...xs);
+  const yMax = Math.max(1, ...ys) * 1.1;
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (value: number) => MARGIN.left + ((value - xMin) / (xMax - xMin)) * plotWidth;
+  const y = (value: number) => MARGIN.top + plotHeight - (value / yMax) * plotHeight;
+
+  const grid = [0, 0.25, 0.5, 0.75, 1].map(f => {
+    const value = yMax * f;
+    return `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(value)}" y2="${y(value)}" class="grid"/>`
+      + `<text x="${MARGIN.left - 6}" y="${y(value) + 4}" text-anchor="end">${formatNumber(value)}</text>`;
+  }).join('');
+
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map(f => {
+    const value = xMin + (xMax - xMin) * f;
+    return `<text x="${x(value)}" y="${HEIGHT - MARGIN.bottom + 16}" text-anchor="middle">${formatNumber(value)}</text>`;
+  }).join('');
+
+  const lines = drawn.map((s, i) => {
+    const path = s.points.map(([px, py], j) => `${j === 0 ? 'M' : 'L'}${x(px).toFixed(1)},${y(py).toFixed(1)}`).join(' ');
+    return `<path d="${path}" fill="none" stroke="${COLORS[i % COLORS.length]}" stroke-width="2"/>`;
+  }).join('');
+
+  const legend = drawn.map((s, i) =>
+    `<span><i style="background:${COLORS[i % COLORS.length]}"></i>${escapeHtml(s.name)}</span>`
+  ).join('');
+
+  return `<section class="chart"><h2>${escapeHtml(title)}</h2>
+<svg viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${escapeHtml(title)}">${grid}${xTicks}${lines}
+<text x="${MARGIN.left + plotWidth / 2}" y="${HEIGHT - 4}" text-anchor="middle" class="axis">${escapeHtml(xLabel)}</text>
+<text x="14" y="${MARGIN.top + plotHeight / 2}" text-anchor="middle" class="axis" transform="rotate(-90 14 ${MARGIN.top + plotHeight / 2})">${escapeHtml(yLabel)}</text>
+</svg><div class="legend">${legend}</div></section>`;
+}
+
+function barChart(title: string, bars: Array<{ label: string; value: number }>): string {
+  if (bars.length === 0) {
+    return emptyChart(title);
+  }
+
+  const max = Math.max(1, ...bars.map(b => b.value));
+  const rows = bars.map((bar, i) => `<tr><td class="label" title="${escapeHtml(bar.label)}">${escapeHtml(bar.label)}</td>`
+    + `<td class="bar"><div style="width:${((bar.value / max) * 100).toFixed(1)}%;background:${COLORS[i % COLORS.length]}"></div></td>`
+    + `<td class="value">${bar.value.toLocaleString('en-US')}</td></tr>`).join('');
+
+  return `<section class="chart"><h2>${escapeHtml(title)}</h2><table class="bars">${rows}</table></section>`;
+}
+
+function emptyChart(title: string): string {
+  return `<section class="chart"><h2>${escapeHtml(title)}</h2><p class="empty">No data recorded for this run.</p></section>`;
+}
+
+function sortedBars(counts: Record<string, number>): Array<{ label: string; value: number }> {
+  return Object.entries(counts)
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value);
+}
+
+function summaryTable(results: BenchmarkExport): string {
+  const rows: Array<[string, string]> = [
+    ['Target connections', (results.config.targetConnections || 0).toLocaleString('en-US')],
+    ['Successful', `${(results.successfulConnections || 0).toLocaleString('en-US')} (${(results.connectionSuccessRate || 0).toFixed(1)}%)`],
+    ['Failed', (results.failedConnections || 0).toLocaleString('en-US')
+      // Older exports do not tell auth and transport failures apart
+      + (results.failedConnections && results.authFailures !== undefined ? ` (${results.authFailures.toLocaleString('en-US')} auth, ${(results.failedConnections - results.authFailures).toLocaleString('en-US')} transport)` : '')],
+    ['Retention', `${(results.connectionRetentionRate || 0).toFixed(1)}%`],
+    ['Spontaneous disconnects', (results.spontaneousDisconnections || 0).toLocaleString('en-US')],
+    ['Peak concurrent', (results.maxConcurrentConnections || 0).toLocaleString('en-US')],
+    ['Connect time', `${(results.averageConnectionTime || 0).toFixed(0)}ms avg, ${(results.connectionTimeP99 || 0).toFixed(0)}ms p99`],
+    ['Peak memory (load generator)', `${((results.peakMemoryUsage || 0) / 1024 / 1024).toFixed(1)} MB`],
+    ['Peak CPU (load generator)', `${(results.peakCpuUsage || 0).toFixed(1)}%`
+      // Older exports have no host figure
+      + (results.hostCpuUsage !== undefined ? ` (host ${results.hostCpuUsage.toFixed(1)}%)` : '')],
+    ['Duration', `${(results.totalDuration || 0).toFixed(1)}s`]
+  ];
+  if (results.transport) {
+    const t = results.transport;
+    const onTransports = Object.entries(t.connections).map(([name, count]) => `${name} ${count.toLocaleString('en-US')}`).join(', ');
+    rows.push(['Final transport', (onTransports || 'unknown')
+      + (t.upgradeTime ? ` (${t.upgraded.toLocaleString('en-US')} upgraded, ${t.upgradeTime.p50.toFixed(0)}ms p50, ${t.upgradeTime.p99.toFixed(0)}ms p99)` : '')]);
+  }
+  if (results.reconnection) {
+    const r = results.reconnection;
+    rows.push(['Reconnected', `${r.reconnected.toLocaleString('en-US')} of ${r.drops.toLocaleString('en-US')} drops (${r.recovered.toLocaleString('en-US')} sessions recovered, ${r.gaveUp.toLocaleString('en-US')} gave up)`]);
+    rows.push(['Time to reconnect', `${r.timeToReconnect.p50.toFixed(0)}ms p50, ${r.timeToReconnect.p99.toFixed(0)}ms p99`]);
+  }
+
+  const latencyRows = Object.entries(results.latency || {}).map(([category, summary]) => summary
+    ? `<tr><td>${escapeHtml(category)}</td><td>${summary.count.toLocaleString('en-US')}</td><td>${summary.p50.toFixed(1)}</td><td>${summary.p90.toFixed(1)}</td><td>${summary.p99.toFixed(1)}</td><td>${summary.p999.toFixed(1)}</td><td>${summary.max.toFixed(1)}</td></tr>`
+    : '').join('');
+
+  const thresholdRows = (results.thresholds?.results || []).map(result =>
+    `<tr class="${result.passed ? 'pass' : 'fail'}"><td>${escapeHtml(result.threshold)}</td><td>${result.limit}</td><td>${Number.isFinite(result.actual) ? result.actual.toFixed(1) : 'n/a'}</td><td>${result.passed ? 'PASS' : 'FAIL'}</td></tr>`
+  ).join('');
+
+  return `<section class="summary"><h2>Summary</h2><table>${rows.map(([k, v]) => `<tr><th>${k}</th><td>${escapeHtml(v)}</td></tr>`).join('')}</table></section>`
+    + (latencyRows ? `<section class="summary"><h2>Latency (ms)</h2><table><tr><th>Type</th><th>Samples</th><th>p50</th><th>p90</th><th>p99</th><th>p99.9</th><th>max</th></tr>${latencyRows}</table></section>` : '')
+    + (thresholdRows ? `<section class="summary"><h2>Thresholds</h2><table><tr><th>Threshold</th><th>Limit</th><th>Actual</th><th>Result</th></tr>${thresholdRows}</table></section>` : '');
+}
+
+/**
+ * Render a self-contained HTML report (inline CSS and SVG, no external assets)
+ * from an exported run.
+ */
+export function renderHtmlReport(results: BenchmarkExport): string {
+  const timeline: TimelineSample[] = results.performanceMetrics?.timeline || [];
+  const origin = timeline.length > 0 ? timeline[0].timestamp : 0;
+  const seconds = (sample: TimelineSample) => (sample.timestamp - origin) / 1000;
+  const breakdown = results.breakdown;
+
+  const pick = (name: string, value: (sample: TimelineSample) => number | undefined): Series => ({
+    name,
+    points: timeline
+      .map(sample => [seconds(sample), value(sample)] as [number, number | undefined])
+      .filter((point): point is [number, number] => point[1] !== undefined)
+  });
+
+  const errorCategories: Record<string, number> = {};
+  Object.entries(results.errorBreakdown || {}).forEach(([message, count]) => {
+    const category = errorCategory(message);
+    errorCategories[category] = (errorCategories[category] || 0) + count;
+  });
+
+  const charts = [
+    lineChart('Active connections', [
+      pick('Load generator', s => s.activeConnections),
+      pick('Server', s => s.server?.activeConnections)
+    ], 'seconds', 'connections'),
+    lineChart('Connection rate', [
+      { name: 'Started', points: (breakdown?.connectTimeline || []).map(b => [b.second, b.started]) },
+      { name: 'Succeeded', points: (breakdown?.connectTimeline || []).map(b => [b.second, b.succeeded]) },
+      { name: 'Failed', points: (breakdown?.connectTimeline || []).map(b => [b.second, b.failed]) }
+    ], 'seconds since first attempt', 'connections / s'),
+    lineChart('Round-trip latency', [
+      pick('p50', s => s.latency?.p50),
+      pick('p90', s => s.latency?.p90),
+      pick('p99', s => s.latency?.p99)
+    ], 'seconds', 'ms'),
+    barChart('Disconnection reasons', sortedBars(breakdown?.disconnectionReasons || {})),
+    barChart('Error categories', sortedBars(errorCategories)),
+    barChart('Retries per connection', Object.entries(breakdown?.retryDistribution || {})
+      .map(([retries, value]) => ({ label: `${retries} ${retries === '1' ? 'retry' : 'retries'}`, value }))),
+    lineChart('CPU', [
+      pick('Server', s => s.server?.cpu),
+      pick('Load generator', s => s.cpu)
+    ], 'seconds', '%'),
+    lineChart('Memory (RSS)', [
+      pick('Server', s => (s.server ? s.server.rss / 1024 / 1024 : undefined)),
+      pick('Load generator', s => s.rss / 1024 / 1024)
+    ], 'seconds', 'MB')
+  ];
+
+  const title = `Socket.IO benchmark - ${(results.config.targetConnections || 0).toLocaleString('en-US')} connections`;
+  const started = results.startTime ? new Date(results.startTime).toISOString() : 'unknown';
+  const target = results.config.serverHost ? `${results.config.serverScheme || 'http'}://${results.config.serverHost}:${results.config.serverPort}${results.config.namespace && results.config.namespace !== '/' ? results.config.namespace : ''}` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 24px; color: #111827; background: #f9fafb; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+.meta { color: #6b7280; margin-bottom: 20px; }
+.grid-layout { display: grid; grid-template-columns: repeat(auto-fit, minmax(480px, 1fr)); gap: 16px; }
+section { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; }
+h2 { font-size: 15px; margin: 0 0 8px; }
+svg { width: 100%; height: auto; font-size: 11px; fill: #6b7280; }
+svg .grid { stroke: #e5e7eb; }
+svg .axis { font-size: 12px; }
+.legend span { margin-right: 14px; font-size: 12px; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f3f4f6; }
+.bars .label { width: 40%; max-width: 240px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.bars .bar div { height: 12px; border-radius: 2px; }
+.bars .value { width: 80px; text-align: right; }
+tr.pass td { color: #16a34a; }
+tr.fail td { color: #dc2626; }
+.empty { color: #9ca3af; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${escapeHtml(target)} · started ${escapeHtml(started)}${results.runId ? ` · run ${escapeHtml(results.runId)}` : ''}</div>
+<div class="grid-layout">
+${summaryTable(results)}
+${charts.join('\n')}
+</div>
+</body>
+</html>
+`;
+}
+
+export function writeHtmlReport(results: BenchmarkExport, filename: string): void {
+  fs.writeFileSync(filename, renderHtmlReport(results));
+}
@@ -0,0 +1,84 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BenchmarkConfig } from './types';
+
+export const DEFAULT_RUNS_DIR = './runs';
+
+// Sent with every handshake so the server can attribute connections to a run
+export const RUN_ID_HEADER = 'x-benchmark-run-id';
+
+// What a run directory holds
+export interface RunPaths {
+  dir: string;
+  logs: string;
+  config: string; // Snapshot of the resolved config, secrets redacted
+  results: string; // JSON export
+  report: string; // HTML report
+  capacity: string; // find-limit results
+  matrix: string; // matrix comparison; each transport mode's run is a subdirectory named after the mode
+}
+
+/**
+ * Sortable by start time and unique across concurrent runs, e.g.
+ * 20261019-185323-3f9a1c.
+ */
+export function createRunId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+// Run IDs become directory names and header values
+export function parseRunId(value: string): string {
+  const runId = value.trim();
+  if (!/^[A-Za-z0-9._-]+$/.test(runId) || runId === '.' || runId === '..') {
+    throw new Error(`Invalid run ID "${value}" (letters, digits, ".", "_" and "-" only)`);
+  }
+  return runId;
+}
+
+export function runPaths(runDir: string): RunPaths {
+  return {
+    dir: runDir,
+    logs: path.join(runDir, 'logs'),
+    config: path.join(runDir, 'config.json'),
+    results: path.join(runDir, 'results.json'),
+    report: path.join(runDir, 'report.html'),
+    capacity: path.join(runDir, 'capacity.json'),
+    matrix: path.join(runDir, 'matrix.json')
+  };
+}
+
+/**
+ * Give the config a run ID and directory under runsDir (unless it already has
+ * them), create the directory and write the config snapshot into it.
+ */
+export function prepareRun(config: BenchmarkConfig, runsDir: string = DEFAULT_RUNS_DIR): BenchmarkConfig {
+  const runId = config.runId || createRunId();
+  const prepared: BenchmarkConfig = { ...config, runId, runDir: config.runDir || path.join(runsDir, runId) };
+  const paths = runPaths(prepared.runDir!);
+
+  fs.mkdirSync(paths.logs, { recursive: true });
+  fs.writeFileSync(paths.config, JSON.stringify(redactConfig(prepared), null, 2));
+  return prepared;
+}
+
+// Keep tokens and auth headers out of archived runs
+function redactConfig(config: BenchmarkConfig): BenchmarkConfig {
+  const redact = (value: string | undefined) => (value ? '[redacted]' : value);
+  return {
+    ...config,
+    token: redact(config.token) as string,
+    headers: config.headers && Object.fromEntries(
+      Object.entries(config.headers).map(([name, value]) => [name, /auth|token|cookie/i.test(name) ? '[redacted]' : value])
+    ),
+    serverRestart: config.serverRestart && { ...config.serverRestart, token: redact(config.serverRestart.token) },
+    auth: config.auth && {
+      ...config.auth,
+      jwtSecret: redact(config.auth.jwtSecret),
+      loginBody: config.auth.loginBody && Object.fromEntries(
+        Object.entries(config.auth.loginBody).map(([name, value]) => [name, /pass|secret|token/i.test(name) ? '[redacted]' : value])
+      )
+    }
+  };
+}
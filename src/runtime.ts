@@ -0,0 +1,121 @@
+import * as os from 'os';
+import { constants, IntervalHistogram, monitorEventLoopDelay, PerformanceObserver } from 'perf_hooks';
+import { ActiveHandleStats, EventLoopDelayStats, GcKind, GcStats } from './types';
+
+const GC_KINDS: Record<number, GcKind> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: 'minor',
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: 'major',
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: 'incremental',
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: 'weakcb'
+};
+
+const nsToMs = (ns: number): number => ns / 1e6;
+
+/**
+ * CPU, event-loop delay, garbage-collection pauses and handles of the current
+ * process. Delay and GC are sampled by Node itself, so the cost is a timer and
+ * an observer rather than anything per connection.
+ */
+class RuntimeMonitor {
+  private eventLoop: IntervalHistogram;
+  private gcObserver: PerformanceObserver | null = null;
+  private gc: Record<GcKind, GcStats> = RuntimeMonitor.emptyGcStats();
+  private lastCpuUsage: NodeJS.CpuUsage = process.cpuUsage();
+  private lastCpuTime: bigint = process.hrtime.bigint();
+
+  constructor(private readonly resolutionMs: number = 10) {
+    this.eventLoop = monitorEventLoopDelay({ resolution: resolutionMs });
+  }
+
+  private static emptyGcStats(): Record<GcKind, GcStats> {
+    const empty = (): GcStats => ({ count: 0, totalMs: 0, maxMs: 0 });
+    return { minor: empty(), major: empty(), incremental: empty(), weakcb: empty() };
+  }
+
+  public start(): void {
+    this.eventLoop.enable();
+    if (this.gcObserver) return;
+
+    this.gcObserver = new PerformanceObserver(list => {
+      list.getEntries().forEach(entry => {
+        // Node 16+ moved the kind into `detail`
+        const kind = GC_KINDS[(entry as any).detail?.kind ?? (entry as any).kind];
+        if (!kind) return;
+        const stats = this.gc[kind];
+        stats.count++;
+        stats.totalMs += entry.duration;
+        stats.maxMs = Math.max(stats.maxMs, entry.duration);
+      });
+    });
+    this.gcObserver.observe({ entryTypes: ['gc'] });
+  }
+
+  public stop(): void {
+    this.eventLoop.disable();
+    this.gcObserver?.disconnect();
+    this.gcObserver = null;
+  }
+
+  /**
+   * Delay percentiles in milliseconds since the last reset. The raw histogram
+   * includes the sampling timer itself, so the resolution is subtracted and an
+   * idle loop reports close to 0.
+   */
+  public getEventLoopDelay(): EventLoopDelayStats {
+    if (this.eventLoop.count === 0) {
+      return { min: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+    }
+    const lag = (ns: number): number => Math.max(0, nsToMs(ns) - this.resolutionMs);
+    return {
+      min: lag(this.eventLoop.min),
+      mean: lag(this.eventLoop.mean),
+      p50: lag(this.eventLoop.percentile(50)),
+      p90: lag(this.eventLoop.percentile(90)),
+      p99: lag(this.eventLoop.percentile(99)),
+      max: lag(this.eventLoop.max)
+    };
+  }
+
+  public resetEventLoopDelay(): void {
+    this.eventLoop.reset();
+  }
+
+  /**
+   * CPU used since the previous call as a percentage of all cores, so 100
+   * means every core was busy and a saturated single thread shows 100 / cores.
+   */
+  public sampleCpuPercent(): number {
+    const now = process.hrtime.bigint();
+    const usage = process.cpuUsage(this.lastCpuUsage);
+    const elapsedUs = Number(now - this.lastCpuTime) / 1000;
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastCpuTime = now;
+
+    if (elapsedUs <= 0) return 0;
+    return Math.min(100, ((usage.user + usage.system) / elapsedUs / os.cpus().length) * 100);
+  }
+
+  // Handles and requests keeping the event loop alive, by resource type
+  public getActiveHandles(): ActiveHandleStats {
+    const byType: Record<string, number> = {};
+    const resources: string[] = typeof (process as any).getActiveResourcesInfo === 'function'
+      ? (process as any).getActiveResourcesInfo()
+      : [];
+    resources.forEach(type => {
+      byType[type] = (byType[type] || 0) + 1;
+    });
+    return { total: resources.length, byType };
+  }
+
+  // Cumulative since start()
+  public getGcStats(): Record<GcKind, GcStats> {
+    return {
+      minor: { ...this.gc.minor },
+      major: { ...this.gc.major },
+      incremental: { ...this.gc.incremental },
+      weakcb: { ...this.gc.weakcb }
+    };
+  }
+}
+
+export { RuntimeMonitor };
@@ -0,0 +1,433 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { parseAuthProvider } from './auth';
+import { parseLogLevel } from './logger';
+import { DEFAULT_RECONNECTION, DEFAULT_RESTART_DOWNTIME_MS, MAX_RESTART_DOWNTIME_MS } from './reconnect';
+import { parseScheme, parseTargetUrl, parseTransportMode, parseTransports, transportsForMode } from './target';
+import { AuthOptions, AuthProviderKind, BenchmarkConfig, CapacityThresholds, LoadPhase, SloThresholds } from './types';
+
+/**
+ * A benchmark run described in a YAML or JSON file. `config` only holds the
+ * fields the file sets; the CLI fills in everything else.
+ */
+export interface Scenario {
+  name?: string;
+  description?: string;
+  config: Partial<BenchmarkConfig>;
+  profile?: string | LoadPhase[]; // Preset name or explicit phases, resolved once the config is complete
+  thresholds?: Partial<CapacityThresholds> & SloThresholds; // run checks the SloThresholds keys, find-limit the capacity ones
+  output?: { json?: string; html?: string };
+}
+
+type Fields = Record<string, unknown>;
+
+// Keys allowed in each section, so typos are reported instead of silently ignored
+const SECTIONS: Record<string, string[]> = {
+  '': ['name', 'description', 'target', 'load', 'workload', 'reconnect', 'auth', 'logging', 'thresholds', 'output'],
+  target: ['url', 'scheme', 'host', 'port', 'path', 'namespace', 'transports', 'transport', 'tls', 'localAddress'],
+  'target.tls': ['rejectUnauthorized', 'caFile'],
+  load: ['connections', 'rate', 'duration', 'workers', 'localAddresses', 'agents', 'maxRetries', 'retryDelay', 'profile', 'phases'],
+  workload: ['message', 'messageInterval', 'messageSize', 'throughput', 'rooms', 'publishers', 'serverPublishRate'],
+  reconnect: ['enabled', 'attempts', 'delay', 'delayMax', 'jitter', 'restart'],
+  'reconnect.restart': ['at', 'downtime', 'keepSessions', 'token'],
+  auth: [
+    'token', 'companyId', 'headers', 'provider', 'identities', 'file', 'loginUrl', 'loginBody', 'tokenField', 'loginRate',
+    'tokenTtl', 'jwtSecret', 'jwtKeyFile', 'jwtClaims', 'jwtExpiresIn'
+  ],
+  logging: ['level', 'sampling', 'maxFileSizeMb', 'maxFiles'],
+  thresholds: [
+    'minSuccessRate', 'minRetentionRate', 'maxConnectP99', 'maxLatencyP99', 'maxSpontaneousDisconnects',
+    'maxMemoryPerConnectionKb', 'maxPingFailureRate', 'maxDisconnectRate'
+  ],
+  output: ['json', 'html']
+};
+
+// Each non-static auth provider needs at least one of these keys
+const AUTH_REQUIREMENTS: Record<Exclude<AuthProviderKind, 'static'>, Array<keyof AuthOptions>> = {
+  file: ['file'],
+  login: ['loginUrl'],
+  jwt: ['jwtSecret', 'jwtKeyFile']
+};
+
+/**
+ * Collects every problem in the file so they can be reported together.
+ */
+class ScenarioReader {
+  public errors: string[] = [];
+
+  public section(parent: Fields, key: string, sectionPath: string): Fields | undefined {
+    const value = parent[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.errors.push(`${sectionPath}: expected a mapping`);
+      return undefined;
+    }
+    this.checkKeys(value as Fields, sectionPath);
+    return value as Fields;
+  }
+
+  public checkKeys(fields: Fields, sectionPath: string): void {
+    const allowed = SECTIONS[sectionPath] || [];
+    Object.keys(fields).forEach(key => {
+      if (!allowed.includes(key)) {
+        this.errors.push(`${join(sectionPath, key)}: unknown key (expected one of: ${allowed.join(', ')})`);
+      }
+    });
+  }
+
+  public string(fields: Fields | undefined, key: string, sectionPath: string): string | undefined {
+    const value = fields?.[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      this.errors.push(`${join(sectionPath, key)}: expected a string`);
+      return undefined;
+    }
+    return String(value);
+  }
+
+  // Numeric strings are accepted because interpolated values are always strings
+  public number(fields: Fields | undefined, key: string, sectionPath: string, options: { min?: number; max?: number; integer?: boolean } = {}): number | undefined {
+    const value = fields?.[key];
+    if (value === undefined || value === null) return undefined;
+
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    const where = join(sectionPath, key);
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      this.errors.push(`${where}: expected a number, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(parsed)) {
+      this.errors.push(`${where}: expected an integer, got ${parsed}`);
+      return undefined;
+    }
+    if (options.min !== undefined && parsed < options.min) {
+      this.errors.push(`${where}: must be >= ${options.min}, got ${parsed}`);
+      return undefined;
+    }
+    if (options.max !== undefined && parsed > options.max) {
+      this.errors.push(`${where}: must be <= ${options.max}, got ${parsed}`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  public boolean(fields: Fields | undefined, key: string, sectionPath: string): boolean | undefined {
+    const value = fields?.[key];
+    if (value === undefined || value === null) return undefined;
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    this.errors.push(`${join(sectionPath, key)}: expected true or false`);
+    return undefined;
+  }
+
+  // Accepts a list or a comma-separated string, like the CLI flags
+  public list(fields: Fields | undefined, key: string, sectionPath: string): string[] | undefined {
+    const value = fields?.[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'string') {
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      return value as string[];
+    }
+    this.errors.push(`${join(sectionPath, key)}: expected a list of strings`);
+    return undefined;
+  }
+
+  public stringMap(fields: Fields | undefined, key: string, sectionPath: string): Record<string, string> | undefined {
+    const value = fields?.[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.errors.push(`${join(sectionPath, key)}: expected a mapping of header names to values`);
+      return undefined;
+    }
+    return Object.fromEntries(Object.entries(value as Fields).map(([name, v]) => [name, String(v)]));
+  }
+
+  // Run a parser from target.ts / profile.ts and record its error against the key
+  public parse<T>(where: string, fn: () => T): T | undefined {
+    try {
+      return fn();
+    } catch (error) {
+      this.errors.push(`${where}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+}
+
+function join(sectionPath: string, key: string): string {
+  return sectionPath ? `${sectionPath}.${key}` : key;
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in every string value, so secrets such
+ * as tokens can stay out of the file.
+ */
+export function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv, errors: string[], where: string = ''): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+      const resolved = env[name];
+      if (resolved !== undefined && resolved !== '') return resolved;
+      if (fallback !== undefined) return fallback;
+      errors.push(`${where || '(root)'}: environment variable ${name} is not set`);
+      return '';
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolateEnv(item, env, errors, `${where}[${i}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Fields).map(([key, item]) => [key, interpolateEnv(item, env, errors, join(where, key))])
+    );
+  }
+  return value;
+}
+
+function readPhases(reader: ScenarioReader, value: unknown): LoadPhase[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    reader.errors.push('load.phases: expected a non-empty list of phases');
+    return undefined;
+  }
+
+  const phases: LoadPhase[] = [];
+  value.forEach((item, i) => {
+    const where = `load.phases[${i}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      reader.errors.push(`${where}: expected a mapping with target, rampSeconds and holdSeconds`);
+      return;
+    }
+    const fields = item as Fields;
+    const target = reader.number(fields, 'target', where, { integer: true, min: 0 });
+    const rampSeconds = reader.number(fields, 'rampSeconds', where, { min: 0 }) ?? 0;
+    const holdSeconds = reader.number(fields, 'holdSeconds', where, { min: 0 }) ?? 0;
+    if (target === undefined) {
+      if (fields.target === undefined) reader.errors.push(`${where}.target: required`);
+      return;
+    }
+
+    phases.push({ name: reader.string(fields, 'name', where) || `phase-${i + 1}`, target, rampSeconds, holdSeconds });
+  });
+  return phases;
+}
+
+// Event name → fraction of entries kept, e.g. { PING_SUCCESS: 0.1 }
+function readSampling(reader: ScenarioReader, value: unknown): Record<string, number> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    reader.errors.push('logging.sampling: expected a mapping of event names to rates');
+    return undefined;
+  }
+
+  const sampling: Record<string, number> = {};
+  Object.keys(value as Fields).forEach(event => {
+    const rate = reader.number(value as Fields, event, 'logging.sampling', { min: 0, max: 1 });
+    if (rate !== undefined) sampling[event.toUpperCase()] = rate;
+  });
+  return sampling;
+}
+
+/**
+ * Validate an already parsed document and map it onto BenchmarkConfig fields.
+ * Throws one error listing every problem found.
+ */
+export function buildScenario(document: unknown, env: NodeJS.ProcessEnv = process.env, source: string = 'scenario'): Scenario {
+  const reader = new ScenarioReader();
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`${source}: expected a mapping at the top level`);
+  }
+
+  const root = interpolateEnv(document, env, reader.errors) as Fields;
+  reader.checkKeys(root, '');
+
+  const config: Partial<BenchmarkConfig> = {};
+  const scenario: Scenario = {
+    name: reader.string(root, 'name', ''),
+    description: reader.string(root, 'description', ''),
+    config
+  };
+
+  const target = reader.section(root, 'target', 'target');
+  if (target) {
+    const url = reader.string(target, 'url', 'target');
+    if (url) {
+      Object.assign(config, reader.parse('target.url', () => parseTargetUrl(url)));
+    }
+    const scheme = reader.string(target, 'scheme', 'target');
+    if (scheme) config.serverScheme = reader.parse('target.scheme', () => parseScheme(scheme));
+    config.serverHost = reader.string(target, 'host', 'target') ?? config.serverHost;
+    config.serverPort = reader.number(target, 'port', 'target', { integer: true, min: 1, max: 65535 }) ?? config.serverPort;
+    config.socketPath = reader.string(target, 'path', 'target');
+    config.namespace = reader.string(target, 'namespace', 'target') ?? config.namespace;
+    const transports = reader.list(target, 'transports', 'target');
+    if (transports) config.transports = reader.parse('target.transports', () => parseTransports(transports.join(',')));
+    // A transport mode (websocket, polling, upgrade) takes precedence over the list
+    const transport = reader.string(target, 'transport', 'target');
+    if (transport) config.transports = reader.parse('target.transport', () => transportsForMode(parseTransportMode(transport)));
+    config.localAddress = reader.string(target, 'localAddress', 'target');
+
+    const tls = reader.section(target, 'tls', 'target.tls');
+    if (tls) {
+      config.tls = {
+        rejectUnauthorized: reader.boolean(tls, 'rejectUnauthorized', 'target.tls'),
+        caFile: reader.string(tls, 'caFile', 'target.tls')
+      };
+    }
+  }
+
+  const load = reader.section(root, 'load', 'load');
+  if (load) {
+    config.targetConnections = reader.number(load, 'connections', 'load', { integer: true, min: 1 });
+    config.connectionRate = reader.number(load, 'rate', 'load', { integer: true, min: 1 });
+    config.testDuration = reader.number(load, 'duration', 'load', { integer: true, min: 0 });
+    config.workers = reader.number(load, 'workers', 'load', { integer: true, min: 1 });
+    config.localAddresses = reader.list(load, 'localAddresses', 'load');
+    config.agents = reader.list(load, 'agents', 'load');
+    config.maxRetries = reader.number(load, 'maxRetries', 'load', { integer: true, min: 0 });
+    config.retryDelay = reader.number(load, 'retryDelay', 'load', { min: 0 });
+
+    if (load.profile !== undefined && load.phases !== undefined) {
+      reader.errors.push('load: set either profile or phases, not both');
+    } else if (load.phases !== undefined) {
+      scenario.profile = readPhases(reader, load.phases);
+    } else {
+      scenario.profile = reader.string(load, 'profile', 'load');
+    }
+  }
+
+  const workload = reader.section(root, 'workload', 'workload');
+  if (workload) {
+    config.message = reader.string(workload, 'message', 'workload');
+    config.messageInterval = reader.number(workload, 'messageInterval', 'workload', { min: 1 });
+    config.messageSize = reader.number(workload, 'messageSize', 'workload', { integer: true, min: 0 });
+    config.throughputFraction = reader.number(workload, 'throughput', 'workload', { min: 0, max: 1 });
+    config.fanoutRooms = reader.number(workload, 'rooms', 'workload', { integer: true, min: 0 });
+    config.fanoutPublishers = reader.number(workload, 'publishers', 'workload', { integer: true, min: 0 });
+    config.fanoutServerRate = reader.number(workload, 'serverPublishRate', 'workload', { min: 0 });
+  }
+
+  const reconnect = reader.section(root, 'reconnect', 'reconnect');
+  if (reconnect) {
+    if (reader.boolean(reconnect, 'enabled', 'reconnect') !== false) {
+      config.reconnection = {
+        attempts: reader.number(reconnect, 'attempts', 'reconnect', { integer: true, min: 0 }) ?? DEFAULT_RECONNECTION.attempts,
+        delay: reader.number(reconnect, 'delay', 'reconnect', { min: 0 }) ?? DEFAULT_RECONNECTION.delay,
+        delayMax: reader.number(reconnect, 'delayMax', 'reconnect', { min: 0 }) ?? DEFAULT_RECONNECTION.delayMax,
+        jitter: reader.number(reconnect, 'jitter', 'reconnect', { min: 0, max: 1 }) ?? DEFAULT_RECONNECTION.jitter
+      };
+    }
+
+    const restart = reader.section(reconnect, 'restart', 'reconnect.restart');
+    if (restart) {
+      const at = reader.number(restart, 'at', 'reconnect.restart', { min: 0 });
+      if (at === undefined) {
+        if (restart.at === undefined) reader.errors.push('reconnect.restart.at: required');
+      } else {
+        config.serverRestart = {
+          at,
+          downtime: reader.number(restart, 'downtime', 'reconnect.restart', { min: 0, max: MAX_RESTART_DOWNTIME_MS }) ?? DEFAULT_RESTART_DOWNTIME_MS,
+          keepSessions: reader.boolean(restart, 'keepSessions', 'reconnect.restart') ?? false,
+          token: reader.string(restart, 'token', 'reconnect.restart') ?? process.env.ADMIN_TOKEN
+        };
+      }
+    }
+  }
+
+  const auth = reader.section(root, 'auth', 'auth');
+  if (auth) {
+    config.token = reader.string(auth, 'token', 'auth');
+    config.companyId = reader.string(auth, 'companyId', 'auth');
+    config.headers = reader.stringMap(auth, 'headers', 'auth');
+
+    const provider = reader.string(auth, 'provider', 'auth');
+    const kind = provider === undefined ? 'static' : reader.parse('auth.provider', () => parseAuthProvider(provider));
+    if (kind && kind !== 'static') {
+      config.auth = dropUndefined({
+        provider: kind,
+        identities: reader.number(auth, 'identities', 'auth', { integer: true, min: 1 }),
+        file: reader.string(auth, 'file', 'auth'),
+        loginUrl: reader.string(auth, 'loginUrl', 'auth'),
+        loginBody: reader.stringMap(auth, 'loginBody', 'auth'),
+        tokenField: reader.string(auth, 'tokenField', 'auth'),
+        loginRate: reader.number(auth, 'loginRate', 'auth', { min: 0.001 }),
+        tokenTtl: reader.number(auth, 'tokenTtl', 'auth', { min: 0 }),
+        jwtSecret: reader.string(auth, 'jwtSecret', 'auth'),
+        jwtKeyFile: reader.string(auth, 'jwtKeyFile', 'auth'),
+        jwtClaims: reader.stringMap(auth, 'jwtClaims', 'auth'),
+        jwtExpiresIn: reader.number(auth, 'jwtExpiresIn', 'auth', { integer: true, min: 1 })
+      });
+      const needs = AUTH_REQUIREMENTS[kind];
+      if (!needs.some(key => config.auth![key] !== undefined)) {
+        reader.errors.push(`auth: the ${kind} provider needs ${needs.join(' or ')}`);
+      }
+    }
+  }
+
+  const logging = reader.section(root, 'logging', 'logging');
+  if (logging) {
+    const level = reader.string(logging, 'level', 'logging');
+    const maxFileSizeMb = reader.number(logging, 'maxFileSizeMb', 'logging', { min: 0 });
+    config.logging = dropUndefined({
+      level: level === undefined ? undefined : reader.parse('logging.level', () => parseLogLevel(level)),
+      sampling: readSampling(reader, logging.sampling),
+      maxFileSize: maxFileSizeMb === undefined ? undefined : Math.round(maxFileSizeMb * 1024 * 1024),
+      maxFiles: reader.number(logging, 'maxFiles', 'logging', { integer: true, min: 0 })
+    });
+  }
+
+  const thresholds = reader.section(root, 'thresholds', 'thresholds');
+  if (thresholds) {
+    scenario.thresholds = {
+      minSuccessRate: reader.number(thresholds, 'minSuccessRate', 'thresholds', { min: 0, max: 100 }),
+      minRetentionRate: reader.number(thresholds, 'minRetentionRate', 'thresholds', { min: 0, max: 100 }),
+      maxConnectP99: reader.number(thresholds, 'maxConnectP99', 'thresholds', { min: 0 }),
+      maxLatencyP99: reader.number(thresholds, 'maxLatencyP99', 'thresholds', { min: 0 }),
+      maxSpontaneousDisconnects: reader.number(thresholds, 'maxSpontaneousDisconnects', 'thresholds', { integer: true, min: 0 }),
+      maxMemoryPerConnectionKb: reader.number(thresholds, 'maxMemoryPerConnectionKb', 'thresholds', { min: 0 }),
+      maxPingFailureRate: reader.number(thresholds, 'maxPingFailureRate', 'thresholds', { min: 0, max: 100 }),
+      maxDisconnectRate: reader.number(thresholds, 'maxDisconnectRate', 'thresholds', { min: 0, max: 100 })
+    };
+  }
+
+  const output = reader.section(root, 'output', 'output');
+  if (output) {
+    scenario.output = {
+      json: reader.string(output, 'json', 'output'),
+      html: reader.string(output, 'html', 'output')
+    };
+  }
+
+  if (reader.errors.length > 0) {
+    throw new Error(`Invalid scenario ${source}:\n${reader.errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return { ...scenario, config: dropUndefined(config), thresholds: scenario.thresholds && dropUndefined(scenario.thresholds) };
+}
+
+// Unset fields must not overwrite CLI values when the scenario is merged in
+function dropUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * Read a scenario file; `.json` files are parsed as JSON, anything else as YAML.
+ */
+export function loadScenario(file: string, env: NodeJS.ProcessEnv = process.env): Scenario {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read scenario file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let document: unknown;
+  try {
+    document = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Cannot parse scenario file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return buildScenario(document, env, file);
+}
@@ -1,7 +1,107 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
-import { ConnectionMetrics } from './types';
+import { Namespace, Server as SocketIOServer, Socket } from 'socket.io';
+import * as os from 'os';
+import * as v8 from 'v8';
+import { verifyJwt } from './auth';
+import { Metric, MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from './prometheus';
+import { MAX_RESTART_DOWNTIME_MS } from './reconnect';
+import { RUN_ID_HEADER } from './run';
+import { RuntimeMonitor } from './runtime';
+import { ConnectionMetrics, NamespaceMetrics, ServerOptions } from './types';
+
+interface RoomPublisher {
+  room: string;
+  namespace: string;
+  timer: NodeJS.Timeout;
+  seq: number;
+  rate: number; // messages per second
+  size: number; // payload bytes
+  stopAt: number | null;
+}
+
+// Connections per benchmark run, keyed by the run ID header
+interface RunConnections {
+  active: number;
+  total: number;
+  firstSeen: string;
+}
+
+// Runs kept for /health once they have no connections left
+const MAX_FINISHED_RUNS = 20;
+
+// Bounds for publishers started by clients or over HTTP, so one request cannot swamp the server
+const MAX_ROOM_NAME_LENGTH = 256;
+const MAX_PUBLISH_RATE = 10000; // messages per second per room
+const MAX_PUBLISH_SIZE = 1024 * 1024; // payload bytes
+const MAX_PUBLISH_DURATION = 24 * 60 * 60; // seconds
+const DEFAULT_PUBLISH_SIZE = 256;
+
+// Event names counted under their own label; anything else a client sends is counted as "other"
+const METRIC_EVENTS = new Set([
+  'ping', 'test-message', 'benchmark-data', 'join-room', 'leave-room',
+  'room-broadcast', 'broadcast', 'publish-start', 'publish-stop'
+]);
+
+interface PublisherRequest {
+  room: string;
+  rate: number;
+  size: number;
+  duration: number; // seconds, 0 = until stopped
+}
+
+interface ServerMetrics {
+  connections: Metric;
+  authFailures: Metric;
+  activeConnections: Metric;
+  disconnects: Metric;
+  connectionErrors: Metric;
+  eventsReceived: Metric;
+  bytesReceived: Metric;
+  bytesSent: Metric;
+}
+
+// Handshake value sent as the Socket.IO auth payload or, failing that, as a header
+function handshakeValue(socket: Socket, name: string): string | undefined {
+  const value = socket.handshake.auth?.[name] ?? socket.handshake.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined || first === null || first === '' ? undefined : String(first);
+}
+
+// The room named in an event payload; null unless it is a non-empty string of sane length
+function roomOf(data: unknown): string | null {
+  const room = data && typeof data === 'object' ? (data as { room?: unknown }).room : undefined;
+  return typeof room === 'string' && room.length > 0 && room.length <= MAX_ROOM_NAME_LENGTH ? room : null;
+}
+
+// Publisher settings from a publish-start event or POST /publishers, or what is wrong with them
+function parsePublisherRequest(data: any): PublisherRequest | string {
+  const room = roomOf(data);
+  if (room === null) return `room (string of 1-${MAX_ROOM_NAME_LENGTH} characters) is required`;
+
+  const rate = Number(data.rate);
+  const size = data.size === undefined || data.size === null ? DEFAULT_PUBLISH_SIZE : Number(data.size);
+  const duration = data.duration === undefined || data.duration === null ? 0 : Number(data.duration);
+  if (!Number.isFinite(rate) || rate <= 0 || rate > MAX_PUBLISH_RATE) return `rate must be above 0 and at most ${MAX_PUBLISH_RATE} messages/s`;
+  if (!Number.isInteger(size) || size < 0 || size > MAX_PUBLISH_SIZE) return `size must be a whole number of bytes up to ${MAX_PUBLISH_SIZE}`;
+  if (!Number.isFinite(duration) || duration < 0 || duration > MAX_PUBLISH_DURATION) return `duration must be between 0 and ${MAX_PUBLISH_DURATION} seconds`;
+  return { room, rate, size, duration };
+}
+
+// Acknowledge a rejected event when the client asked for an ack
+function rejectEvent(ack: unknown, error: string): void {
+  if (typeof ack === 'function') ack({ error });
+}
+
+const publisherKey = (namespace: string, room: string): string => `${namespace}|${room}`;
+const tenantRoom = (tenant: string): string => `tenant:${tenant}`;
+
+// Size of an engine.io packet payload; framing and HTTP headers are not counted
+function packetBytes(data: unknown): number {
+  if (typeof data === 'string') return Buffer.byteLength(data);
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+  return 0;
+}
 
 class SocketBenchmarkServer {
   private app: express.Application;
@@ -13,9 +113,19 @@ class SocketBenchmarkServer {
   private connectionCount: number = 0;
   private lastConnectionCount: number = 0;
   private lastMetricsTime: number = Date.now();
+  private publishers: Map<string, RoomPublisher> = new Map();
+  private registry: MetricsRegistry = new MetricsRegistry();
+  private prometheus!: ServerMetrics;
+  private runtime: RuntimeMonitor = new RuntimeMonitor();
+  private runs: Map<string, RunConnections> = new Map();
+  private restarting: boolean = false;
+  private options: ServerOptions;
+  private namespaceMetrics: Map<string, NamespaceMetrics> = new Map();
+  private engineConnections: Set<any> = new Set(); // Open engine.io connections, for restart()
 
-  constructor(port: number = 3000) {
+  constructor(port: number = 3000, options: ServerOptions = {}) {
     this.port = port;
+    this.options = options;
     this.app = express();
     this.server = createServer(this.app);
     this.startTime = new Date();
@@ -36,10 +146,15 @@ class SocketBenchmarkServer {
       cpuUsage: {
         user: 0,
         system: 0,
-        percent: 0
-      }
+        percent: 0,
+        cores: os.cpus().length
+      },
+      eventLoopDelay: { min: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 },
+      gc: this.runtime.getGcStats(),
+      activeHandles: { total: 0, byType: {} }
     };
 
+    this.setupPrometheus();
     this.setupExpress();
     this.setupSocketIO();
     this.startMetricsCollection();
@@ -48,6 +163,7 @@ class SocketBenchmarkServer {
   private setupExpress(): void {
     // Optimize Express for high connections
     this.app.set('trust proxy', true);
+    this.app.use(express.json());
     
     // Health check endpoint
     this.app.get('/health', (req, res) => {
@@ -55,15 +171,81 @@ class SocketBenchmarkServer {
         status: 'healthy',
         uptime: Date.now() - this.startTime.getTime(),
         metrics: this.metrics,
+        namespaces: Object.fromEntries(this.namespaceMetrics),
+        runs: Object.fromEntries(this.runs),
         timestamp: new Date().toISOString()
       });
     });
 
-    // Metrics endpoint
+    // Metrics endpoint: Prometheus text by default, JSON when asked for
     this.app.get('/metrics', (req, res) => {
+      if (req.accepts(['text/plain', 'application/json']) === 'application/json') {
+        res.json(this.metrics);
+        return;
+      }
+      res.type(PROMETHEUS_CONTENT_TYPE).send(this.registry.render());
+    });
+
+    this.app.get('/metrics.json', (req, res) => {
       res.json(this.metrics);
     });
 
+    // Server-driven room publishers; with auth on, callers need the same credentials as clients
+    this.app.use('/publishers', this.authenticateHttp);
+
+    this.app.get('/publishers', (req, res) => {
+      res.json(this.getPublishers(res.locals.tenant));
+    });
+
+    this.app.post('/publishers', (req, res) => {
+      const request = parsePublisherRequest(req.body);
+      if (typeof request === 'string') {
+        res.status(400).json({ error: request });
+        return;
+      }
+      const namespace = req.body.namespace ?? '/';
+      if (this.options.auth?.tenantScoping && !res.locals.tenant) {
+        res.status(400).json({ error: 'companyid is required with tenant scoping' });
+        return;
+      }
+      if (!this.namespaceMetrics.has(namespace)) {
+        res.status(400).json({ error: `namespace ${namespace} is not served` });
+        return;
+      }
+      this.startPublisher(this.roomName(res.locals.tenant, request.room), request.rate, request.size, request.duration, namespace);
+      res.status(201).json(this.getPublishers(res.locals.tenant));
+    });
+
+    this.app.delete('/publishers/:room', (req, res) => {
+      const namespace = typeof req.query.namespace === 'string' ? req.query.namespace : '/';
+      const published = this.stopPublisher(this.roomName(res.locals.tenant, req.params.room), namespace);
+      res.json({ room: req.params.room, namespace, published });
+    });
+
+    // Simulated restart for reconnection benchmarks; it drops everyone, so it needs ADMIN_TOKEN
+    this.app.post('/restart', this.authenticateHttp, (req, res) => {
+      if (!this.options.adminToken) {
+        res.status(403).json({ error: 'Restarts are disabled (start the server with ADMIN_TOKEN to enable them)' });
+        return;
+      }
+      if (req.get('authorization')?.replace(/^Bearer\s+/i, '') !== this.options.adminToken) {
+        res.status(401).json({ error: 'A valid admin token is required' });
+        return;
+      }
+      if (this.restarting) {
+        res.status(409).json({ error: 'A restart is already in progress' });
+        return;
+      }
+      const { downtime, keepSessions } = req.body || {};
+      const downtimeMs = downtime === undefined ? 0 : Number(downtime);
+      if (!Number.isFinite(downtimeMs) || downtimeMs < 0 || downtimeMs > MAX_RESTART_DOWNTIME_MS) {
+        res.status(400).json({ error: `downtime must be between 0 and ${MAX_RESTART_DOWNTIME_MS} ms` });
+        return;
+      }
+      res.status(202).json({ downtime: downtimeMs, keepSessions: !!keepSessions, dropped: this.io.engine.clientsCount });
+      this.restart(downtimeMs, !!keepSessions);
+    });
+
     // Basic info endpoint
     this.app.get('/', (req, res) => {
       res.json({
@@ -97,14 +279,50 @@ class SocketBenchmarkServer {
       connectionStateRecovery: {
         maxDisconnectionDuration: 2 * 60 * 1000,
         skipMiddlewares: true,
-      }
+      },
+      // Refuse handshakes while a simulated restart is in progress
+      allowRequest: (req, callback) => callback(this.restarting ? 'Server restarting' : null, !this.restarting)
+    });
+
+    // Byte counters live on the engine connection, which is shared by all namespaces
+    this.io.engine.on('connection', (conn: any) => {
+      this.engineConnections.add(conn);
+      conn.once('close', () => this.engineConnections.delete(conn));
+      conn.on('packet', (packet: { data?: unknown }) => {
+        this.prometheus.bytesReceived.inc({ transport: conn.transport.name }, packetBytes(packet.data));
+      });
+      conn.on('packetCreate', (packet: { data?: unknown }) => {
+        this.prometheus.bytesSent.inc({ transport: conn.transport.name }, packetBytes(packet.data));
+      });
+    });
+
+    // Each served namespace gets the same handlers (and auth middleware, when configured)
+    (this.options.namespaces || ['/']).forEach(name => this.setupNamespace(this.io.of(name)));
+
+    // Handle server-level errors
+    this.io.engine.on('connection_error', (err) => {
+      console.error(`[${new Date().toISOString()}] Connection error:`, err);
+      this.metrics.failedConnections++;
+      this.prometheus.connectionErrors.inc({ code: String(err.code ?? 'unknown') });
     });
+  }
 
-    // Connection handling
-    this.io.on('connection', (socket) => {
+  private setupNamespace(nsp: Namespace): void {
+    const stats: NamespaceMetrics = { activeConnections: 0, totalConnections: 0, authFailures: 0, tenants: {} };
+    this.namespaceMetrics.set(nsp.name, stats);
+    if (this.authEnabled()) {
+      nsp.use((socket, next) => this.authenticate(socket, stats, next));
+    }
+
+    nsp.on('connection', (socket) => {
       this.connectionCount++;
       this.metrics.totalConnections++;
       this.metrics.activeConnections++;
+      this.instrumentSocket(socket);
+      const runId = this.trackRun(socket);
+      const tenant = this.trackTenant(socket, stats);
+      const scoped = this.options.auth?.tenantScoping === true;
+      if (scoped) socket.join(tenantRoom(tenant!));
 
     //   console.log(`[${new Date().toISOString()}] Client connected: ${socket.id} (Active: ${this.metrics.activeConnections})`);
 
@@ -131,26 +349,407 @@ class SocketBenchmarkServer {
         });
       });
 
+      // Room membership; payloads come from arbitrary clients, so malformed ones are rejected, not trusted
+      socket.on('join-room', (data, ack) => {
+        const room = roomOf(data);
+        if (room === null) return rejectEvent(ack, 'room (non-empty string) is required');
+        socket.join(this.roomName(tenant, room));
+        if (typeof ack === 'function') ack({ room, joined: true });
+      });
+
+      socket.on('leave-room', (data, ack) => {
+        const room = roomOf(data);
+        if (room === null) return rejectEvent(ack, 'room (non-empty string) is required');
+        socket.leave(this.roomName(tenant, room));
+        if (typeof ack === 'function') ack({ room, joined: false });
+      });
+
+      // Fan out to every member of a room, including the sender
+      socket.on('room-broadcast', (data) => {
+        const room = roomOf(data);
+        if (room === null) return;
+        nsp.to(this.roomName(tenant, room)).emit('room-message', {
+          ...data,
+          serverTime: Date.now()
+        });
+      });
+
+      // Fan out to the other clients of the namespace, or of the tenant when scoped; the sender gets the ack
+      socket.on('broadcast', (data, ack) => {
+        const message = {
+          ...(data && typeof data === 'object' ? data : {}),
+          from: socket.id,
+          serverTime: Date.now()
+        };
+        (scoped ? socket.to(tenantRoom(tenant!)) : socket.broadcast).emit('broadcast', message);
+        if (typeof ack === 'function') ack(message);
+      });
+
+      // Let load clients drive a server-side publisher
+      socket.on('publish-start', (data, ack) => {
+        const request = parsePublisherRequest(data);
+        if (typeof request === 'string') return rejectEvent(ack, request);
+        const seq = this.startPublisher(this.roomName(tenant, request.room), request.rate, request.size, request.duration, nsp.name);
+        if (typeof ack === 'function') ack({ room: request.room, publishing: true, seq });
+      });
+
+      socket.on('publish-stop', (data, ack) => {
+        const room = roomOf(data);
+        if (room === null) return rejectEvent(ack, 'room (non-empty string) is required');
+        const published = this.stopPublisher(this.roomName(tenant, room), nsp.name);
+        if (typeof ack === 'function') ack({ room, published });
+      });
+
       // Handle disconnection
       socket.on('disconnect', (reason) => {
         this.metrics.activeConnections--;
+        stats.activeConnections--;
+        if (tenant && --stats.tenants[tenant] <= 0) delete stats.tenants[tenant];
+        if (runId) this.runs.get(runId)!.active--;
         // console.log(`[${new Date().toISOString()}] Client disconnected: ${socket.id} (Active: ${this.metrics.activeConnections}, Reason: ${reason})`);
       });
 
       // Handle errors
       socket.on('error', (error) => {
-        console.error(`[${new Date().toISOString()}] Socket error for ${socket.id}:`, error);
+        console.error(`[${new Date().toISOString()}] Socket error for ${socket.id}${runId ? ` (run ${runId})` : ''}:`, error);
         this.metrics.failedConnections++;
       });
     });
+  }
 
-    // Handle server-level errors
-    this.io.engine.on('connection_error', (err) => {
-      console.error(`[${new Date().toISOString()}] Connection error:`, err);
-      this.metrics.failedConnections++;
+  private describeAuth(): string {
+    const auth = this.options.auth;
+    if (!auth || !this.authEnabled()) return 'none, every client is accepted';
+    const checks = [
+      (auth.tokens?.length || 0) > 0 ? `${auth.tokens!.length} static tokens` : '',
+      auth.jwtSecret ? 'HS256 JWTs' : '',
+      auth.tenants ? `tenants ${auth.tenants.join(', ')}` : '',
+      auth.tenantScoping ? 'rooms and broadcasts scoped by companyid' : ''
+    ];
+    return checks.filter(Boolean).join(', ');
+  }
+
+  private authEnabled(): boolean {
+    const auth = this.options.auth;
+    return !!auth && ((auth.tokens?.length || 0) > 0 || !!auth.jwtSecret || !!auth.tenants || !!auth.tenantScoping);
+  }
+
+  /**
+   * The token must be one of the static tokens or a JWT signed with the
+   * secret, and the companyid (from the token's claim when it has one) must
+   * be allowed. `read` looks up a credential by name. Returns the tenant, or
+   * the reason for rejecting the caller.
+   */
+  private verifyCredentials(read: (name: string) => string | undefined): { tenant?: string } | { reason: string } {
+    const auth = this.options.auth!;
+    let tenant = read('companyid');
+    if ((auth.tokens?.length || 0) > 0 || auth.jwtSecret) {
+      const token = read('authorization')?.replace(/^Bearer\s+/i, '') ?? read('token');
+      if (!token) return { reason: 'missing token' };
+
+      if (!auth.tokens?.includes(token)) {
+        if (!auth.jwtSecret || token.split('.').length !== 3) return { reason: 'invalid token' };
+        let claims: Record<string, unknown>;
+        try {
+          claims = verifyJwt(token, auth.jwtSecret);
+        } catch (error) {
+          return { reason: error instanceof Error ? error.message : 'invalid token' };
+        }
+        // A signed companyid wins over the header, which must not contradict it
+        if (claims.companyid !== undefined) {
+          if (tenant !== undefined && tenant !== String(claims.companyid)) return { reason: 'companyid does not match token' };
+          tenant = String(claims.companyid);
+        }
+      }
+    }
+
+    if (auth.tenantScoping && !tenant) return { reason: 'missing companyid' };
+    if (auth.tenants && (!tenant || !auth.tenants.includes(tenant))) return { reason: 'unknown tenant' };
+    return { tenant };
+  }
+
+  // Handshake middleware; rejections reach the client as connect_error
+  private authenticate(socket: Socket, stats: NamespaceMetrics, next: (error?: Error) => void): void {
+    const result = this.verifyCredentials(name => handshakeValue(socket, name));
+    if ('reason' in result) {
+      stats.authFailures++;
+      this.prometheus.authFailures.inc({ namespace: socket.nsp.name, reason: result.reason });
+      next(Object.assign(new Error(`Unauthorized: ${result.reason}`), { data: { reason: result.reason } }));
+      return;
+    }
+    socket.data.tenant = result.tenant;
+    next();
+  }
+
+  /**
+   * The handshake's checks for HTTP control routes, with credentials taken
+   * from the request headers. The admin token passes and acts for whichever
+   * companyid it names. The caller's tenant is left in res.locals.
+   */
+  private authenticateHttp = (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+    const header = (name: string) => req.get(name) || undefined;
+    if (!this.authEnabled()) {
+      next();
+      return;
+    }
+    if (this.options.adminToken && header('authorization')?.replace(/^Bearer\s+/i, '') === this.options.adminToken) {
+      res.locals.tenant = header('companyid');
+      next();
+      return;
+    }
+    const result = this.verifyCredentials(header);
+    if ('reason' in result) {
+      res.status(401).json({ error: `Unauthorized: ${result.reason}` });
+      return;
+    }
+    res.locals.tenant = result.tenant;
+    next();
+  };
+
+  /**
+   * Count the connection for its namespace and, when auth is on, its tenant.
+   * Without auth the companyid is whatever clients claim, so it is not tracked.
+   */
+  private trackTenant(socket: Socket, stats: NamespaceMetrics): string | undefined {
+    const tenant: string | undefined = this.authEnabled() ? socket.data.tenant : undefined;
+    stats.activeConnections++;
+    stats.totalConnections++;
+    if (tenant) stats.tenants[tenant] = (stats.tenants[tenant] || 0) + 1;
+    return tenant;
+  }
+
+  // With tenant scoping every tenant has its own set of rooms
+  private roomName(tenant: string | undefined, room: string): string {
+    return this.options.auth?.tenantScoping ? `${tenant}/${room}` : room;
+  }
+
+  /**
+   * Count the connection against the run named in its handshake header, so
+   * server logs and /health can be matched with the benchmark's run directory.
+   */
+  private trackRun(socket: Socket): string | undefined {
+    const header = socket.handshake.headers[RUN_ID_HEADER];
+    const runId = Array.isArray(header) ? header[0] : header;
+    if (!runId) return undefined;
+
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = { active: 0, total: 0, firstSeen: new Date().toISOString() };
+      this.runs.set(runId, run);
+      console.log(`[${run.firstSeen}] Run ${runId}: first connection from ${socket.handshake.address}`);
+
+      // Forget the oldest finished runs
+      const finished = Array.from(this.runs).filter(([, r]) => r.active === 0 && r !== run);
+      finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS)).forEach(([id]) => this.runs.delete(id));
+    }
+    run.active++;
+    run.total++;
+    return runId;
+  }
+
+  private setupPrometheus(): void {
+    const registry = this.registry;
+    this.prometheus = {
+      connections: registry.counter('socketio_connections_total', 'Socket.IO connections accepted'),
+      authFailures: registry.counter('socketio_auth_failures_total', 'Handshakes rejected by the auth middleware by namespace and reason'),
+      activeConnections: registry.gauge('socketio_connections_active', 'Currently connected Socket.IO sockets'),
+      disconnects: registry.counter('socketio_disconnects_total', 'Socket.IO disconnections by reason'),
+      connectionErrors: registry.counter('socketio_connection_errors_total', 'Engine.IO handshake errors by code'),
+      eventsReceived: registry.counter('socketio_events_received_total', 'Socket.IO events received from clients by event name'),
+      bytesReceived: registry.counter('socketio_received_bytes_total', 'Engine.IO packet payload bytes received'),
+      bytesSent: registry.counter('socketio_sent_bytes_total', 'Engine.IO packet payload bytes sent')
+    };
+
+    const cpuSeconds = registry.counter('process_cpu_seconds_total', 'CPU time spent by the server process');
+    const cpuPercent = registry.gauge('process_cpu_percent', 'Server CPU over the last metrics interval, % of all cores');
+    const activeHandles = registry.gauge('nodejs_active_resources', 'Handles and requests keeping the event loop alive by type');
+    const eventLoopLag = registry.gauge('nodejs_eventloop_lag_seconds', 'Event-loop delay over the last metrics interval');
+    const gcRuns = registry.counter('nodejs_gc_runs_total', 'Garbage collections by kind');
+    const gcPause = registry.counter('nodejs_gc_pause_seconds_total', 'Time spent paused in garbage collection by kind');
+    const gcMaxPause = registry.gauge('nodejs_gc_pause_max_seconds', 'Longest garbage-collection pause by kind');
+    const heapUsed = registry.gauge('nodejs_heap_used_bytes', 'V8 heap in use');
+    const heapTotal = registry.gauge('nodejs_heap_total_bytes', 'V8 heap allocated');
+    const heapLimit = registry.gauge('nodejs_heap_size_limit_bytes', 'V8 heap size limit');
+    const heapSpaceUsed = registry.gauge('nodejs_heap_space_used_bytes', 'V8 heap in use by space');
+    const external = registry.gauge('nodejs_external_memory_bytes', 'Memory of C++ objects bound to JavaScript objects');
+    const rss = registry.gauge('process_resident_memory_bytes', 'Resident set size');
+
+    registry.collect(() => {
+      const cpu = process.cpuUsage();
+      cpuSeconds.set({ mode: 'user' }, cpu.user / 1e6);
+      cpuSeconds.set({ mode: 'system' }, cpu.system / 1e6);
+      cpuPercent.set({}, this.metrics.cpuUsage.percent);
+
+      activeHandles.reset();
+      Object.entries(this.runtime.getActiveHandles().byType).forEach(([type, count]) => {
+        activeHandles.set({ type }, count);
+      });
+
+      const delay = this.metrics.eventLoopDelay;
+      eventLoopLag.set({ quantile: '0.5' }, delay.p50 / 1000);
+      eventLoopLag.set({ quantile: '0.9' }, delay.p90 / 1000);
+      eventLoopLag.set({ quantile: '0.99' }, delay.p99 / 1000);
+      eventLoopLag.set({ quantile: '1' }, delay.max / 1000);
+
+      Object.entries(this.runtime.getGcStats()).forEach(([kind, stats]) => {
+        gcRuns.set({ kind }, stats.count);
+        gcPause.set({ kind }, stats.totalMs / 1000);
+        gcMaxPause.set({ kind }, stats.maxMs / 1000);
+      });
+
+      const memory = process.memoryUsage();
+      const heap = v8.getHeapStatistics();
+      heapUsed.set({}, memory.heapUsed);
+      heapTotal.set({}, memory.heapTotal);
+      heapLimit.set({}, heap.heap_size_limit);
+      external.set({}, memory.external);
+      rss.set({}, memory.rss);
+      v8.getHeapSpaceStatistics().forEach(space => {
+        heapSpaceUsed.set({ space: space.space_name }, space.space_used_size);
+      });
+    });
+
+    this.runtime.start();
+  }
+
+  // Per-namespace, per-transport counters for one socket's lifetime
+  private instrumentSocket(socket: Socket): void {
+    const namespace = socket.nsp.name;
+    let transport: string = socket.conn.transport.name;
+    this.prometheus.connections.inc({ namespace, transport });
+    this.prometheus.activeConnections.inc({ namespace, transport });
+
+    socket.conn.once('upgrade', (upgraded: { name: string }) => {
+      this.prometheus.activeConnections.dec({ namespace, transport });
+      transport = upgraded.name;
+      this.prometheus.activeConnections.inc({ namespace, transport });
+    });
+
+    socket.onAny((event: string) => {
+      this.prometheus.eventsReceived.inc({ namespace, event: METRIC_EVENTS.has(event) ? event : 'other' });
+    });
+
+    socket.on('disconnect', (reason) => {
+      this.prometheus.activeConnections.dec({ namespace, transport });
+      this.prometheus.disconnects.inc({ namespace, transport, reason });
     });
   }
 
+  /**
+   * Simulate a restart: drop every connection and refuse handshakes for
+   * `downtimeMs`. With keepSessions the connection state survives, so clients
+   * can recover their sessions and get the packets they missed; otherwise it
+   * is discarded, as a real process restart would.
+   */
+  public restart(downtimeMs: number, keepSessions: boolean): void {
+    this.restarting = true;
+    const dropped = this.engineConnections.size;
+    console.log(`[${new Date().toISOString()}] Restarting: dropping ${dropped} connections, ${downtimeMs}ms downtime, sessions ${keepSessions ? 'kept' : 'discarded'}`);
+
+    // "forced close" is a recoverable reason, so each socket's session is persisted
+    Array.from(this.engineConnections).forEach(conn => conn.close(true));
+
+    setTimeout(() => {
+      if (!keepSessions) {
+        this.namespaceMetrics.forEach((_, name) => this.discardSessions(name));
+      }
+      this.restarting = false;
+      console.log(`[${new Date().toISOString()}] Restart complete, accepting connections again`);
+    }, downtimeMs);
+  }
+
+  /**
+   * Socket.IO has no public API to drop persisted sessions. The in-memory
+   * SessionAwareAdapter of socket.io 4.6-4.8 keeps them in `sessions` (a Map)
+   * and `packets` (an array); anything else is left alone with a warning.
+   */
+  private discardSessions(namespace: string): void {
+    const adapter = this.io.of(namespace).adapter as unknown as { sessions?: unknown; packets?: unknown };
+    if (adapter.sessions instanceof Map && Array.isArray(adapter.packets)) {
+      adapter.sessions.clear();
+      adapter.packets.length = 0;
+    } else {
+      console.warn(`[${new Date().toISOString()}] Cannot discard sessions of ${namespace}: unsupported adapter, reconnecting clients may still recover`);
+    }
+  }
+
+  /**
+   * Publish `rate` messages per second to a room until stopped or until
+   * `durationSeconds` elapses (0 = run until stopped). Restarting a room's
+   * publisher keeps its sequence so recipients see one continuous stream.
+   * Returns the sequence the next message follows.
+   */
+  public startPublisher(room: string, rate: number, size: number, durationSeconds: number = 0, namespace: string = '/'): number {
+    const key = publisherKey(namespace, room);
+    const nsp = this.io.of(namespace);
+    const previous = this.publishers.get(key);
+    if (previous) {
+      clearInterval(previous.timer);
+    }
+
+    // Batch sends on a >=10ms tick so high rates do not need sub-ms timers
+    const tickMs = Math.max(10, 1000 / rate);
+    const perTick = (rate * tickMs) / 1000;
+    const data = 'x'.repeat(Math.max(0, size));
+    let carry = 0;
+
+    const publisher: RoomPublisher = {
+      room,
+      namespace,
+      timer: setInterval(() => {
+        if (publisher.stopAt && Date.now() >= publisher.stopAt) {
+          this.stopPublisher(room, namespace);
+          return;
+        }
+
+        carry += perTick;
+        const count = Math.floor(carry);
+        carry -= count;
+
+        for (let i = 0; i < count; i++) {
+          nsp.to(room).emit('room-message', {
+            room,
+            origin: 'server',
+            seq: ++publisher.seq,
+            sentAt: Date.now(),
+            data
+          });
+        }
+      }, tickMs),
+      seq: previous?.seq || 0,
+      rate,
+      size,
+      stopAt: durationSeconds > 0 ? Date.now() + durationSeconds * 1000 : null
+    };
+
+    this.publishers.set(key, publisher);
+    console.log(`[${new Date().toISOString()}] Publishing ${rate} msg/s (${size} bytes) to room ${room}${namespace !== '/' ? ` in ${namespace}` : ''}`);
+    return publisher.seq;
+  }
+
+  public stopPublisher(room: string, namespace: string = '/'): number {
+    const key = publisherKey(namespace, room);
+    const publisher = this.publishers.get(key);
+    if (!publisher) return 0;
+
+    clearInterval(publisher.timer);
+    this.publishers.delete(key);
+    console.log(`[${new Date().toISOString()}] Stopped publisher for room ${room}${namespace !== '/' ? ` in ${namespace}` : ''} after ${publisher.seq} messages`);
+    return publisher.seq;
+  }
+
+  // With tenant scoping and a tenant given, only that tenant's publishers
+  public getPublishers(tenant?: string): Array<{ room: string; namespace: string; rate: number; size: number; published: number }> {
+    const scope = this.options.auth?.tenantScoping && tenant ? this.roomName(tenant, '') : '';
+    return Array.from(this.publishers.values()).filter(p => p.room.startsWith(scope)).map(p => ({
+      room: p.room,
+      namespace: p.namespace,
+      rate: p.rate,
+      size: p.size,
+      published: p.seq
+    }));
+  }
+
   private startMetricsCollection(): void {
     // Collect metrics every 5 seconds
     setInterval(() => {
@@ -180,18 +779,29 @@ class SocketBenchmarkServer {
       external: memUsage.external
     };
 
-    // CPU usage
+    // CPU usage: cumulative user/system time, percent over this interval
     const cpuUsage = process.cpuUsage();
     this.metrics.cpuUsage = {
       user: cpuUsage.user,
       system: cpuUsage.system,
-      percent: 0 // Will be calculated based on interval
+      percent: this.runtime.sampleCpuPercent(),
+      cores: this.metrics.cpuUsage.cores
     };
+
+    // Event-loop delay is reported per interval rather than since start
+    this.metrics.eventLoopDelay = this.runtime.getEventLoopDelay();
+    this.runtime.resetEventLoopDelay();
+
+    this.metrics.gc = this.runtime.getGcStats();
+    this.metrics.activeHandles = this.runtime.getActiveHandles();
   }
 
   private logMetrics(): void {
     const memMB = (this.metrics.memoryUsage.rss / 1024 / 1024).toFixed(2);
     const heapMB = (this.metrics.memoryUsage.heapUsed / 1024 / 1024).toFixed(2);
+    const { eventLoopDelay, gc } = this.metrics;
+    const gcRuns = Object.values(gc).reduce((sum, stats) => sum + stats.count, 0);
+    const gcMs = Object.values(gc).reduce((sum, stats) => sum + stats.totalMs, 0);
     
     console.log(`
 ┌─────────────────────────────────────────────────────────────┐
@@ -200,9 +810,21 @@ class SocketBenchmarkServer {
 │ Active Connections: ${this.metrics.activeConnections.toString().padStart(8)} │ Total: ${this.metrics.totalConnections.toString().padStart(8)} │
 │ Failed Connections: ${this.metrics.failedConnections.toString().padStart(8)} │ Rate:  ${this.metrics.connectionsPerSecond.toFixed(1).padStart(8)}/s │
 │ Memory Usage (RSS): ${memMB.padStart(8)} MB │ Heap:  ${heapMB.padStart(8)} MB │
+│ CPU (all cores):    ${this.metrics.cpuUsage.percent.toFixed(1).padStart(8)} %  │ Cores: ${this.metrics.cpuUsage.cores.toString().padStart(8)}   │
+│ Event Loop p50:     ${eventLoopDelay.p50.toFixed(1).padStart(8)} ms │ p99:   ${eventLoopDelay.p99.toFixed(1).padStart(8)} ms │
+│ GC Runs:            ${gcRuns.toString().padStart(8)}    │ Pause: ${gcMs.toFixed(0).padStart(8)} ms │
+│ Active Handles:     ${this.metrics.activeHandles.total.toString().padStart(8)}    │ Max lag: ${eventLoopDelay.max.toFixed(1).padStart(6)} ms │
 │ Uptime: ${Math.floor((Date.now() - this.startTime.getTime()) / 1000).toString().padStart(12)} seconds             │
 └─────────────────────────────────────────────────────────────┘
     `);
+
+    // Only worth a line each once there is more than the root namespace or auth to tell apart
+    if (this.namespaceMetrics.size > 1 || this.authEnabled()) {
+      this.namespaceMetrics.forEach((stats, name) => {
+        const tenants = Object.values(stats.tenants).filter(count => count > 0).length;
+        console.log(`  ${name}: ${stats.activeConnections} active, ${stats.totalConnections} total, ${stats.authFailures} auth failures, ${tenants} tenants`);
+      });
+    }
   }
 
   public async start(): Promise<void> {
@@ -218,8 +840,12 @@ class SocketBenchmarkServer {
 
 📊 Endpoints:
 ├─ Health Check: http://localhost:${this.port}/health
-├─ Metrics: http://localhost:${this.port}/metrics
-└─ Socket.IO: ws://localhost:${this.port}
+├─ Metrics: http://localhost:${this.port}/metrics (Prometheus), /metrics.json
+├─ Room Publishers: http://localhost:${this.port}/publishers
+├─ Simulated Restart: ${this.options.adminToken ? `POST http://localhost:${this.port}/restart (admin token required)` : 'disabled (set ADMIN_TOKEN)'}
+└─ Socket.IO: ${Array.from(this.namespaceMetrics.keys()).map(name => `ws://localhost:${this.port}${name === '/' ? '' : name}`).join(', ')}
+
+🔐 Auth: ${this.describeAuth()}
 
 Ready for connections! 🎯 Target: 10,000 concurrent connections
         `);
@@ -233,6 +859,8 @@ Ready for connections! 🎯 Target: 10,000 concurrent connections
   }
 
   public stop(): void {
+    this.publishers.forEach(publisher => this.stopPublisher(publisher.room, publisher.namespace));
+    this.runtime.stop();
     this.server.close();
     console.log('Server stopped');
   }
@@ -241,7 +869,17 @@ Ready for connections! 🎯 Target: 10,000 concurrent connections
 // Start server if this file is run directly
 if (require.main === module) {
   const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
-  const server = new SocketBenchmarkServer(port);
+  const list = (value?: string) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+  const server = new SocketBenchmarkServer(port, {
+    namespaces: list(process.env.SOCKET_NAMESPACES)?.map(name => (name.startsWith('/') ? name : `/${name}`)),
+    auth: {
+      tokens: list(process.env.AUTH_TOKENS),
+      jwtSecret: process.env.JWT_SECRET || undefined,
+      tenants: list(process.env.AUTH_TENANTS),
+      tenantScoping: process.env.TENANT_SCOPING === '1'
+    },
+    adminToken: process.env.ADMIN_TOKEN || undefined
+  });
   
   // Graceful shutdown
   process.on('SIGINT', () => {
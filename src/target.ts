@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import { BenchmarkConfig, ConnectionTarget, TargetScheme, TransportMode, TransportName } from './types';
+
+const SCHEMES: TargetScheme[] = ['http', 'https', 'ws', 'wss'];
+const TRANSPORTS: TransportName[] = ['websocket', 'polling'];
+
+export const DEFAULT_SOCKET_PATH = '/socket.io';
+export const DEFAULT_NAMESPACE = '/';
+export const DEFAULT_TRANSPORTS: TransportName[] = ['websocket', 'polling'];
+export const TRANSPORT_MODES: TransportMode[] = ['websocket', 'polling', 'upgrade'];
+
+// The client starts on the first transport listed and only ever upgrades from polling to websocket
+const MODE_TRANSPORTS: Record<TransportMode, TransportName[]> = {
+  websocket: ['websocket'],
+  polling: ['polling'],
+  upgrade: ['polling', 'websocket']
+};
+
+// CA bundles are read once per file rather than once per connection
+const caCache = new Map<string, string>();
+
+function normalizeLeadingSlash(value: string): string {
+  return value.startsWith('/') ? value : `/${value}`;
+}
+
+export function parseScheme(value: string): TargetScheme {
+  const scheme = value.toLowerCase().replace(/:$/, '') as TargetScheme;
+  if (!SCHEMES.includes(scheme)) {
+    throw new Error(`Invalid scheme "${value}" (expected one of: ${SCHEMES.join(', ')})`);
+  }
+  return scheme;
+}
+
+export function parseTransports(value: string): TransportName[] {
+  const transports = value
+    .split(',')
+    .map(t => t.trim().toLowerCase())
+    .filter(t => t.length > 0);
+
+  if (transports.length === 0) {
+    throw new Error('At least one transport is required');
+  }
+
+  transports.forEach(t => {
+    if (!TRANSPORTS.includes(t as TransportName)) {
+      throw new Error(`Invalid transport "${t}" (expected one of: ${TRANSPORTS.join(', ')})`);
+    }
+  });
+
+  return transports as TransportName[];
+}
+
+export function parseTransportMode(value: string): TransportMode {
+  const mode = value.trim().toLowerCase() as TransportMode;
+  if (!TRANSPORT_MODES.includes(mode)) {
+    throw new Error(`Invalid transport mode "${value}" (expected one of: ${TRANSPORT_MODES.join(', ')})`);
+  }
+  return mode;
+}
+
+export function transportsForMode(mode: TransportMode): TransportName[] {
+  return [...MODE_TRANSPORTS[mode]];
+}
+
+/**
+ * Split a full URL such as `wss://example.com:443/load-test` into the
+ * BenchmarkConfig fields it describes. The URL path is the namespace.
+ */
+export function parseTargetUrl(url: string): Pick<BenchmarkConfig, 'serverHost' | 'serverPort' | 'serverScheme' | 'namespace'> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid target URL "${url}"`);
+  }
+
+  const serverScheme = parseScheme(parsed.protocol);
+  const secure = serverScheme === 'https' || serverScheme === 'wss';
+
+  return {
+    serverScheme,
+    serverHost: parsed.hostname,
+    serverPort: parsed.port ? parseInt(parsed.port) : (secure ? 443 : 80),
+    namespace: parsed.pathname && parsed.pathname !== '' ? parsed.pathname : DEFAULT_NAMESPACE
+  };
+}
+
+export function resolveTarget(config: BenchmarkConfig): ConnectionTarget {
+  return {
+    scheme: config.serverScheme || 'http',
+    host: config.serverHost,
+    port: config.serverPort,
+    path: normalizeLeadingSlash(config.socketPath || DEFAULT_SOCKET_PATH),
+    namespace: normalizeLeadingSlash(config.namespace || DEFAULT_NAMESPACE),
+    transports: config.transports && config.transports.length > 0 ? config.transports : DEFAULT_TRANSPORTS,
+    tls: config.tls,
+    localAddress: config.localAddress
+  };
+}
+
+/**
+ * URL handed to socket.io-client. ws/wss are mapped to http/https since the
+ * client negotiates the actual transport from the `transports` option.
+ */
+export function buildTargetUrl(target: ConnectionTarget): string {
+  const scheme = target.scheme === 'wss' ? 'https' : target.scheme === 'ws' ? 'http' : target.scheme;
+  const namespace = target.namespace === '/' ? '' : target.namespace;
+  return `${scheme}://${target.host}:${target.port}${namespace}`;
+}
+
+export function describeTarget(target: ConnectionTarget): string {
+  const namespace = target.namespace === '/' ? '' : target.namespace;
+  return `${target.scheme}://${target.host}:${target.port}${namespace} (path: ${target.path}, transports: ${target.transports.join(',')})`;
+}
+
+/**
+ * Socket.IO client options derived from the target. TLS options are only
+ * meaningful for https/wss and are passed through to the underlying agent.
+ */
+export function buildSocketOptions(target: ConnectionTarget): Record<string, any> {
+  const options: Record<string, any> = {
+    path: target.path,
+    transports: target.transports
+  };
+
+  if (target.localAddress) {
+    options.localAddress = target.localAddress;
+  }
+
+  const secure = target.scheme === 'https' || target.scheme === 'wss';
+  if (secure) {
+    options.secure = true;
+    if (target.tls?.rejectUnauthorized === false) {
+      options.rejectUnauthorized = false;
+    }
+    if (target.tls?.caFile) {
+      if (!caCache.has(target.tls.caFile)) {
+        caCache.set(target.tls.caFile, fs.readFileSync(target.tls.caFile, 'utf8'));
+      }
+      options.ca = caCache.get(target.tls.caFile);
+    }
+  }
+
+  return options;
+}
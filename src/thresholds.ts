@@ -0,0 +1,72 @@
+import { BenchmarkResults, LatencyCategory, SloCategory, SloReport, SloResult, SloThresholds } from './types';
+
+/**
+ * Exit codes for `benchmark run` when a threshold fails. 1 stays reserved for
+ * invalid options and for runs that aborted before completing.
+ */
+export const THRESHOLD_EXIT_CODES: Record<SloCategory, number> = {
+  'success-rate': 10,
+  'retention': 11,
+  'connect-time': 12,
+  'latency': 13,
+  'disconnects': 14,
+  'memory': 15
+};
+
+export const THRESHOLD_LABELS: Record<keyof SloThresholds, string> = {
+  minSuccessRate: 'Success rate',
+  minRetentionRate: 'Retention rate',
+  maxConnectP99: 'p99 connect time',
+  maxLatencyP99: 'p99 latency',
+  maxSpontaneousDisconnects: 'Spontaneous disconnects',
+  maxMemoryPerConnectionKb: 'Memory per connection'
+};
+
+export const THRESHOLD_UNITS: Record<keyof SloThresholds, string> = {
+  minSuccessRate: '%',
+  minRetentionRate: '%',
+  maxConnectP99: 'ms',
+  maxLatencyP99: 'ms',
+  maxSpontaneousDisconnects: '',
+  maxMemoryPerConnectionKb: ' KB'
+};
+
+// Worst p99 across the measured message types, and which type it was
+function worstLatencyP99(results: BenchmarkResults): { value: number; category?: LatencyCategory } {
+  return Object.entries(results.latency).reduce<{ value: number; category?: LatencyCategory }>(
+    (worst, [category, summary]) => (summary && summary.p99 > worst.value ? { value: summary.p99, category: category as LatencyCategory } : worst),
+    { value: 0 }
+  );
+}
+
+/**
+ * Check the configured thresholds against a finished run. Thresholds that are
+ * not set are skipped; results keep the order of THRESHOLD_EXIT_CODES.
+ */
+export function evaluateThresholds(results: BenchmarkResults, thresholds: SloThresholds): SloReport {
+  const checks: SloResult[] = [];
+  const check = (threshold: keyof SloThresholds, category: SloCategory, actual: number, min: boolean, detail?: string) => {
+    const limit = thresholds[threshold];
+    if (limit === undefined) return;
+    checks.push({ threshold, category, limit, actual, passed: min ? actual >= limit : actual <= limit, detail });
+  };
+
+  const latency = worstLatencyP99(results);
+  const memoryPerConnectionKb = results.successfulConnections > 0
+    ? results.peakMemoryUsage / results.successfulConnections / 1024
+    : Infinity;
+
+  check('minSuccessRate', 'success-rate', results.connectionSuccessRate || 0, true);
+  check('minRetentionRate', 'retention', results.connectionRetentionRate, true);
+  check('maxConnectP99', 'connect-time', results.connectionTimeP99, false);
+  check('maxLatencyP99', 'latency', latency.value, false, latency.category);
+  check('maxSpontaneousDisconnects', 'disconnects', results.spontaneousDisconnections, false);
+  check('maxMemoryPerConnectionKb', 'memory', memoryPerConnectionKb, false);
+
+  const firstFailure = checks.find(result => !result.passed);
+  return {
+    passed: !firstFailure,
+    exitCode: firstFailure ? THRESHOLD_EXIT_CODES[firstFailure.category] : 0,
+    results: checks
+  };
+}
@@ -1,3 +1,25 @@
+// Handshake checks of SocketBenchmarkServer; with none of these set every client is accepted
+export interface ServerAuthOptions {
+  tokens?: string[]; // Accepted static tokens
+  jwtSecret?: string; // Accept HS256 JWTs signed with this secret
+  tenants?: string[]; // companyid values allowed to connect (default: any)
+  tenantScoping?: boolean; // Require a companyid and keep rooms and broadcasts within it
+}
+
+export interface ServerOptions {
+  namespaces?: string[]; // Namespaces to serve (default: /)
+  auth?: ServerAuthOptions;
+  adminToken?: string; // Enables POST /restart for callers sending it as a bearer token
+}
+
+// What one namespace of SocketBenchmarkServer has seen
+export interface NamespaceMetrics {
+  activeConnections: number;
+  totalConnections: number;
+  authFailures: number;
+  tenants: Record<string, number>; // Active connections per companyid
+}
+
 export interface ConnectionMetrics {
   totalConnections: number;
   activeConnections: number;
@@ -13,20 +35,148 @@ export interface ConnectionMetrics {
   cpuUsage: {
     user: number;
     system: number;
-    percent: number;
+    percent: number; // Over the last metrics interval, normalized by core count
+    cores: number;
   };
+  eventLoopDelay: EventLoopDelayStats; // Over the last metrics interval
+  gc: Record<GcKind, GcStats>; // Cumulative since start
+  activeHandles: ActiveHandleStats;
+}
+
+// Event-loop delay percentiles in milliseconds
+export interface EventLoopDelayStats {
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export type GcKind = 'minor' | 'major' | 'incremental' | 'weakcb';
+
+export interface GcStats {
+  count: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+export interface ActiveHandleStats {
+  total: number;
+  byType: Record<string, number>; // e.g. TCPSocketWrap, Timeout
 }
 
+export type TargetScheme = 'http' | 'https' | 'ws' | 'wss';
+export type TransportName = 'websocket' | 'polling';
+// websocket and polling stay on that transport; upgrade starts on polling and moves to websocket
+export type TransportMode = 'websocket' | 'polling' | 'upgrade';
+
+export interface TlsOptions {
+  rejectUnauthorized?: boolean; // Set to false to accept self-signed certificates (default: true)
+  caFile?: string; // Path to a PEM bundle of extra trusted CAs
+}
+
+export interface ConnectionTarget {
+  scheme: TargetScheme;
+  host: string;
+  port: number;
+  path: string; // Socket.IO engine path, e.g. /socket.io
+  namespace: string; // Socket.IO namespace, e.g. / or /load-test
+  transports: TransportName[];
+  tls?: TlsOptions;
+  localAddress?: string; // Local source address to bind outgoing sockets to
+}
+
+export interface LoadPhase {
+  name?: string;
+  target: number; // Active connections to reach by the end of the ramp
+  rampSeconds: number; // Time to get from the current level to target (0 = all at once)
+  holdSeconds: number; // Time to stay at target
+}
+
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+export interface LoggingOptions {
+  level?: LogLevel; // Drop entries below this level (default: DEBUG)
+  sampling?: Record<string, number>; // Fraction (0-1) of entries kept per event, e.g. { PING_SUCCESS: 0.1 } (the default for PING_SUCCESS)
+  maxFileSize?: number; // Rotate a log file once it reaches this many bytes (default: 100 MB)
+  maxFiles?: number; // Rotated files kept per log, e.g. connections.log.1 (default: 5)
+  flushInterval?: number; // ms between buffer flushes (default: 1000)
+}
+
+// Socket.IO client reconnection settings for dropped connections
+export interface ReconnectionOptions {
+  attempts: number; // Give up after this many failed attempts
+  delay: number; // ms before the first attempt, doubled on each further attempt
+  delayMax: number; // ms cap on the delay
+  jitter: number; // Randomization factor (0-1) applied to each delay
+}
+
+// Ask the server to drop every connection partway through the run
+export interface ServerRestartOptions {
+  at: number; // seconds after the test starts
+  downtime: number; // ms during which new handshakes are refused
+  keepSessions: boolean; // Keep connection state so reconnecting clients can recover their sessions
+  token?: string; // The server's ADMIN_TOKEN, sent as a bearer token
+}
+
+export type AuthProviderKind = 'static' | 'file' | 'login' | 'jwt';
+
+/**
+ * Where clients get their credentials. Placeholders in loginBody and jwtClaims:
+ * {user} (identity number) and {companyId}.
+ */
+export interface AuthOptions {
+  provider: AuthProviderKind; // static: token/companyId/headers as before
+  identities?: number; // Distinct users that clients cycle through (default: one per client, file: one per entry)
+  firstIdentity?: number; // Offset into the identities, set when a run is split across workers or agents
+  file?: string; // file: CSV with a header row, or a JSON array of tokens or header objects
+  loginUrl?: string; // login: endpoint to POST to before connecting
+  loginBody?: Record<string, string>; // login: JSON body sent per identity
+  tokenField?: string; // login: dotted path of the token in the response (default: token)
+  loginRate?: number; // login: requests per second at most (default: 50)
+  tokenTtl?: number; // login: seconds a token is reused when the response has no expiresIn (default: 300)
+  jwtSecret?: string; // jwt: HMAC secret, signs HS256
+  jwtKeyFile?: string; // jwt: PEM private key, signs RS256 or ES256
+  jwtClaims?: Record<string, string>; // jwt: claims per identity (default: sub user-{user}, companyid {companyId})
+  jwtExpiresIn?: number; // jwt: token lifetime in seconds (default: 3600)
+}
+
+// Why a connection failed: its credentials were refused or unavailable, or anything else
+export type FailureKind = 'auth' | 'transport';
+
 export interface BenchmarkConfig {
   targetConnections: number;
   connectionRate: number; // connections per second
   testDuration: number; // seconds
   messageInterval: number; // ms
   messageSize: number; // bytes
+  throughputFraction?: number; // Fraction (0-1) of connected clients that stream benchmark-data; 0/unset keeps sampled message testing
+  fanoutRooms?: number; // Spread clients across this many rooms and measure fan-out (0/unset disables)
+  fanoutPublishers?: number; // Clients per room that publish room-broadcast every messageInterval (default: 1)
+  fanoutServerRate?: number; // Ask the server to publish this many messages/sec into each room
+  loadProfile?: LoadPhase[]; // Run these phases instead of "open all, hold testDuration"
+  reconnection?: ReconnectionOptions; // Let dropped clients reconnect instead of counting them as lost
+  serverRestart?: ServerRestartOptions;
   message: string;
   serverHost: string;
   serverPort: number;
+  serverScheme?: TargetScheme; // default: http
+  socketPath?: string; // Socket.IO engine path (default: /socket.io)
+  namespace?: string; // Socket.IO namespace (default: /)
+  transports?: TransportName[]; // default: ['websocket', 'polling']
+  tls?: TlsOptions;
+  localAddress?: string; // Local source address for outgoing sockets
+  workers?: number; // Number of load-generator worker threads (default: 1)
+  localAddresses?: string[]; // Source addresses assigned round-robin to workers
+  agents?: string[]; // host:port of remote agents to distribute the run across
+  thresholds?: SloThresholds; // Pass/fail criteria evaluated at the end of the run
   headers?: Record<string, string>; // Optional headers for authentication
+  auth?: AuthOptions; // Per-client credentials; unset sends token/companyId (or headers) from every client
+  logging?: LoggingOptions;
+  verbose?: boolean; // Echo every connection event and progress line instead of the live progress view
+  runId?: string; // Stamped into logs, results and the handshake headers
+  runDir?: string; // Directory for this run's logs, config snapshot and outputs
   maxRetries?: number; // Maximum number of retry attempts (default: 3)
   retryDelay?: number; // Base delay in ms between retries (default: 1000)
   companyId: string;
@@ -36,7 +186,9 @@ export interface BenchmarkConfig {
 export interface ConnectionResult {
   success: boolean;
   connectionTime: number;
+  startedAt?: Date; // When the first connection attempt began
   errorMessage?: string;
+  failureKind?: FailureKind; // Set on failed connections
   socketId?: string;
   retryCount?: number; // Number of retry attempts made
   finalAttempt?: boolean; // Whether this was the final attempt
@@ -45,9 +197,132 @@ export interface ConnectionResult {
   disconnectionReason?: string; // Reason for disconnection
   connectionDuration?: number; // How long the connection lasted (ms)
   spontaneousDisconnect?: boolean; // Whether it disconnected on its own
+  reconnects?: number; // Times the connection was re-established after a drop
+  transport?: TransportName; // Transport the connection ended up on
+  upgradeTime?: number; // ms from the engine handshake to the upgrade, when it upgraded
+}
+
+export interface PingStats {
+  total: number;
+  failed: number;
+  successRate: number;
+}
+
+export interface ThroughputStats {
+  sent: number;
+  acknowledged: number;
+  lost: number; // Sent but never acknowledged
+  outOfOrder: number; // Acknowledged after a later message was already acknowledged
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+export interface ThroughputResults extends ThroughputStats {
+  clients: number; // Clients that took part in the workload
+  duration: number; // seconds
+  messageSize: number;
+  messageInterval: number; // ms
+  messagesPerSecond: number; // Acknowledged messages per second
+  bytesSentPerSecond: number;
+  bytesReceivedPerSecond: number;
+}
+
+export interface FanoutStats {
+  received: number; // Room messages delivered to this recipient
+  expected: number; // Messages the room's publishers sent while this recipient was in the room
+  missing: number; // Expected messages that never arrived
+}
+
+export interface FanoutResults extends FanoutStats {
+  rooms: number; // Rooms across all load generators; each generator has its own
+  members: number; // Clients that joined a room
+  published: number; // room-broadcast messages sent by load clients
+  completeness: number; // % of expected deliveries that arrived
+  incompleteRecipients: number; // Recipients with at least one gap
+  minRecipientCompleteness: number; // % for the worst recipient
+}
+
+// One drop of an established connection while reconnection was enabled
+export interface ReconnectEvent {
+  clientId: string;
+  droppedAt: number; // epoch ms
+  reconnectedAt?: number; // epoch ms; unset while still reconnecting or after giving up
+  recovered: boolean; // The server restored the session (socket.recovered)
+  attempts: number; // Reconnect attempts made for this drop
+  gaveUp: boolean;
+}
+
+// Drops close together in time, e.g. everyone after a server restart
+export interface ReconnectStorm {
+  startedAt: string; // ISO time of the first drop
+  duration: number; // seconds from the first drop to the last reconnect
+  drops: number;
+  reconnected: number;
+  recovered: number;
+  gaveUp: number;
+  peakReconnectsPerSecond: number;
+  timeToReconnect: { p50: number; p99: number; max: number }; // ms
+}
+
+export interface ReconnectionResults {
+  drops: number;
+  reconnected: number;
+  recovered: number; // Reconnects that resumed the previous session
+  gaveUp: number; // Drops that used up every attempt
+  pending: number; // Still reconnecting when the run ended
+  attempts: number;
+  timeToReconnect: { mean: number; p50: number; p90: number; p99: number; max: number }; // ms from drop to reconnect
+  replayed: number; // Missed server room messages delivered to recovered sessions
+  storms: ReconnectStorm[];
+}
+
+// Which transports successful connections ended up on
+export interface TransportResults {
+  connections: Partial<Record<TransportName, number>>;
+  upgraded: number; // Connections that moved from polling to websocket
+  upgradeTime: { p50: number; p99: number; max: number } | null; // ms; null when nothing upgraded
+}
+
+export interface PhaseResult {
+  name: string;
+  target: number;
+  duration: number; // seconds
+  startActive: number;
+  endActive: number;
+  attempted: number; // Connections opened during the phase
+  succeeded: number;
+  failed: number;
+  closed: number; // Connections closed by ramp-down
+  spontaneousDisconnects: number;
+  averageConnectionTime: number;
+  latency: LatencyReport;
+}
+
+export type LatencyCategory = 'ping' | 'message' | 'broadcast' | 'fanout';
+
+export interface LatencySummary {
+  count: number;
+  min: number; // all values in ms
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  p999: number;
+  max: number;
+  corrected: { // Coordinated-omission corrected distribution
+    count: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    p999: number;
+    max: number;
+  };
 }
 
+export type LatencyReport = Partial<Record<LatencyCategory, LatencySummary>>;
+
 export interface BenchmarkResults {
+  runId?: string;
   config: BenchmarkConfig;
   startTime: Date;
   endTime: Date;
@@ -60,8 +335,262 @@ export interface BenchmarkResults {
   maxConcurrentConnections: number;
   averageConnectionTime: number;
   connectionSuccessRate: number;
-  connectionRetentionRate: number; // % of successful connections still active
+  connectionRetentionRate: number; // % of successful connections, minus ramp-down closes, that lasted until the end of the run
   peakMemoryUsage: number;
-  peakCpuUsage: number;
+  peakCpuUsage: number; // Load generator process CPU, % of one core
+  hostCpuUsage: number; // Whole machine, % of all cores
+  latency: LatencyReport; // Round-trip latency per message type
+  throughput: ThroughputResults | null; // Only set when the throughput workload ran
+  fanout: FanoutResults | null; // Only set when the fan-out workload ran
+  reconnection: ReconnectionResults | null; // Only set when reconnection was enabled
+  transport: TransportResults | null; // Only set when connections succeeded
+  phases: PhaseResult[] | null; // Only set when a load profile ran
+  connectionTimeP99: number; // ms, over successful connections
+  thresholds: SloReport | null; // Only set when thresholds were configured
   errors: string[];
-}
\ No newline at end of file
+  authFailures: number; // Failed connections whose credentials were refused or could not be obtained
+  errorBreakdown: Record<string, number>; // Failed connections per error message
+  breakdown: ConnectionBreakdown | null; // Derived from the per-connection results
+  aborted?: string; // Error that stopped the run before it completed; the rest of the results are partial
+  failedGenerators?: string[]; // Workers or agents that failed; set only on partial runs, whose slices count as failed connections
+}
+
+export interface ConnectionBreakdown {
+  disconnectionReasons: Record<string, number>;
+  retryDistribution: Record<number, number>; // Retries needed → connections
+  connectTimeline: Array<{ second: number; started: number; succeeded: number; failed: number }>; // Seconds since the first attempt
+}
+
+export interface TimelineSample {
+  timestamp: number;
+  activeConnections?: number; // As seen by the load generator(s); workers and agents report about every 1-2 s
+  latency?: { count: number; p50: number; p90: number; p99: number }; // Round trips completed since the previous sample
+  cpu: number; // Load generator process CPU %
+  rss: number; // Load generator process RSS, bytes
+  server?: ServerSnapshot; // From the target's /metrics, when it has one
+}
+
+// One reading of a SocketBenchmarkServer's /metrics or /health endpoint
+export interface ServerSnapshot {
+  activeConnections: number;
+  totalConnections: number;
+  failedConnections: number;
+  cpu: number; // % of all cores
+  rss: number; // bytes
+  heapUsed: number; // bytes
+  eventLoopP99?: number; // ms, servers that report event-loop delay
+}
+
+export interface SloThresholds {
+  minSuccessRate?: number; // %
+  minRetentionRate?: number; // % of successful connections still active at the end
+  maxConnectP99?: number; // ms
+  maxLatencyP99?: number; // ms, worst p99 across the measured message types
+  maxSpontaneousDisconnects?: number;
+  maxMemoryPerConnectionKb?: number;
+}
+
+// Each category fails the run with its own exit code
+export type SloCategory = 'success-rate' | 'retention' | 'connect-time' | 'latency' | 'disconnects' | 'memory';
+
+export interface SloResult {
+  threshold: keyof SloThresholds;
+  category: SloCategory;
+  limit: number;
+  actual: number;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface SloReport {
+  passed: boolean;
+  exitCode: number; // 0, or the code of the first failing category
+  results: SloResult[];
+}
+
+export interface CapacityThresholds {
+  minSuccessRate: number; // %
+  maxConnectP99: number; // ms
+  maxPingFailureRate: number; // %
+  maxDisconnectRate: number; // % of successful connections that dropped spontaneously
+}
+
+export type CapacityStrategy = 'ladder' | 'binary';
+
+export interface CapacitySearchOptions {
+  strategy: CapacityStrategy;
+  start: number;
+  max: number;
+  step: number; // Ladder increment, and the resolution at which binary search stops
+  cooldown: number; // seconds between levels
+  thresholds: CapacityThresholds;
+}
+
+export interface CapacityLevel {
+  connections: number;
+  successRate: number;
+  connectP99: number;
+  pingFailureRate: number;
+  disconnectRate: number;
+  spontaneousDisconnections: number;
+  score: number; // assessPerformance score, 0-100
+  grade: string;
+  passed: boolean;
+  violations: string[]; // Breached thresholds, in the order they are checked
+}
+
+export interface CapacityResult {
+  runId?: string;
+  options: CapacitySearchOptions;
+  levels: CapacityLevel[]; // In the order they were tested
+  highestPassing: CapacityLevel | null;
+  firstFailing: CapacityLevel | null; // Lowest level that breached a threshold
+}
+
+// One transport mode's run in a `matrix` comparison
+export interface TransportMatrixEntry {
+  mode: TransportMode;
+  runId?: string;
+  successRate: number; // %
+  retentionRate: number; // %
+  connectAvg: number; // ms
+  connectP99: number; // ms
+  pingP99: number | null; // ms; null when no pings completed
+  messagesPerSecond: number | null; // Only set when the throughput workload ran
+  spontaneousDisconnections: number;
+  memoryPerConnectionKb: number;
+  peakCpu: number; // %
+  transport: TransportResults | null;
+  score: number; // assessPerformance score, 0-100
+  grade: string;
+}
+
+export interface TransportMatrixResult {
+  runId?: string;
+  entries: TransportMatrixEntry[]; // In the order the modes ran
+}
+
+// What `SocketBenchmark.exportResults` writes; older exports may lack newer fields
+export type BenchmarkExport = Partial<BenchmarkResults> & {
+  config: BenchmarkConfig;
+  exportedAt?: string;
+  performanceMetrics?: any;
+};
+
+// Tolerance kinds: rates are compared in percentage points, the rest relative to the baseline
+export type ComparisonGroup = 'rates' | 'latency' | 'resources' | 'throughput';
+
+export interface ComparisonRow {
+  metric: string;
+  group: ComparisonGroup;
+  unit: string;
+  higherIsBetter: boolean;
+  baseline: number;
+  current: number;
+  delta: number; // current - baseline
+  relative: number | null; // % change, null when the baseline is 0
+  tolerance: number; // points for rates, % for the other groups
+  status: 'regression' | 'improvement' | 'unchanged';
+}
+
+export interface ComparisonResult {
+  baselineFile: string;
+  currentFile: string;
+  tolerances: Record<ComparisonGroup, number>;
+  rows: ComparisonRow[];
+  errors: Array<{ message: string; baseline: number; current: number }>; // Failed connections per error message
+  regressions: number;
+}
+
+// What `benchmark logs analyze` derives from a run's connections, errors and pings logs
+export type FaultKind = 'stall' | 'half-open' | 'reset' | 'kill';
+
+// One recurring fault injected by the chaos proxy
+export interface FaultSchedule {
+  kind: FaultKind;
+  every: number; // seconds between injections
+  fraction: number; // Share (0-1) of open connections hit each time, at least one
+  duration: number; // ms a stall lasts; unused by the other kinds
+}
+
+export interface ProxyOptions {
+  listenHost: string;
+  listenPort: number;
+  targetHost: string;
+  targetPort: number;
+  latency: number; // ms added to every chunk in each direction
+  jitter: number; // ms, the delay varies uniformly by up to ± this much
+  bandwidth: number; // bytes/s per connection and direction (0 = unlimited)
+  faults: FaultSchedule[];
+}
+
+export interface ProxyStats {
+  accepted: number;
+  active: number;
+  bytesToServer: number;
+  bytesToClient: number;
+  upstreamErrors: number; // Connections the server refused or dropped with an error
+  faults: Record<FaultKind, number>; // Connections hit per fault kind
+}
+
+export interface LogAnalysis {
+  dir: string;
+  runIds: string[];
+  startTime: string | null; // First entry
+  endTime: string | null; // Last entry
+  entries: { connections: number; errors: number; pings: number; malformed: number };
+  bucketSeconds: number;
+  errorCategories: ErrorCategory[]; // Most frequent first
+  clients: { total: number; connected: number; neverConnected: number; retried: number; dropped: number };
+  lifecycles: ClientLifecycle[]; // Clients that retried, errored or dropped, earliest trouble first
+  worstPingClients: PingFailureRatio[];
+  disconnectBursts: DisconnectBurst[];
+  timeline: LogTimelineEvent[] | null; // Every entry of the requested client
+}
+
+export interface ErrorCategory {
+  event: string; // e.g. CONNECTION_ERROR, PING_FAILURE
+  category: string; // Error text with numbers and ids collapsed
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  buckets: number[]; // Occurrences per bucketSeconds since the first entry
+}
+
+export interface ClientLifecycle {
+  clientId: string;
+  firstSeen: string;
+  connects: number;
+  connectionTime?: number; // ms of the first successful connection, retries included
+  retries: number;
+  errors: number;
+  lastError?: string;
+  disconnectedAt?: string;
+  disconnectReason?: string;
+  spontaneous: boolean; // Dropped without the client asking
+  duration?: number; // ms connected before the last disconnect
+}
+
+export interface PingFailureRatio {
+  clientId: string;
+  succeeded: number;
+  failed: number;
+  failureRate: number; // %
+}
+
+export interface DisconnectBurst {
+  start: string;
+  end: string;
+  disconnects: number;
+  peakPerSecond: number;
+  reasons: Record<string, number>;
+  nearbyErrors: Record<string, number>; // Error categories within a few seconds of the burst
+}
+
+export interface LogTimelineEvent {
+  timestamp: string;
+  file: 'connections' | 'errors' | 'pings';
+  level: string;
+  event: string;
+  message: string;
+}
@@ -0,0 +1,207 @@
+import * as path from 'path';
+import * as readline from 'readline';
+import { isMainThread, parentPort, Worker, workerData } from 'worker_threads';
+import { shardAuth } from './auth';
+import { ConnectionTester, TesterSnapshot } from './client';
+import { mergeProgress, ProgressView, RunProgress } from './dashboard';
+import { HistogramSnapshot, LatencyHistogram } from './histogram';
+import { shard, shardProfile, shardRate } from './profile';
+import { BenchmarkConfig } from './types';
+
+interface WorkerInit {
+  role: 'load-worker';
+  workerIndex: number;
+  clientIdPrefix: string;
+  config: BenchmarkConfig;
+}
+
+// How often each worker reports its live counters to the coordinator
+const PROGRESS_INTERVAL_MS = 1000;
+
+type WorkerMessage =
+  | { type: 'progress'; workerIndex: number; progress: RunProgress; latency: HistogramSnapshot } // Round trips since the previous one
+  | { type: 'result'; workerIndex: number; snapshot: TesterSnapshot }
+  | { type: 'error'; workerIndex: number; error: string };
+
+type WorkerOutcome = Exclude<WorkerMessage, { type: 'progress' }>;
+
+// How a coordinator of several load generators (workers or agents) reports while they run
+export interface CoordinatorOptions {
+  onLatencies?: (window: HistogramSnapshot) => void; // Each generator's round trips, as they report them
+  progress?: boolean; // Show a live progress view of the merged counters (ignored when config.verbose is set)
+}
+
+class WorkerCoordinator {
+  private config: BenchmarkConfig;
+  private workerCount: number;
+  private clientIdPrefix: string;
+  private progress: Map<number, RunProgress> = new Map();
+  private onLatencies?: (window: HistogramSnapshot) => void;
+  private progressView: ProgressView | null = null;
+
+  constructor(config: BenchmarkConfig, clientIdPrefix: string = '', options: CoordinatorOptions = {}) {
+    this.config = config;
+    this.clientIdPrefix = clientIdPrefix;
+    this.onLatencies = options.onLatencies;
+    if (options.progress && !config.verbose) {
+      this.progressView = new ProgressView(() => this.getProgress());
+    }
+    // Never spawn more workers than there are connections to open
+    this.workerCount = Math.max(1, Math.min(config.workers || 1, config.targetConnections));
+  }
+
+  /**
+   * Build the per-worker configs: connections, rate and auth identities are
+   * sharded evenly and each worker gets its own source address (round-robin)
+   * when provided.
+   */
+  public buildWorkerConfigs(): BenchmarkConfig[] {
+    const connections = shard(this.config.targetConnections, this.workerCount);
+    const rates = shardRate(this.config.connectionRate, this.workerCount);
+    const addresses = this.config.localAddresses || [];
+    const profiles = this.config.loadProfile ? shardProfile(this.config.loadProfile, this.workerCount) : null;
+    const auths = shardAuth(this.config.auth, connections);
+    // Rooms are local to each generator so fan-out can be checked against known publishers
+    const rooms = shard(this.config.fanoutRooms || 0, this.workerCount);
+
+    return connections.map((targetConnections, i) => ({
+      ...this.config,
+      targetConnections,
+      loadProfile: profiles ? profiles[i] : undefined,
+      fanoutRooms: this.config.fanoutRooms ? Math.max(1, rooms[i]) : this.config.fanoutRooms,
+      connectionRate: rates[i],
+      // One restart request is enough for the whole run
+      serverRestart: i === 0 ? this.config.serverRestart : undefined,
+      auth: auths[i],
+      workers: 1,
+      localAddresses: undefined,
+      localAddress: addresses.length > 0 ? addresses[i % addresses.length] : this.config.localAddress
+    }));
+  }
+
+  // Latest counters from every worker that has reported so far
+  public getProgress(): RunProgress {
+    return mergeProgress([...this.progress.values()], this.config.targetConnections);
+  }
+
+  /**
+   * Run all workers to completion and merge their results into a single
+   * ConnectionTester, which is returned for reporting.
+   */
+  public async run(): Promise<ConnectionTester> {
+    // The aggregating tester owns log clearing; each worker appends to its own files
+    const aggregate = new ConnectionTester(this.config);
+    const workerConfigs = this.buildWorkerConfigs();
+
+    console.log(`\n🧵 Spawning ${workerConfigs.length} load-generator workers`);
+    workerConfigs.forEach((config, i) => {
+      const source = config.localAddress ? ` from ${config.localAddress}` : '';
+      console.log(`├─ Worker ${i}: ${config.targetConnections} connections @ ${config.connectionRate}/s${source}`);
+    });
+
+    this.progressView?.start();
+    let messages: WorkerOutcome[];
+    try {
+      messages = await Promise.all(workerConfigs.map((config, i) => this.spawnWorker(i, config)));
+    } finally {
+      this.progressView?.stop();
+    }
+
+    messages.forEach(message => {
+      if (message.type === 'result') {
+        aggregate.absorbResults(message.snapshot);
+      } else {
+        console.error(`❌ Worker ${message.workerIndex} failed: ${message.error}`);
+        aggregate.recordFailedGenerator(`worker ${message.workerIndex}`, workerConfigs[message.workerIndex].targetConnections, message.error);
+      }
+    });
+
+    const failedWorkers = messages.filter(m => m.type === 'error').length;
+    if (failedWorkers === messages.length) {
+      throw new Error('All load-generator workers failed');
+    }
+
+    return aggregate;
+  }
+
+  private spawnWorker(workerIndex: number, config: BenchmarkConfig): Promise<WorkerOutcome> {
+    const init: WorkerInit = {
+      role: 'load-worker',
+      workerIndex,
+      clientIdPrefix: `${this.clientIdPrefix}w${workerIndex}-`,
+      config
+    };
+    // Allow running under ts-node during development
+    const execArgv = path.extname(__filename) === '.ts' ? ['-r', 'ts-node/register'] : undefined;
+
+    return new Promise((resolve) => {
+      let settled = false;
+      const settle = (message: WorkerOutcome) => {
+        if (!settled) {
+          settled = true;
+          resolve(message);
+        }
+      };
+
+      // With a progress view, worker output is printed above it instead of tearing it
+      const view = this.progressView;
+      const worker = new Worker(__filename, { workerData: init, execArgv, stdout: view !== null });
+      if (view) {
+        readline.createInterface({ input: worker.stdout }).on('line', line => view.log(line));
+      }
+      worker.on('message', (message: WorkerMessage) => {
+        if (message.type === 'progress') {
+          this.progress.set(workerIndex, message.progress);
+          this.onLatencies?.(message.latency);
+        } else {
+          settle(message);
+        }
+      });
+      worker.on('error', (error) => settle({ type: 'error', workerIndex, error: error.message }));
+      worker.on('exit', (code) => settle({ type: 'error', workerIndex, error: `Worker exited with code ${code}` }));
+    });
+  }
+}
+
+async function runWorker(init: WorkerInit): Promise<void> {
+  let latencyWindow = new LatencyHistogram();
+  const tester = new ConnectionTester(init.config, {
+    clearLogs: false,
+    clientIdPrefix: init.clientIdPrefix,
+    logTag: `w${init.workerIndex}`,
+    onLatency: (_category, latency) => latencyWindow.recordValue(latency)
+  });
+  const progressInterval = setInterval(() => {
+    const latency = latencyWindow.toSnapshot();
+    latencyWindow = new LatencyHistogram();
+    parentPort!.postMessage({
+      type: 'progress',
+      workerIndex: init.workerIndex,
+      progress: tester.getProgress(),
+      latency
+    } as WorkerMessage);
+  }, PROGRESS_INTERVAL_MS);
+
+  try {
+    await tester.testConnections();
+    parentPort!.postMessage({
+      type: 'result',
+      workerIndex: init.workerIndex,
+      snapshot: tester.getSnapshot()
+    } as WorkerMessage);
+  } catch (error) {
+    parentPort!.postMessage({
+      type: 'error',
+      workerIndex: init.workerIndex,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    } as WorkerMessage);
+  } finally {
+    clearInterval(progressInterval);
+  }
+}
+
+if (!isMainThread && (workerData as WorkerInit)?.role === 'load-worker') {
+  runWorker(workerData as WorkerInit).then(() => process.exit(0));
+}
+
+export { WorkerCoordinator };